@@ -1,9 +1,26 @@
 import { RAGService } from './services/rag.service';
-import { RAGConfig } from './types/rag';
+import {
+    RAGConfig,
+    SearchFilter,
+    SearchQuery,
+    MetadataValue,
+    RetrievalMode,
+    DeduplicationReport,
+    ReembedStatus,
+    ModelPullStatus,
+    ProgressCallback,
+    RAGResponse,
+    RAGStreamEvent,
+    ClaimVerdict,
+    ClaimVerification
+} from './types/rag';
+import { EvidenceStance, FactCheckResult, FactCheckVerdict } from './types/factCheck';
 import * as readline from 'readline';
 import * as fs from 'fs';
 import * as path from 'path';
-import { colors, colorize, success, error, info, formatMarkdown, dim, highlight } from './utils/cli.formatting';
+import { randomUUID } from 'crypto';
+import { sameModel } from './utils/models';
+import { colors, colorize, success, error, info, formatMarkdown, formatCitations, hyperlink, credibilityBadge, formatBytes, wrapLines, dim, highlight } from './utils/cli.formatting';
 
 
 
@@ -13,13 +30,17 @@ const defaultConfig: RAGConfig = {
     ollama: {
         baseUrl: 'http://localhost:11434',
         model: process.env.MODEL || 'gemma3:1b',
-        embeddingModel: 'nomic-embed-text',
+        embeddingModel: process.env.EMBEDDING_MODEL || 'nomic-embed-text',
         temperature: 0.7,
         maxTokens: 2048
     },
+    models: {
+        autoPull: process.env.AUTO_PULL_MODELS === 'true'
+    },
     vectorStore: {
-        dimensions: 768,
-        similarity: 'cosine'
+        similarity: 'cosine',
+        backend: process.env.VECTOR_STORE_BACKEND === 'sqlite' ? 'sqlite' : 'memory',
+        persistPath: process.env.VECTOR_STORE_PATH || './data/vector-store'
     },
     chunking: {
         maxChunkSize: 1000,
@@ -27,13 +48,29 @@ const defaultConfig: RAGConfig = {
     },
     retrieval: {
         topK: 5,
-        threshold: 0.7
+        threshold: 0.7,
+        mmr: {
+            enabled: true,
+            lambda: 0.7
+        },
+        maxChunksPerSource: 2
+    },
+    deduplication: {
+        policy: 'skip',
+        nearDuplicateThreshold: 0.95
+    },
+    freshness: {
+        ttlHours: 24 * 7
     }
 };
 
 export class RAGCLI {
     private ragService: RAGService;
     private rl: readline.Interface;
+    /** Conversation en cours: chaque saisie est une question de suivi */
+    private conversationId: string | null = null;
+    /** Profil de prompt de la conversation en cours */
+    private conversationProfile: string | undefined;
 
     constructor() {
         this.ragService = new RAGService(defaultConfig);
@@ -43,26 +80,45 @@ export class RAGCLI {
         });
     }
 
-    private showLoadingSpinner(message: string): NodeJS.Timeout {
+    /**
+     * Le message peut être une fonction, réévaluée à chaque image (progression)
+     */
+    private showLoadingSpinner(message: string | (() => string)): NodeJS.Timeout {
         const frames = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
         let i = 0;
         return setInterval(() => {
-            process.stdout.write(`\r${colorize(frames[i], colors.cyan)} ${message}`);
+            const text = typeof message === 'function' ? message() : message;
+            process.stdout.write(`\r${colorize(frames[i], colors.cyan)} ${text}\x1b[K`);
             i = (i + 1) % frames.length;
         }, 100);
     }
 
     private stopSpinner(spinner: NodeJS.Timeout, message: string) {
         clearInterval(spinner);
-        process.stdout.write(`\r${success('✓')} ${message}\n`);
+        process.stdout.write(`\r${success('✓')} ${message}\x1b[K\n`);
+    }
+
+    /**
+     * Spinner dont le message affiche l'avancement des embeddings
+     */
+    private showProgressSpinner(message: string): { spinner: NodeJS.Timeout; onProgress: ProgressCallback } {
+        let progress = '';
+        const spinner = this.showLoadingSpinner(() => `${message}${progress}`);
+        const onProgress: ProgressCallback = (done, total) => {
+            progress = ` ${dim(`(embeddings ${done}/${total})`)}`;
+        };
+        return { spinner, onProgress };
     }
 
     async start() {
 
-        const spinner = this.showLoadingSpinner('Initialisation du service RAG...');
+        let message = 'Initialisation du service RAG...';
+        const spinner = this.showLoadingSpinner(() => message);
 
         try {
-            await this.ragService.initialize();
+            await this.ragService.initialize(status => {
+                message = `Téléchargement de ${status.model}...${this.formatPullProgress(status)}`;
+            });
             this.stopSpinner(spinner, 'Service RAG initialisé avec succès!');
             console.log('');
             this.showHelp();
@@ -74,33 +130,92 @@ export class RAGCLI {
         }
     }
 
+    /**
+     * Avancement d'un téléchargement de modèle: pourcentage et octets reçus, sinon l'étape en cours
+     */
+    private formatPullProgress(status: ModelPullStatus): string {
+        if (status.total === 0) {
+            return status.status ? ` ${dim(`(${status.status})`)}` : '';
+        }
+        const percent = Math.floor((status.completed / status.total) * 100);
+        return ` ${dim(`(${percent}%, ${formatBytes(status.completed)} / ${formatBytes(status.total)})`)}`;
+    }
+
+    /**
+     * Question posée dans le fil d'une commande: la boucle principale ne reprend la main
+     * qu'une fois la réponse obtenue
+     */
+    private ask(question: string): Promise<string> {
+        return new Promise(resolve => this.rl.question(question, resolve));
+    }
+
     private showHelp() {
         const helpBox = `
 ${colorize('┌────────────────────────────────────────────────────────────────┐', colors.blue)}
 ${colorize('│', colors.blue)} ${highlight('📚 COMMANDES DISPONIBLES')}                                       ${colorize('│', colors.blue)}
 ${colorize('├────────────────────────────────────────────────────────────────┤', colors.blue)}
 ${colorize('│', colors.blue)} ${info('search')} ${dim('<query>')}      ${colorize('│', colors.blue)} Recherche intelligente avec analyse auto ${colorize('│', colors.blue)}
+${colorize('│', colors.blue)} ${info('chat')} ${dim('[id]')}           ${colorize('│', colors.blue)} Conversation continue (reprise par id)   ${colorize('│', colors.blue)}
+${colorize('│', colors.blue)} ${info('check')} ${dim('<affirmation>')} ${colorize('│', colors.blue)} Vérifier une affirmation (base et web)   ${colorize('│', colors.blue)}
 ${colorize('│', colors.blue)} ${info('add-web')} ${dim('<query>')}     ${colorize('│', colors.blue)} Ajouter du contenu depuis le web         ${colorize('│', colors.blue)}
 ${colorize('│', colors.blue)} ${info('add-file')} ${dim('<path>')}     ${colorize('│', colors.blue)} Ajouter un fichier texte à la base       ${colorize('│', colors.blue)}
 ${colorize('│', colors.blue)} ${info('stats')}               ${colorize('│', colors.blue)} Afficher les statistiques                ${colorize('│', colors.blue)}
+${colorize('│', colors.blue)} ${info('prompts')}             ${colorize('│', colors.blue)} Lister les profils de prompt             ${colorize('│', colors.blue)}
+${colorize('│', colors.blue)} ${info('documents')}           ${colorize('│', colors.blue)} Lister les documents enregistrés         ${colorize('│', colors.blue)}
+${colorize('│', colors.blue)} ${info('delete-doc')} ${dim('<id>')}     ${colorize('│', colors.blue)} Supprimer un document et ses chunks      ${colorize('│', colors.blue)}
+${colorize('│', colors.blue)} ${info('export')} ${dim('<fichier>')}    ${colorize('│', colors.blue)} Exporter la collection (JSONL)           ${colorize('│', colors.blue)}
+${colorize('│', colors.blue)} ${info('import')} ${dim('<fichier>')}    ${colorize('│', colors.blue)} Importer une archive JSONL               ${colorize('│', colors.blue)}
+${colorize('│', colors.blue)} ${info('refresh')} ${dim('[--force]')}   ${colorize('│', colors.blue)} Rafraîchir les documents web périmés     ${colorize('│', colors.blue)}
+${colorize('│', colors.blue)} ${info('reembed')} ${dim('[modèle]')}    ${colorize('│', colors.blue)} Migrer vers un autre modèle d'embedding  ${colorize('│', colors.blue)}
+${colorize('│', colors.blue)} ${info('models')} ${dim('[action]')}     ${colorize('│', colors.blue)} Gérer les modèles (pull, show, rm)       ${colorize('│', colors.blue)}
+${colorize('│', colors.blue)} ${info('collections')}         ${colorize('│', colors.blue)} Lister les collections                   ${colorize('│', colors.blue)}
+${colorize('│', colors.blue)} ${info('use')} ${dim('<collection>')}    ${colorize('│', colors.blue)} Changer de collection (créée si absente) ${colorize('│', colors.blue)}
+${colorize('│', colors.blue)} ${info('drop')} ${dim('<collection>')}   ${colorize('│', colors.blue)} Supprimer une collection                 ${colorize('│', colors.blue)}
 ${colorize('│', colors.blue)} ${info('clear')}               ${colorize('│', colors.blue)} Vider la base de connaissances           ${colorize('│', colors.blue)}
 ${colorize('│', colors.blue)} ${info('help')}                ${colorize('│', colors.blue)} Afficher cette aide                      ${colorize('│', colors.blue)}
 ${colorize('│', colors.blue)} ${info('exit')}                ${colorize('│', colors.blue)} Quitter le CLI                           ${colorize('│', colors.blue)}
 ${colorize('└────────────────────────────────────────────────────────────────┘', colors.blue)}
+  ${dim('Filtres (search): --source=upload --domain=exemple.com --url=https://... --after=2024-01-01')}
+  ${dim('                  --before=2024-12-31 --tag=ia --<champ>=<valeur>')}
+  ${dim('Mode (search):     --mode=vector|lexical|hybrid --mmr=0.7 --per-source=2')}
+  ${dim('Prompt:            --profile=formal (search, chat) --lang=en (search)')}
+  ${dim('Vérification:      --verify (search) confronte chaque affirmation aux sources')}
+  ${dim('                   --local (check) sans recherche web')}
+  ${dim('Métadonnées (add-file): --tag=ia --<champ>=<valeur>')}
+  ${dim('Import: --reembed (recalcule si le modèle diffère) --replace (vide la collection avant)')}
+  ${dim('Modèles: models pull|show|rm <modèle>; AUTO_PULL_MODELS=true télécharge les absents au démarrage')}
         `;
         console.log(helpBox);
     }
 
     private startInteractiveMode() {
-        const prompt = `${colorize('Skepticism', colors.bright + colors.magenta)}${colorize('>', colors.cyan)} `;
+        const collection = this.ragService.currentCollection;
+        const scope = collection === 'default' ? '' : colorize(`[${collection}]`, colors.yellow);
+        const chat = this.conversationId ? colorize('[chat]', colors.green) : '';
+        const prompt = `${colorize('Skepticism', colors.bright + colors.magenta)}${scope}${chat}${colorize('>', colors.cyan)} `;
         this.rl.question(prompt, async (input) => {
+            if (this.conversationId) {
+                await this.handleChatMessage(input.trim());
+                this.startInteractiveMode();
+                return;
+            }
+
             const [command, ...args] = input.trim().split(' ');
 
             try {
                 switch (command.toLowerCase()) {
+                    case 'chat':
+                        this.handleChat(args.join(' ').trim());
+                        break;
+                    case 'prompts':
+                        this.handlePrompts();
+                        break;
                     case 'search':
                         await this.handleSearch(args.join(' '));
                         break;
+                    case 'check':
+                        await this.handleCheck(args.join(' '));
+                        break;
                     case 'add-web':
                         await this.handleAddWeb(args.join(' '));
                         break;
@@ -113,11 +228,42 @@ ${colorize('└─────────────────────
                     case 'clear':
                         await this.handleClear();
                         break;
+                    case 'documents':
+                        this.handleDocuments();
+                        break;
+                    case 'delete-doc':
+                        await this.handleDeleteDocument(args.join(' ').trim());
+                        break;
+                    case 'export':
+                        await this.handleExport(args.join(' ').trim());
+                        break;
+                    case 'import':
+                        await this.handleImport(args.join(' '));
+                        break;
+                    case 'refresh':
+                        await this.handleRefresh(args.join(' '));
+                        break;
+                    case 'reembed':
+                        await this.handleReembed(args.join(' ').trim());
+                        break;
+                    case 'models':
+                        await this.handleModels(args);
+                        break;
+                    case 'collections':
+                        await this.handleCollections();
+                        break;
+                    case 'use':
+                        await this.handleUse(args.join(' ').trim());
+                        break;
+                    case 'drop':
+                        await this.handleDrop(args.join(' ').trim());
+                        break;
                     case 'help':
                         this.showHelp();
                         break;
                     case 'exit':
                         console.log(`\n${success('👋 Au revoir!')}`);
+                        await this.ragService.close();
                         this.rl.close();
                         return;
                     default:
@@ -133,37 +279,147 @@ ${colorize('└─────────────────────
         });
     }
 
-    private async handleSearch(query: string) {
+    /**
+     * Sépare les options --clé=valeur du texte libre
+     */
+    private parseFlags(input: string): { text: string; flags: Array<[string, string]> } {
+        const flags: Array<[string, string]> = [];
+        const words: string[] = [];
+
+        input.split(' ').filter(Boolean).forEach(word => {
+            // --cle=valeur, ou --cle seul pour une option booléenne
+            const match = word.match(/^--([\w-]+)(?:=(.+))?$/);
+            if (match) {
+                flags.push([match[1], match[2] ?? 'true']);
+            } else {
+                words.push(word);
+            }
+        });
+
+        return { text: words.join(' '), flags };
+    }
+
+    private parseFlagValue(value: string): MetadataValue {
+        return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+    }
+
+    private buildSearchFilter(flags: Array<[string, string]>): SearchFilter | undefined {
+        if (flags.length === 0) return undefined;
+
+        const filter: SearchFilter = {};
+        const tags: string[] = [];
+
+        for (const [key, value] of flags) {
+            const values = value.split(',').map(item => this.parseFlagValue(item.trim()));
+
+            switch (key) {
+                case 'after':
+                    filter.timestamp = { ...(filter.timestamp as object), gte: value };
+                    break;
+                case 'before':
+                    filter.timestamp = { ...(filter.timestamp as object), lte: value };
+                    break;
+                case 'url':
+                    filter.url = { prefix: value };
+                    break;
+                case 'tag':
+                    tags.push(value);
+                    break;
+                default:
+                    filter[key] = values.length > 1 ? { in: values } : values[0];
+            }
+        }
+
+        if (tags.length > 0) {
+            filter.tags = { all: tags };
+        }
+
+        return filter;
+    }
+
+    private async handleSearch(input: string) {
+        const { text: query, flags } = this.parseFlags(input);
+        const optionKeys = ['mode', 'mmr', 'per-source', 'profile', 'lang', 'verify'];
+        const option = (key: string) => flags.find(([flag]) => flag === key)?.[1];
+        const filter = this.buildSearchFilter(flags.filter(([key]) => !optionKeys.includes(key)));
+
+        const modeFlag = option('mode');
+        if (modeFlag && !['vector', 'lexical', 'hybrid'].includes(modeFlag)) {
+            console.log(`✗ Mode inconnu: ${modeFlag} (vector, lexical ou hybrid)`);
+            return;
+        }
+        const mode = modeFlag as RetrievalMode | undefined;
+        const mmrLambda = option('mmr') !== undefined ? Number(option('mmr')) : undefined;
+        if (mmrLambda !== undefined && !(Number.isFinite(mmrLambda) && mmrLambda >= 0 && mmrLambda <= 1)) {
+            console.log(`✗ Valeur --mmr invalide: ${option('mmr')} (nombre entre 0 et 1)`);
+            return;
+        }
+        const maxChunksPerSource = option('per-source') !== undefined ? Number(option('per-source')) : undefined;
+        if (maxChunksPerSource !== undefined && !(Number.isInteger(maxChunksPerSource) && maxChunksPerSource > 0)) {
+            console.log(`✗ Valeur --per-source invalide: ${option('per-source')} (entier positif)`);
+            return;
+        }
+        const profile = option('profile');
+        if (profile && !this.checkProfile(profile)) return;
+
         if (!query) {
             console.log(`✗ Veuillez fournir une requête de recherche.`);
             return;
         }
 
         console.log(`\n${info('🔍 Recherche intelligente:')} ${highlight('"' + query + '"')}`);
+        if (filter) {
+            console.log(`  ${dim('Filtre: ' + JSON.stringify(filter))}`);
+        }
 
+        const searchQuery: SearchQuery = {
+            query,
+            filter,
+            mode,
+            mmrLambda,
+            maxChunksPerSource,
+            profile,
+            language: option('lang'),
+            verify: option('verify') !== undefined ? option('verify') !== 'false' : undefined,
+            includeWebSearch: false, // L'enrichissement web est piloté ici
+        };
         let currentSpinner: NodeJS.Timeout | null = null;
 
         try {
             // Étape 1: Vérifier d'abord dans la base existante
             currentSpinner = this.showLoadingSpinner('Recherche dans la base existante...');
 
-            const initialResult = await this.ragService.search({
-                query,
-                includeWebSearch: false, // Pas de recherche web pour le moment
-            });
+            const initialStream = this.ragService.searchStream(searchQuery);
+            const first = await initialStream.next();
+            const sources = !first.done && first.value.type === 'sources' ? first.value.sources : [];
 
-            // Si on a peu de résultats ou une réponse générique, on fait une recherche comprehensive
-            const needsMoreContent = initialResult.sources.length < 3 ||
-                initialResult.answer.includes("Je n'ai pas trouvé") ||
-                initialResult.answer.length < 200;
+            // Peu de sources: inutile de générer une réponse avant d'enrichir la base
+            let needsMoreContent = sources.length < 3;
 
             if (needsMoreContent) {
+                await initialStream.return(undefined);
                 this.stopSpinner(currentSpinner, 'Base existante insuffisante, enrichissement nécessaire');
+                currentSpinner = null;
+            } else {
+                this.stopSpinner(currentSpinner, `${sources.length} sources trouvées dans la base existante`);
+                currentSpinner = null;
 
+                const initialResult = await this.displaySearchResult(initialStream);
+
+                // Réponse générique ou trop courte: on enrichit quand même
+                needsMoreContent = initialResult.answer.includes("Je n'ai pas trouvé") ||
+                    initialResult.answer.length < 200;
+                if (needsMoreContent) {
+                    console.log(dim('Réponse insuffisante, enrichissement de la base...'));
+                }
+            }
+
+            if (needsMoreContent) {
                 // Recherche web intelligente pour enrichir la base
-                currentSpinner = this.showLoadingSpinner('Recherche web intelligente en cours...');
+                const { spinner, onProgress } = this.showProgressSpinner('Recherche web intelligente en cours...');
+                currentSpinner = spinner;
 
-                const enrichment = await this.ragService.addFromWebSearch(query, 8, true, true);
+                const enrichment = await this.ragService.addFromWebSearch(query, 8, true, true, undefined, onProgress);
 
                 this.stopSpinner(currentSpinner, 'Enrichissement web terminé');
                 currentSpinner = null;
@@ -182,26 +438,12 @@ ${colorize('└─────────────────────
                 }
 
                 console.log(`${success('✓')} ${enrichment.documentsAdded} nouveaux documents ajoutés`);
+                this.printDeduplication(enrichment.deduplication);
 
-                // Nouvelle recherche avec le contenu enrichi
+                // Recherche finale avec le contenu enrichi, affichée au fil de la génération
                 currentSpinner = this.showLoadingSpinner('Génération de la réponse finale...');
-
-                // Recherche finale (avec ou sans enrichissement)
-                const finalResult = await this.ragService.search({
-                    query,
-                    includeWebSearch: false, // On a déjà enrichi si nécessaire
-                });
-
-                this.stopSpinner(currentSpinner, 'Recherche terminée!');
+                await this.displaySearchResult(this.ragService.searchStream(searchQuery), currentSpinner);
                 currentSpinner = null;
-
-                // Affichage de la réponse
-                this.displaySearchResult(finalResult);
-            } else {
-                // Pas besoin d'enrichissement, utiliser le résultat initial
-                this.stopSpinner(currentSpinner, 'Recherche terminée!');
-                currentSpinner = null;
-                this.displaySearchResult(initialResult);
             }
 
         } catch (error: any) {
@@ -212,76 +454,242 @@ ${colorize('└─────────────────────
         }
     }
 
-    private displaySearchResult(result: any) {
-        // Formatage et affichage de la réponse markdown
-        const formattedAnswer = formatMarkdown(result.answer);
-        console.log(`\n${colorize('┌─ RÉPONSE', colors.green)}${colorize('─'.repeat(50), colors.green)}`);
+    /**
+     * Affiche la réponse au fil des tokens: chaque ligne terminée est formatée en markdown,
+     * la ligne en cours est redessinée à chaque token (terminal uniquement)
+     */
+    private async displaySearchResult(stream: AsyncIterable<RAGStreamEvent>, spinner?: NodeJS.Timeout): Promise<RAGResponse> {
+        const border = colorize('│', colors.green);
+        const live = process.stdout.isTTY;
+        let pending = '';
+        let drawnLines = 0;
+        let headerPrinted = false;
+        let footerPrinted = false;
+        let verifying: NodeJS.Timeout | null = null;
+        let sourceUrls: Array<string | undefined> = [];
+        let result: RAGResponse | null = null;
+
+        const printHeader = () => {
+            if (headerPrinted) return;
+            console.log(`\n${colorize('┌─ RÉPONSE', colors.green)}${colorize('─'.repeat(50), colors.green)}`);
+            headerPrinted = true;
+        };
+
+        // Ferme le cadre de la réponse (avant la vérification éventuelle)
+        const printFooter = () => {
+            if (footerPrinted) return;
+            printHeader();
+            if (pending || drawnLines > 0) draw(true);
+            console.log(`${colorize('└', colors.green)}${colorize('─'.repeat(57), colors.green)}`);
+            footerPrinted = true;
+        };
+
+        const draw = (final: boolean) => {
+            const lines = wrapLines(formatCitations(formatMarkdown(pending), sourceUrls).split('\n'), 75) // Limite à 75 caractères
+                .map(line => `${border} ${line}`);
+
+            if (live && drawnLines > 0) {
+                // Remonte au début de la ligne en cours et efface la version précédente
+                process.stdout.write(`\x1b[${drawnLines}A\r\x1b[J`);
+            }
+            if (live || final) {
+                process.stdout.write(lines.join('\n') + '\n');
+            }
+            drawnLines = final ? 0 : lines.length;
+        };
 
-        const answerLines = formattedAnswer.split('\n');
+        try {
+            for await (const event of stream) {
+                if (event.type === 'sources') {
+                    sourceUrls = event.sources.map(source => source.metadata.url);
+                    if (spinner) {
+                        this.stopSpinner(spinner, `${event.sources.length} sources retenues, génération de la réponse...`);
+                    }
+                } else if (event.type === 'verifying') {
+                    printFooter();
+                    verifying = this.showLoadingSpinner(`Vérification de ${event.claims} affirmations...`);
+                } else if (event.type === 'token') {
+                    printHeader();
+                    const lines = (pending + event.token).split('\n');
+                    for (const line of lines.slice(0, -1)) {
+                        pending = line;
+                        draw(true);
+                    }
+                    pending = lines[lines.length - 1];
+                    if (pending) draw(false);
+                } else {
+                    result = event.response;
+                }
+            }
+        } finally {
+            // Flux interrompu pendant la vérification
+            if (verifying && !result) clearInterval(verifying);
+        }
 
-        // Fonction pour découper les lignes trop longues
-        function splitLines(lines: string[], maxWidth: number = 80): string[] {
-            const splittedLines: string[] = [];
+        if (!result) {
+            throw new Error('Génération interrompue');
+        }
 
-            lines.forEach((line) => {
-                // Enlever les codes couleur ANSI pour calculer la vraie longueur
-                const cleanLine = line.replace(/\x1b\[[0-9;]*m/g, '');
+        printFooter();
+        if (verifying) {
+            this.stopSpinner(verifying, 'Vérification terminée');
+        }
+        if (result.conflicts.length > 0) {
+            this.displayConflicts(result);
+        }
+        if (result.claims) {
+            this.displayVerification(result.claims);
+        }
 
-                if (cleanLine.length <= maxWidth) {
-                    splittedLines.push(line);
-                } else {
-                    // Découper la ligne en respectant les mots
-                    const words = line.split(' ');
-                    let currentLine = '';
-                    let currentCleanLine = '';
-
-                    for (const word of words) {
-                        const cleanWord = word.replace(/\x1b\[[0-9;]*m/g, '');
-                        const testCleanLine = currentCleanLine + (currentCleanLine ? ' ' : '') + cleanWord;
-
-                        if (testCleanLine.length <= maxWidth) {
-                            currentLine += (currentLine ? ' ' : '') + word;
-                            currentCleanLine = testCleanLine;
-                        } else {
-                            if (currentLine) {
-                                splittedLines.push(currentLine);
-                            }
-                            currentLine = word;
-                            currentCleanLine = cleanWord;
-                        }
-                    }
+        if (result.citations.length > 0) {
+            this.displayFootnotes(result);
+            console.log('');
+            return result;
+        }
 
-                    if (currentLine) {
-                        splittedLines.push(currentLine);
-                    }
-                }
+        // Affichage des sources (aucune citation dans la réponse)
+        const webSources = result.sources
+            .filter(source => !!source.metadata.url)
+            .filter((source, index, array) => array.findIndex(other => other.metadata.url === source.metadata.url) === index);
+
+        if (webSources.length > 0) {
+            console.log(`\n${highlight('📚 Sources:')}`);
+            webSources.forEach(({ metadata }, index) => {
+                const badge = credibilityBadge(metadata.credibility);
+                console.log(`  ${colorize((index + 1).toString(), colors.dim)} ${info(metadata.url as string)}${badge ? ` ${badge}` : ''}`);
             });
+        }
+        console.log('');
+
+        return result;
+    }
 
-            return splittedLines;
+    /**
+     * Sources en désaccord, avec la phrase de chacune
+     */
+    private displayConflicts(result: RAGResponse) {
+        const truncate = (text: string) => text.length > 110 ? `${text.slice(0, 107)}...` : text;
+
+        console.log(`\n${colorize('⚖️  Désaccords entre sources:', colors.bright + colors.yellow)}`);
+        for (const conflict of result.conflicts) {
+            const [a, b] = conflict.sourceIndices.map(index => colorize(`[${index + 1}]`, colors.cyan));
+            const detail = conflict.values ? `${conflict.values[0]} / ${conflict.values[1]}` : 'affirmation contraire';
+            console.log(`  ${a} ↔ ${b} ${highlight(conflict.topic)} ${dim(`(${detail})`)}`);
+            conflict.statements.forEach((statement, index) => {
+                console.log(`    ${dim(`[${conflict.sourceIndices[index] + 1}] ${truncate(statement)}`)}`);
+            });
         }
+    }
 
-        const processedLines = splitLines(answerLines, 75); // Limite à 75 caractères
-        processedLines.forEach(line => {
-            console.log(`${colorize('│', colors.green)} ${line}`);
-        });
+    /**
+     * Bilan de la vérification: les affirmations non étayées ou contredites sont reprises
+     * en surbrillance avec la justification du verdict
+     */
+    private displayVerification(claims: ClaimVerification[]) {
+        const count = (verdict: ClaimVerdict) => claims.filter(claim => claim.verdict === verdict).length;
+        const supported = count('supported');
+        const unsupported = count('unsupported');
+        const contradicted = count('contradicted');
+
+        console.log(`\n${highlight('🔎 Vérification:')} ${success(`${supported} appuyées`)}, ${colorize(`${unsupported} non étayées`, colors.yellow)}, ${error(`${contradicted} contredites`)}`);
+
+        for (const claim of claims.filter(claim => claim.verdict !== 'supported')) {
+            const [icon, color] = claim.verdict === 'contradicted' ? ['✗', colors.red] : ['?', colors.yellow];
+            const sources = claim.sourceIndices.map(index => `[${index + 1}]`).join('');
+            wrapLines([`${colorize(icon, color)} ${colorize(claim.claim, color + colors.bright)}`], 75)
+                .forEach(line => console.log(`  ${line}`));
+            if (claim.explanation) {
+                console.log(`    ${dim(claim.explanation)}${sources ? ' ' + dim(sources) : ''}`);
+            }
+        }
+    }
+
+    /**
+     * Notes de bas de réponse: une par source citée, avec son titre et son URL cliquable
+     */
+    private displayFootnotes(result: RAGResponse) {
+        const markers = Array.from(new Set(result.citations.map(citation => citation.marker))).sort((a, b) => a - b);
+
+        console.log(`\n${highlight('📚 Sources citées:')}`);
+        for (const marker of markers) {
+            const { metadata } = result.sources[marker - 1];
+            const title = metadata.title || `Source ${marker} (${metadata.source})`;
+            const url = metadata.url ? ` ${hyperlink(info(metadata.url), metadata.url)}` : '';
+            const badge = credibilityBadge(metadata.credibility);
+            console.log(`  ${colorize(`[${marker}]`, colors.cyan)} ${title}${url}${badge ? ` ${badge}` : ''}`);
+        }
+
+        const uncited = result.sources.length - markers.length;
+        if (uncited > 0) {
+            console.log(`  ${dim(`${uncited} autre${uncited > 1 ? 's' : ''} source${uncited > 1 ? 's' : ''} non citée${uncited > 1 ? 's' : ''}`)}`);
+        }
+    }
 
-        console.log(`${colorize('└', colors.green)}${colorize('─'.repeat(57), colors.green)}`);
+    /**
+     * Entre en mode conversation: nouvelle conversation, ou reprise d'une conversation existante
+     */
+    private handleChat(input: string) {
+        const { text: id, flags } = this.parseFlags(input);
+        const profile = flags.find(([key]) => key === 'profile')?.[1];
+        if (profile && !this.checkProfile(profile)) return;
+
+        this.conversationId = id || randomUUID();
+        this.conversationProfile = profile ?? this.conversationProfile;
+        const conversation = this.ragService.getConversation(this.conversationId);
+
+        const details = [
+            conversation ? `${conversation.turns.length} échanges` : '',
+            this.conversationProfile ? `profil ${this.conversationProfile}` : ''
+        ].filter(Boolean).join(', ');
+        console.log(`\n${info('💬 Conversation')} ${dim(this.conversationId)}${details ? dim(` (${details})`) : ''}`);
+        console.log(`  ${dim('/new: nouvelle conversation, /quit ou exit: quitter le mode conversation')}\n`);
+    }
+
+    private async handleChatMessage(message: string) {
+        if (!message) return;
+
+        // exit/quit seuls quittent aussi le mode conversation plutôt que d'être envoyés au modèle
+        if (['/quit', 'quit', 'exit'].includes(message.toLowerCase())) {
+            console.log(dim(`Conversation ${this.conversationId} conservée (chat ${this.conversationId} pour la reprendre)`));
+            this.conversationId = null;
+            this.conversationProfile = undefined;
+            return;
+        }
+        if (message === '/new') {
+            this.handleChat('');
+            return;
+        }
 
-        // Affichage des sources
-        if (result.sources.length > 0) {
-            const urls = result.sources
-                .map((source: { metadata: { url: any; }; }) => source.metadata.url)
-                .filter((url: any) => url)
-                .filter((url: any, index: any, array: string | any[]) => array.indexOf(url) === index);
+        const spinner = this.showLoadingSpinner('Recherche dans la base...');
+        try {
+            const response = await this.displaySearchResult(
+                this.ragService.converseStream(this.conversationId!, message, { profile: this.conversationProfile }),
+                spinner
+            );
 
-            if (urls.length > 0) {
-                console.log(`\n${highlight('📚 Sources:')}`);
-                urls.forEach((url: string, index: number) => {
-                    console.log(`  ${colorize((index + 1).toString(), colors.dim)} ${info(url!)}`);
-                });
+            if (response.standaloneQuery && response.standaloneQuery !== message) {
+                console.log(`${dim(`Recherche effectuée: "${response.standaloneQuery}"`)}\n`);
             }
+        } catch (error: any) {
+            clearInterval(spinner);
+            console.log(`\r ✗ Erreur lors de la conversation: ${error}`);
         }
-        console.log('');
+    }
+
+    private handlePrompts() {
+        console.log(`\n${highlight('🗒️  Profils de prompt:')}`);
+        this.ragService.listPromptProfiles().forEach(profile => {
+            console.log(`  ${info(profile.name)}${profile.description ? ` ${dim(profile.description)}` : ''}`);
+        });
+        console.log(`  ${dim('Utilisation: search <query> --profile=<nom>, chat --profile=<nom>')}\n`);
+    }
+
+    private checkProfile(profile: string): boolean {
+        if (this.ragService.listPromptProfiles().some(prompt => prompt.name === profile)) {
+            return true;
+        }
+        console.log(`✗ Profil de prompt inconnu: ${profile} (voir la commande prompts)`);
+        return false;
     }
 
     private async handleAddWeb(query: string) {
@@ -291,10 +699,10 @@ ${colorize('└─────────────────────
         }
 
         console.log(`\n${info('🌐 Ajout de contenu web intelligent:')} ${highlight('"' + query + '"')}`);
-        const spinner = this.showLoadingSpinner('Analyse et recherche web...');
+        const { spinner, onProgress } = this.showProgressSpinner('Analyse et recherche web...');
 
         try {
-            const result = await this.ragService.addFromWebSearch(query, 8, true, true); // true = recherche intelligente, true = silent
+            const result = await this.ragService.addFromWebSearch(query, 8, true, true, undefined, onProgress); // true = recherche intelligente, true = silent
             this.stopSpinner(spinner, `${result.documentsAdded} documents ajoutés avec succès!`);
 
             if (result.topicAnalysis) {
@@ -306,6 +714,7 @@ ${colorize('└─────────────────────
             if (result.executedQueries.length > 0) {
                 console.log(`  ${info('Requêtes exécutées:')} ${result.executedQueries.join(' | ')}`);
             }
+            this.printDeduplication(result.deduplication);
             console.log('');
         } catch (error: any) {
             clearInterval(spinner);
@@ -315,7 +724,9 @@ ${colorize('└─────────────────────
 
 
 
-    private async handleAddFile(filePath: string) {
+    private async handleAddFile(input: string) {
+        const { text: filePath, flags } = this.parseFlags(input);
+
         if (!filePath) {
             console.log('❌ Veuillez fournir le chemin du fichier.');
             return;
@@ -330,29 +741,67 @@ ${colorize('└─────────────────────
             const content = fs.readFileSync(filePath, 'utf-8');
             const fileName = path.basename(filePath);
 
-            await this.ragService.addDocuments([{
-                id: `file_${Date.now()}`,
-                content,
-                metadata: {
-                    title: fileName,
-                    source: "upload",
-                    timestamp: new Date()
-                }
-            }]);
+            const tags = flags.filter(([key]) => key === 'tag').map(([, value]) => value);
+            const customFields = Object.fromEntries(
+                flags
+                    .filter(([key]) => key !== 'tag')
+                    .map(([key, value]) => [key, this.parseFlagValue(value)])
+            );
+
+            const { spinner, onProgress } = this.showProgressSpinner(`Ajout de ${fileName}...`);
+            let report: DeduplicationReport;
+            try {
+                report = await this.ragService.addDocuments([{
+                    id: `file_${Date.now()}`,
+                    content,
+                    metadata: {
+                        ...customFields,
+                        title: fileName,
+                        source: "upload",
+                        timestamp: new Date(),
+                        tags: tags.length > 0 ? tags : undefined
+                    }
+                }], undefined, onProgress);
+            } finally {
+                clearInterval(spinner);
+                process.stdout.write('\r\x1b[K');
+            }
 
-            console.log(`✅ Fichier "${fileName}" ajouté avec succès!\n`);
+            console.log(`✅ Fichier "${fileName}" ajouté avec succès!`);
+            this.printDeduplication(report);
+            console.log('');
         } catch (error) {
             console.error(`❌ Erreur lors de l'ajout du fichier:`, error);
         }
     }
 
+    private printDeduplication(report?: DeduplicationReport) {
+        if (!report) return;
+
+        const duplicates = report.exactDuplicates + report.nearDuplicates;
+        console.log(`  ${info('Chunks ajoutés:')} ${report.chunksAdded}`);
+        if (duplicates > 0) {
+            console.log(`  ${info('Doublons:')} ${duplicates} ${dim(`(${report.exactDuplicates} exacts, ${report.nearDuplicates} proches, politique ${report.policy})`)}`);
+        }
+    }
+
     private async handleStats() {
         console.log('📊 Statistiques du RAG:');
         const stats = await this.ragService.getStats();
 
-        console.log(`  Documents: ${stats.vectorStore.sources.length}`);
+        console.log(`  Documents: ${stats.documents}`);
         console.log(`  Chunks: ${stats.vectorStore.totalChunks}`);
-        console.log(`  Dimensions de la matrice: ${stats.vectorStore.dimensions}`);
+        console.log(`  Modèle d'embedding: ${stats.embedding.model} (${stats.embedding.dimensions} dimensions)`);
+        if (stats.reembed) {
+            this.printReembedStatus(stats.reembed);
+        }
+        if (stats.freshness.webDocuments > 0) {
+            console.log(`  Documents web périmés: ${stats.freshness.staleDocuments}/${stats.freshness.webDocuments} ${dim(`(${stats.freshness.staleChunks} chunks)`)}`);
+        }
+        if (stats.embeddingCache) {
+            const cache = stats.embeddingCache;
+            console.log(`  Cache d'embeddings: ${cache.entries}/${cache.maxEntries} entrées ${dim(`(${(cache.sizeBytes / 1024 / 1024).toFixed(1)} Mo, ${Math.round(cache.hitRate * 100)}% de succès sur ${cache.hits + cache.misses} requêtes, ${cache.evictions} évictions)`)}`);
+        }
         console.log("  Sources: ")
 
         stats.vectorStore.sources.forEach((source, index) => {
@@ -364,6 +813,287 @@ ${colorize('└─────────────────────
 
 
 
+    private handleDocuments() {
+        const documents = this.ragService.listDocuments();
+
+        if (documents.length === 0) {
+            console.log('Aucun document enregistré');
+            return;
+        }
+
+        console.log(`📄 Documents (${documents.length}):`);
+        documents.forEach(document => {
+            const label = document.metadata.title || document.metadata.url || document.metadata.source;
+            console.log(`  ${info(document.id)} ${label.substring(0, 60)} ${dim(`(${document.chunkIds.length} chunks, ${document.ingestedAt.toLocaleString()})`)}`);
+        });
+    }
+
+    private async handleDeleteDocument(id: string) {
+        if (!id) {
+            console.log('❌ Veuillez fournir l\'ID du document.');
+            return;
+        }
+
+        await this.ragService.deleteDocument(id);
+        console.log(`${success('✓')} Document supprimé: ${id}`);
+    }
+
+    private async handleExport(filePath: string) {
+        if (!filePath) {
+            console.log('❌ Veuillez fournir le chemin du fichier.');
+            return;
+        }
+
+        const archive = await this.ragService.exportCollection();
+        fs.writeFileSync(filePath, archive, 'utf-8');
+
+        const stats = await this.ragService.getStats();
+        console.log(`${success('✓')} ${stats.vectorStore.totalChunks} chunks exportés vers ${filePath}`);
+    }
+
+    private async handleImport(input: string) {
+        const { text: filePath, flags } = this.parseFlags(input);
+
+        if (!filePath) {
+            console.log('❌ Veuillez fournir le chemin du fichier.');
+            return;
+        }
+        if (!fs.existsSync(filePath)) {
+            console.log(`❌ Fichier non trouvé: ${filePath}`);
+            return;
+        }
+
+        const options = new Set(flags.map(([key]) => key));
+        const spinner = this.showLoadingSpinner(`Import de ${path.basename(filePath)}...`);
+
+        try {
+            const report = await this.ragService.importCollection(fs.readFileSync(filePath, 'utf-8'), {
+                onEmbeddingMismatch: options.has('reembed') ? 'reembed' : 'refuse',
+                replace: options.has('replace')
+            });
+            this.stopSpinner(spinner, `${report.chunksImported} chunks importés (${report.documents} documents) dans ${report.collection}`);
+            if (report.reembedded) {
+                console.log(`  ${dim('Embeddings recalculés avec le modèle courant')}`);
+            }
+        } catch (error: any) {
+            clearInterval(spinner);
+            console.log(`\r ✗ ${error.message}`);
+        }
+    }
+
+    private async handleRefresh(input: string) {
+        const { flags } = this.parseFlags(input);
+        const force = flags.some(([key]) => key === 'force');
+        const spinner = this.showLoadingSpinner('Rafraîchissement des documents web...');
+
+        try {
+            const report = await this.ragService.refreshStale(undefined, { force });
+            this.stopSpinner(spinner, `${report.checked} documents vérifiés: ${report.updated} mis à jour, ${report.unchanged} inchangés`);
+            report.failed.forEach(failure => {
+                console.log(`  ${error('✗')} ${failure.url} ${dim(failure.error)}`);
+            });
+        } catch (error: any) {
+            clearInterval(spinner);
+            console.log(`\r ✗ ${error.message}`);
+        }
+    }
+
+    private async handleCheck(input: string) {
+        const { text: claim, flags } = this.parseFlags(input);
+        if (!claim) {
+            console.log(`✗ Veuillez fournir une affirmation à vérifier.`);
+            return;
+        }
+
+        const includeWebSearch = !flags.some(([key]) => key === 'local');
+        const spinner = this.showLoadingSpinner(`Recherche de preuves${includeWebSearch ? ' (base et web)' : ' (base)'}...`);
+
+        let result: FactCheckResult;
+        try {
+            result = await this.ragService.factCheck(claim, { includeWebSearch });
+            this.stopSpinner(spinner, `${result.evidence.length} preuves examinées en ${(result.durationMs / 1000).toFixed(1)}s`);
+        } catch (error: any) {
+            clearInterval(spinner);
+            console.log(`\r ✗ ${error.message}`);
+            return;
+        }
+
+        const verdicts: Record<FactCheckVerdict, string> = {
+            supported: success('✓ CONFIRMÉE'),
+            refuted: error('✗ RÉFUTÉE'),
+            disputed: colorize('⚖ CONTESTÉE', colors.yellow),
+            insufficient: dim('? NON ÉTABLIE')
+        };
+        const levels = { low: 'faible', medium: 'moyenne', high: 'élevée' };
+        console.log(`\n${highlight('Affirmation:')} ${claim}`);
+        console.log(`${highlight('Verdict:')} ${verdicts[result.verdict]} ${dim(`(confiance ${levels[result.confidenceLevel]}, ${Math.round(result.confidence * 100)}%)`)}`);
+
+        const stances: Record<EvidenceStance, string> = {
+            supporting: success('+'),
+            refuting: error('−'),
+            neutral: dim('·')
+        };
+        const decisive = result.evidence.filter(item => item.stance !== 'neutral');
+        if (decisive.length > 0) {
+            console.log(`\n${highlight('📚 Preuves:')}`);
+        }
+        decisive.forEach((item, index) => {
+            const label = item.title || (item.origin === 'web' ? 'Page web' : 'Document local');
+            const url = item.url ? ` ${hyperlink(info(item.url), item.url)}` : '';
+            const badge = credibilityBadge(item.credibility);
+            console.log(`  ${stances[item.stance]} ${colorize(`[${index + 1}]`, colors.cyan)} ${label}${url} ${dim(`(${item.origin}, ${(item.similarity * 100).toFixed(0)}%)`)}${badge ? ` ${badge}` : ''}`);
+            if (item.explanation) {
+                wrapLines([item.explanation], 70).forEach(line => console.log(`      ${dim(line)}`));
+            }
+        });
+
+        const neutral = result.evidence.length - decisive.length;
+        if (neutral > 0) {
+            console.log(`  ${dim(`${neutral} extrait${neutral > 1 ? 's' : ''} sans rapport direct`)}`);
+        }
+        console.log('');
+    }
+
+    private async handleReembed(model: string) {
+        const status = await this.ragService.reembed(model || undefined);
+        console.log(`${success('✓')} Migration lancée: ${status.from.model} → ${status.to.model} (${status.to.dimensions} dimensions)`);
+        console.log(`  ${dim('La collection reste interrogeable pendant la migration; suivez la progression avec stats')}`);
+    }
+
+    private printReembedStatus(status: ReembedStatus) {
+        const progress = status.total > 0 ? ` ${status.processed}/${status.total}` : '';
+        const labels = { running: 'en cours', completed: 'terminée', failed: 'échouée' };
+        console.log(`  Migration vers ${status.to.model}: ${labels[status.state]}${progress}`);
+        if (status.error) {
+            console.log(`    ${dim(status.error)}`);
+        }
+    }
+
+    private async handleModels([action, ...rest]: string[]) {
+        const model = rest.join(' ').trim();
+
+        if (!action) {
+            const models = await this.ragService.listAvailableModels();
+            const stats = await this.ragService.getStats();
+            const inUse = [stats.ollama.model, stats.embedding.model];
+
+            console.log('🧠 Modèles installés:');
+            models.forEach(name => {
+                const used = inUse.some(current => sameModel(name, current));
+                console.log(`  ${used ? success('●') : dim('○')} ${name}`);
+            });
+            return;
+        }
+
+        if (!['pull', 'show', 'rm'].includes(action)) {
+            console.log('❌ Action inconnue: models [pull|show|rm] <modèle>');
+            return;
+        }
+        if (!model) {
+            console.log('❌ Veuillez spécifier un modèle');
+            return;
+        }
+
+        switch (action) {
+            case 'pull':
+                await this.handlePullModel(model);
+                break;
+            case 'show':
+                await this.handleShowModel(model);
+                break;
+            case 'rm': {
+                const answer = (await this.ask(`⚠️  Supprimer le modèle ${model}? (oui/non): `)).toLowerCase();
+                if (answer === 'oui' || answer === 'o') {
+                    await this.ragService.deleteModel(model);
+                    console.log(`${success('✓')} Modèle supprimé: ${model}`);
+                } else {
+                    console.log('❌ Opération annulée.\n');
+                }
+                break;
+            }
+        }
+    }
+
+    private async handlePullModel(model: string) {
+        let progress = '';
+        const spinner = this.showLoadingSpinner(() => `Téléchargement de ${model}...${progress}`);
+
+        try {
+            const status = await this.ragService.pullModel(model, current => {
+                progress = this.formatPullProgress(current);
+            });
+            const duration = ((status.finishedAt!.getTime() - status.startedAt.getTime()) / 1000).toFixed(1);
+            this.stopSpinner(spinner, `Modèle ${model} téléchargé${status.total > 0 ? ` (${formatBytes(status.total)})` : ''} en ${duration}s`);
+        } catch (error) {
+            clearInterval(spinner);
+            process.stdout.write('\r\x1b[K');
+            throw error;
+        }
+    }
+
+    private async handleShowModel(model: string) {
+        const details = await this.ragService.showModel(model);
+        const rows: Array<[string, string | number | undefined]> = [
+            ['Famille', details.family],
+            ['Format', details.format],
+            ['Paramètres', details.parameterSize],
+            ['Quantification', details.quantization],
+            ['Contexte', details.contextLength !== undefined ? `${details.contextLength} tokens` : undefined],
+            ['Dimensions', details.embeddingLength],
+            ['Modifié le', details.modifiedAt?.toLocaleString()]
+        ];
+
+        console.log(`🧠 ${highlight(details.name)}`);
+        rows
+            .filter(([, value]) => value !== undefined && value !== '')
+            .forEach(([label, value]) => console.log(`  ${label}: ${value}`));
+
+        if (details.parameters) {
+            console.log('  Réglages par défaut:');
+            details.parameters.split('\n').filter(Boolean).forEach(line => console.log(`    ${dim(line.trim())}`));
+        }
+        if (details.license) {
+            console.log(`  Licence: ${dim(details.license.split('\n')[0].trim())}`);
+        }
+    }
+
+    private async handleCollections() {
+        const collections = await this.ragService.listCollections();
+
+        console.log('🗂️  Collections:');
+        collections.forEach(collection => {
+            const marker = collection.active ? success('●') : dim('○');
+            const migration = collection.reembed?.state === 'running' ? `, migration vers ${collection.reembed.to.model}` : '';
+            console.log(`  ${marker} ${collection.name} ${dim(`(${collection.totalChunks} chunks, ${collection.embedding.model}${migration})`)}`);
+        });
+    }
+
+    private async handleUse(name: string) {
+        if (!name) {
+            console.log('❌ Veuillez spécifier une collection');
+            return;
+        }
+
+        const exists = (await this.ragService.listCollections()).some(collection => collection.name === name);
+        if (!exists) {
+            await this.ragService.createCollection(name);
+            console.log(`${success('✓')} Collection créée: ${name}`);
+        }
+
+        this.ragService.useCollection(name);
+        console.log(`${success('✓')} Collection active: ${name}`);
+    }
+
+    private async handleDrop(name: string) {
+        if (!name) {
+            console.log('❌ Veuillez spécifier une collection');
+            return;
+        }
+
+        await this.ragService.deleteCollection(name);
+        console.log(`${success('✓')} Collection supprimée: ${name}`);
+    }
+
     private async handleClear() {
         this.rl.question('⚠️  Êtes-vous sûr de vouloir vider la base de connaissances? (oui/non): ', async (answer) => {
             if (answer.toLowerCase() === 'oui' || answer.toLowerCase() === 'o') {
@@ -1,6 +1,7 @@
-import express from 'express';
+import express, { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
 import { RAGService } from './services/rag.service';
-import { RAGConfig } from './types/rag';
+import { RAGConfig, RAGStreamEvent, SearchQuery } from './types/rag';
 
 const app = express();
 app.use(express.json());
@@ -10,13 +11,17 @@ const defaultConfig: RAGConfig = {
     ollama: {
         baseUrl: 'http://localhost:11434',
         model: process.env.MODEL || 'llama3.2:latest', // Modèle pour la génération de texte
-        embeddingModel: 'nomic-embed-text', // Modèle pour les embeddings
+        embeddingModel: process.env.EMBEDDING_MODEL || 'nomic-embed-text', // Modèle pour les embeddings
         temperature: 0.7,
         maxTokens: 2048
     },
+    models: {
+        autoPull: process.env.AUTO_PULL_MODELS === 'true' // Télécharge les modèles absents au démarrage
+    },
     vectorStore: {
-        dimensions: 768, // Dimensions pour nomic-embed-text
-        similarity: 'cosine'
+        similarity: 'cosine',
+        backend: process.env.VECTOR_STORE_BACKEND === 'sqlite' ? 'sqlite' : 'memory',
+        persistPath: process.env.VECTOR_STORE_PATH || './data/vector-store'
     },
     chunking: {
         maxChunkSize: 1000,
@@ -24,58 +29,315 @@ const defaultConfig: RAGConfig = {
     },
     retrieval: {
         topK: 5,
-        threshold: 0.7
+        threshold: 0.7,
+        mmr: {
+            enabled: true,
+            lambda: 0.7
+        },
+        maxChunksPerSource: 2
+    },
+    deduplication: {
+        policy: 'skip',
+        nearDuplicateThreshold: 0.95
+    },
+    freshness: {
+        ttlHours: 24 * 7,
+        refreshIntervalMinutes: 60 // Rafraîchissement automatique des documents web périmés
     }
 };
 
 // Initialisation du service RAG
 const ragService = new RAGService(defaultConfig);
+/** Vrai une fois initialize() terminé (modèles téléchargés, collections chargées) */
+let ready = false;
 
-// Middleware d'initialisation
+// Middleware d'initialisation: seul l'avancement des téléchargements de modèles est servi avant
 app.use(async (req, res, next) => {
+    if (!ready && !(req.method === 'GET' && req.path.startsWith('/models/pull/'))) {
+        return res.status(503).json({ error: 'Service RAG en cours d\'initialisation' });
+    }
+    next();
+});
+
+// Routes API
+
+/**
+ * Valide le corps d'une requête de recherche
+ */
+function parseSearchQuery(body: any, collection?: string): { searchQuery: SearchQuery } | { error: string } {
+    const {
+        query,
+        topK,
+        threshold,
+        includeWebSearch,
+        webSearchResults,
+        filter,
+        mode,
+        mmrLambda,
+        maxChunksPerSource,
+        profile,
+        language,
+        verify
+    } = body;
+
+    if (!query) {
+        return { error: 'Query est requis' };
+    }
+
+    if (filter !== undefined && (typeof filter !== 'object' || filter === null || Array.isArray(filter))) {
+        return { error: 'Filter doit être un objet' };
+    }
+
+    if (mode !== undefined && !['vector', 'lexical', 'hybrid'].includes(mode)) {
+        return { error: 'Mode doit être vector, lexical ou hybrid' };
+    }
+
+    if (mmrLambda !== undefined && (typeof mmrLambda !== 'number' || mmrLambda < 0 || mmrLambda > 1)) {
+        return { error: 'mmrLambda doit être un nombre entre 0 et 1' };
+    }
+
+    if (profile !== undefined && !ragService.listPromptProfiles().some(prompt => prompt.name === profile)) {
+        return { error: `Profil de prompt inconnu: ${profile}` };
+    }
+
+    if (language !== undefined && typeof language !== 'string') {
+        return { error: 'Language doit être une chaîne' };
+    }
+
+    if (verify !== undefined && typeof verify !== 'boolean') {
+        return { error: 'Verify doit être un booléen' };
+    }
+
+    return {
+        searchQuery: {
+            query,
+            topK,
+            threshold,
+            includeWebSearch,
+            webSearchResults,
+            filter,
+            mode,
+            mmrLambda,
+            maxChunksPerSource,
+            profile,
+            language,
+            verify,
+            collection
+        }
+    };
+}
+
+/**
+ * Nom de modèle capturé par un joker de route: il peut contenir des / (hf.co/org/modele:tag)
+ */
+function modelName(req: Request): string {
+    const name: string | string[] = req.params.name;
+    return Array.isArray(name) ? name.join('/') : name;
+}
+
+/**
+ * Diffuse les événements d'une recherche en Server-Sent Events: `sources`, `token`, `verifying`, `done`, `error`.
+ * La déconnexion du client arrête l'itération, ce qui interrompt la génération.
+ */
+async function streamEvents(res: Response, events: AsyncGenerator<RAGStreamEvent>): Promise<void> {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive'
+    });
+    const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    let closed = false;
+    res.on('close', () => {
+        closed = true;
+    });
+
     try {
-        if (!ragService) {
-            throw new Error('Service RAG non initialisé');
+        for await (const event of events) {
+            if (closed) break;
+
+            if (event.type === 'sources') {
+                send('sources', event.sources);
+            } else if (event.type === 'token') {
+                send('token', { token: event.token });
+            } else if (event.type === 'verifying') {
+                send('verifying', { claims: event.claims });
+            } else {
+                send('done', {
+                    answer: event.response.answer,
+                    query: event.response.query,
+                    conversationId: event.response.conversationId,
+                    standaloneQuery: event.response.standaloneQuery,
+                    sources: event.response.sources.length,
+                    citations: event.response.citations,
+                    conflicts: event.response.conflicts,
+                    claims: event.response.claims,
+                    timestamp: event.response.timestamp,
+                    durationMs: event.durationMs
+                });
+            }
         }
-        next();
+    } catch (error: any) {
+        if (!closed) send('error', { error: error.message });
+    }
+    res.end();
+}
+
+/**
+ * POST /search - Effectue une recherche RAG
+ * POST /collections/:name/search - Idem dans une collection donnée
+ */
+app.post(['/search', '/collections/:name/search'], async (req, res) => {
+    console.log("Requete recue", req.body.query!)
+    try {
+        const parsed = parseSearchQuery(req.body, req.params.name);
+        if ('error' in parsed) {
+            return res.status(400).json({ error: parsed.error });
+        }
+
+        const response = await ragService.search(parsed.searchQuery);
+        res.json(response);
     } catch (error: any) {
         res.status(500).json({ error: error.message });
     }
 });
 
-// Routes API
+/**
+ * POST /search/stream - Recherche RAG en Server-Sent Events
+ * POST /collections/:name/search/stream - Idem dans une collection donnée
+ * Événements: `sources` (chunks retenus), `token` (fragment de réponse), `verifying` (vérification
+ * des affirmations en cours, si demandée), `done` (résumé), `error`
+ */
+app.post(['/search/stream', '/collections/:name/search/stream'], async (req, res) => {
+    const parsed = parseSearchQuery(req.body, req.params.name);
+    if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+    }
+
+    await streamEvents(res, ragService.searchStream(parsed.searchQuery));
+});
 
 /**
- * POST /search - Effectue une recherche RAG
+ * POST /fact-check - Vérifie une affirmation à partir de la base et du web
+ * POST /collections/:name/fact-check - Idem avec les preuves locales d'une collection donnée
+ * Corps: `claim`, `includeWebSearch` (true par défaut), `webResults`, `maxEvidence`
  */
-app.post('/search', async (req, res) => {
-    console.log("Requete recue", req.body.query!)
+app.post(['/fact-check', '/collections/:name/fact-check'], async (req, res) => {
+    const { claim, includeWebSearch, webResults, maxEvidence } = req.body;
+
+    if (!claim || typeof claim !== 'string') {
+        return res.status(400).json({ error: 'Claim est requis' });
+    }
+
+    if (includeWebSearch !== undefined && typeof includeWebSearch !== 'boolean') {
+        return res.status(400).json({ error: 'includeWebSearch doit être un booléen' });
+    }
+
+    if (webResults !== undefined && (!Number.isInteger(webResults) || webResults < 1)) {
+        return res.status(400).json({ error: 'webResults doit être un entier positif' });
+    }
+
+    if (maxEvidence !== undefined && (!Number.isInteger(maxEvidence) || maxEvidence < 1)) {
+        return res.status(400).json({ error: 'maxEvidence doit être un entier positif' });
+    }
+
+    try {
+        const result = await ragService.factCheck(claim, {
+            collection: req.params.name,
+            includeWebSearch,
+            webResults,
+            maxEvidence
+        });
+        res.json(result);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /conversations - Ouvre une conversation et retourne son identifiant
+ */
+app.post('/conversations', async (req, res) => {
+    res.status(201).json({ id: randomUUID() });
+});
+
+/**
+ * GET /conversations - Liste les conversations, les plus récentes d'abord
+ */
+app.get('/conversations', async (req, res) => {
     try {
-        const { query, topK, threshold, includeWebSearch, webSearchResults } = req.body;
+        res.json({ conversations: ragService.listConversations() });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
 
-        if (!query) {
-            return res.status(400).json({ error: 'Query est requis' });
+/**
+ * GET /conversations/:id - Obtient une conversation et ses échanges
+ */
+app.get('/conversations/:id', async (req, res) => {
+    try {
+        const conversation = ragService.getConversation(req.params.id);
+
+        if (!conversation) {
+            return res.status(404).json({ error: `Conversation inconnue: ${req.params.id}` });
         }
 
-        const searchQuery = {
-            query,
-            topK,
-            threshold,
-            includeWebSearch,
-            webSearchResults
-        };
+        res.json(conversation);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /conversations/:id/messages - Pose une question dans une conversation (créée au besoin)
+ * Corps: `message`, options de POST /search, `collection`, `stream` (réponse en Server-Sent Events)
+ */
+app.post('/conversations/:id/messages', async (req, res) => {
+    const { message, collection, stream } = req.body;
+
+    if (!message) {
+        return res.status(400).json({ error: 'Message est requis' });
+    }
+
+    const parsed = parseSearchQuery({ ...req.body, query: message }, collection);
+    if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+    }
+    const { query: _query, ...options } = parsed.searchQuery;
+
+    if (stream) {
+        return streamEvents(res, ragService.converseStream(req.params.id, message, options));
+    }
 
-        const response = await ragService.search(searchQuery);
+    try {
+        const response = await ragService.converse(req.params.id, message, options);
         res.json(response);
     } catch (error: any) {
         res.status(500).json({ error: error.message });
     }
 });
 
+/**
+ * DELETE /conversations/:id - Supprime une conversation
+ */
+app.delete('/conversations/:id', async (req, res) => {
+    try {
+        if (!await ragService.deleteConversation(req.params.id)) {
+            return res.status(404).json({ error: `Conversation inconnue: ${req.params.id}` });
+        }
+
+        res.json({ message: `Conversation supprimée: ${req.params.id}` });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
 /**
  * POST /add-web-content - Ajoute du contenu depuis une recherche web
+ * POST /collections/:name/add-web-content - Idem dans une collection donnée
  */
-app.post('/add-web-content', async (req, res) => {
+app.post(['/add-web-content', '/collections/:name/add-web-content'], async (req, res) => {
     try {
         const { query, maxResults = 5 } = req.body;
 
@@ -83,8 +345,11 @@ app.post('/add-web-content', async (req, res) => {
             return res.status(400).json({ error: 'Query est requis' });
         }
 
-        await ragService.addFromWebSearch(query, maxResults);
-        res.json({ message: `Contenu ajouté depuis la recherche: "${query}"` });
+        const result = await ragService.addFromWebSearch(query, maxResults, false, false, req.params.name);
+        res.json({
+            message: `Contenu ajouté depuis la recherche: "${query}"`,
+            deduplication: result.deduplication
+        });
     } catch (error: any) {
         res.status(500).json({ error: error.message });
     }
@@ -92,10 +357,11 @@ app.post('/add-web-content', async (req, res) => {
 
 /**
  * POST /add-document - Ajoute un document manuel
+ * POST /collections/:name/add-document - Idem dans une collection donnée
  */
-app.post('/add-document', async (req, res) => {
+app.post(['/add-document', '/collections/:name/add-document'], async (req, res) => {
     try {
-        const { content, title, source = 'manual' } = req.body;
+        const { content, title, source = 'manual', tags, metadata = {} } = req.body;
 
         if (!content) {
             return res.status(400).json({ error: 'Content est requis' });
@@ -105,14 +371,83 @@ app.post('/add-document', async (req, res) => {
             id: `manual_${Date.now()}`,
             content,
             metadata: {
+                ...metadata,
                 title,
                 source: source as 'manual',
-                timestamp: new Date()
+                timestamp: new Date(),
+                tags: Array.isArray(tags) ? tags : undefined
             }
         };
 
-        await ragService.addDocuments([document]);
-        res.json({ message: 'Document ajouté avec succès' });
+        const deduplication = await ragService.addDocuments([document], req.params.name);
+        res.json({ message: 'Document ajouté avec succès', id: document.id, deduplication });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /documents - Liste les documents enregistrés
+ * GET /collections/:name/documents - Idem pour une collection donnée
+ */
+app.get(['/documents', '/collections/:name/documents'], async (req, res) => {
+    try {
+        res.json({ documents: ragService.listDocuments(req.params.name) });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /documents/:id - Obtient un document, ses métadonnées et ses chunks
+ */
+app.get(['/documents/:id', '/collections/:name/documents/:id'], async (req, res) => {
+    try {
+        const document = ragService.getDocument(req.params.id, req.params.name);
+
+        if (!document) {
+            return res.status(404).json({ error: `Document inconnu: ${req.params.id}` });
+        }
+
+        res.json(document);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * PATCH /documents/:id - Met à jour le contenu et/ou les métadonnées d'un document
+ */
+app.patch(['/documents/:id', '/collections/:name/documents/:id'], async (req, res) => {
+    try {
+        const { content, metadata } = req.body;
+
+        if (content === undefined && metadata === undefined) {
+            return res.status(400).json({ error: 'Content ou metadata est requis' });
+        }
+
+        if (!ragService.getDocument(req.params.id, req.params.name)) {
+            return res.status(404).json({ error: `Document inconnu: ${req.params.id}` });
+        }
+
+        const document = await ragService.updateDocument(req.params.id, { content, metadata }, req.params.name);
+        res.json(document);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * DELETE /documents/:id - Supprime un document et ses chunks
+ */
+app.delete(['/documents/:id', '/collections/:name/documents/:id'], async (req, res) => {
+    try {
+        if (!ragService.getDocument(req.params.id, req.params.name)) {
+            return res.status(404).json({ error: `Document inconnu: ${req.params.id}` });
+        }
+
+        await ragService.deleteDocument(req.params.id, req.params.name);
+        res.json({ message: `Document supprimé: ${req.params.id}` });
     } catch (error: any) {
         res.status(500).json({ error: error.message });
     }
@@ -120,23 +455,38 @@ app.post('/add-document', async (req, res) => {
 
 /**
  * GET /stats - Obtient les statistiques du RAG
+ * GET /collections/:name/stats - Idem pour une collection donnée
  */
-app.get('/stats', async (req, res) => {
+app.get(['/stats', '/collections/:name/stats'], async (req, res) => {
     try {
-        const stats = await ragService.getStats();
+        const stats = await ragService.getStats(req.params.name);
         res.json(stats);
     } catch (error: any) {
         res.status(500).json({ error: error.message });
     }
 });
 
+/**
+ * POST /refresh - Récupère à nouveau les documents web périmés (body: { force? } pour tous les rafraîchir)
+ * POST /collections/:name/refresh - Idem pour une collection donnée
+ */
+app.post(['/refresh', '/collections/:name/refresh'], async (req, res) => {
+    try {
+        const report = await ragService.refreshStale(req.params.name, { force: req.body?.force === true });
+        res.json(report);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
 /**
  * DELETE /source/:source - Supprime le contenu d'une source
+ * DELETE /collections/:name/source/:source - Idem dans une collection donnée
  */
-app.delete('/source/:source', async (req, res) => {
+app.delete(['/source/:source', '/collections/:name/source/:source'], async (req, res) => {
     try {
         const { source } = req.params;
-        await ragService.removeSource(decodeURIComponent(source));
+        await ragService.removeSource(decodeURIComponent(source), req.params.name);
         res.json({ message: `Source supprimée: ${source}` });
     } catch (error: any) {
         res.status(500).json({ error: error.message });
@@ -145,10 +495,11 @@ app.delete('/source/:source', async (req, res) => {
 
 /**
  * DELETE /clear - Vide complètement le RAG
+ * DELETE /collections/:name/clear - Vide une collection donnée
  */
-app.delete('/clear', async (req, res) => {
+app.delete(['/clear', '/collections/:name/clear'], async (req, res) => {
     try {
-        await ragService.clear();
+        await ragService.clear(req.params.name);
         res.json({ message: 'RAG vidé complètement' });
     } catch (error: any) {
         res.status(500).json({ error: error.message });
@@ -156,7 +507,142 @@ app.delete('/clear', async (req, res) => {
 });
 
 /**
- * GET /models - Liste les modèles Ollama disponibles
+ * GET /export - Exporte la base de connaissances (JSONL versionné)
+ * GET /collections/:name/export - Idem pour une collection donnée
+ */
+app.get(['/export', '/collections/:name/export'], async (req, res) => {
+    try {
+        const archive = await ragService.exportCollection(req.params.name);
+        const name = req.params.name || ragService.currentCollection;
+
+        res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${name}.jsonl"`);
+        res.send(archive);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /import - Importe une archive JSONL (corps brut application/x-ndjson)
+ * POST /collections/:name/import - Idem dans une collection donnée
+ * Paramètres: ?reembed=true recalcule les embeddings si le modèle diffère, ?replace=true vide la collection avant
+ */
+app.post(
+    ['/import', '/collections/:name/import'],
+    express.text({ type: ['application/x-ndjson', 'application/jsonl', 'text/plain'], limit: '500mb' }),
+    async (req, res) => {
+        try {
+            if (typeof req.body !== 'string' || req.body.trim().length === 0) {
+                return res.status(400).json({ error: 'Archive JSONL requise (Content-Type: application/x-ndjson)' });
+            }
+
+            const report = await ragService.importCollection(req.body, {
+                collection: req.params.name,
+                onEmbeddingMismatch: req.query.reembed === 'true' ? 'reembed' : 'refuse',
+                replace: req.query.replace === 'true'
+            });
+            res.json(report);
+        } catch (error: any) {
+            res.status(500).json({ error: error.message });
+        }
+    }
+);
+
+/**
+ * POST /reembed - Migre la base vers un autre modèle d'embedding (body: { model? }, par défaut le modèle configuré)
+ * POST /collections/:name/reembed - Idem pour une collection donnée
+ * La migration tourne en arrière-plan: suivre la progression via GET /reembed
+ */
+app.post(['/reembed', '/collections/:name/reembed'], async (req, res) => {
+    try {
+        const status = await ragService.reembed(req.body?.model, req.params.name);
+        res.status(202).json(status);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /reembed - Modèle d'embedding courant et état de la dernière migration
+ * GET /collections/:name/reembed - Idem pour une collection donnée
+ */
+app.get(['/reembed', '/collections/:name/reembed'], async (req, res) => {
+    try {
+        const stats = await ragService.getStats(req.params.name);
+        res.json({ collection: stats.collection, embedding: stats.embedding, reembed: stats.reembed ?? null });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /collections - Liste les collections
+ */
+app.get('/collections', async (req, res) => {
+    try {
+        const collections = await ragService.listCollections();
+        res.json({ active: ragService.currentCollection, collections });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /collections - Crée une collection (avec surcharges optionnelles de chunking / retrieval)
+ */
+app.post('/collections', async (req, res) => {
+    try {
+        const { name, overrides = {} } = req.body;
+
+        if (!name) {
+            return res.status(400).json({ error: 'Name est requis' });
+        }
+
+        const collection = await ragService.createCollection(name, overrides);
+        res.status(201).json(collection);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * POST /collections/:name/use - Définit la collection active
+ */
+app.post('/collections/:name/use', async (req, res) => {
+    try {
+        ragService.useCollection(req.params.name);
+        res.json({ message: `Collection active: ${req.params.name}` });
+    } catch (error: any) {
+        res.status(404).json({ error: error.message });
+    }
+});
+
+/**
+ * DELETE /collections/:name - Supprime une collection et son contenu
+ */
+app.delete('/collections/:name', async (req, res) => {
+    try {
+        await ragService.deleteCollection(req.params.name);
+        res.json({ message: `Collection supprimée: ${req.params.name}` });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /prompts - Liste les profils de prompt utilisables dans `profile`
+ */
+app.get('/prompts', async (req, res) => {
+    try {
+        res.json({ profiles: ragService.listPromptProfiles() });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /models - Liste les modèles du fournisseur de génération
  */
 app.get('/models', async (req, res) => {
     try {
@@ -167,6 +653,93 @@ app.get('/models', async (req, res) => {
     }
 });
 
+/**
+ * POST /models/pull - Télécharge un modèle (body: { name }) en arrière-plan
+ * Suivre la progression via GET /models/pull/*name
+ */
+app.post('/models/pull', async (req, res) => {
+    try {
+        const { name } = req.body ?? {};
+
+        if (!name || typeof name !== 'string') {
+            return res.status(400).json({ error: 'Name est requis' });
+        }
+        if (!ragService.canManageModels) {
+            return res.status(501).json({ error: 'Le fournisseur de modèles ne permet pas le téléchargement' });
+        }
+        if (ragService.getPullStatus(name)?.state === 'running') {
+            return res.status(409).json({ error: `Téléchargement de ${name} déjà en cours` });
+        }
+
+        const pull = ragService.pullModel(name);
+        // Le statut est créé dès l'appel; sans lui, le téléchargement n'a pas démarré
+        const status = ragService.getPullStatus(name);
+        if (!status) {
+            return res.status(500).json({ error: (await pull.catch(error => error)).message });
+        }
+
+        pull.catch(error => {
+            console.error(`❌ Téléchargement de ${name} échoué: ${error.message}`);
+        });
+        res.status(202).json(status);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /models/pull/*name - État du dernier téléchargement d'un modèle (octets reçus, étape)
+ */
+app.get('/models/pull/*name', async (req, res) => {
+    const name = modelName(req);
+    try {
+        const status = ragService.getPullStatus(name);
+        if (!status) {
+            return res.status(404).json({ error: `Aucun téléchargement de ${name}` });
+        }
+        res.json(status);
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * GET /models/*name - Détails d'un modèle installé (famille, taille, quantification, contexte)
+ */
+app.get('/models/*name', async (req, res) => {
+    const name = modelName(req);
+    try {
+        if (!ragService.canManageModels) {
+            return res.status(501).json({ error: 'Le fournisseur de modèles ne permet pas de consulter les modèles' });
+        }
+        if (!await ragService.hasModel(name)) {
+            return res.status(404).json({ error: `Modèle non installé: ${name}` });
+        }
+        res.json(await ragService.showModel(name));
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
+/**
+ * DELETE /models/*name - Supprime un modèle installé (refusé s'il est utilisé par le service)
+ */
+app.delete('/models/*name', async (req, res) => {
+    const name = modelName(req);
+    try {
+        if (!ragService.canManageModels) {
+            return res.status(501).json({ error: 'Le fournisseur de modèles ne permet pas la suppression' });
+        }
+        if (!await ragService.hasModel(name)) {
+            return res.status(404).json({ error: `Modèle non installé: ${name}` });
+        }
+        await ragService.deleteModel(name);
+        res.json({ message: `Modèle supprimé: ${name}` });
+    } catch (error: any) {
+        res.status(500).json({ error: error.message });
+    }
+});
+
 /**
  * GET /health - Vérification de santé
  */
@@ -202,17 +775,29 @@ app.get('/diagnose', async (req, res) => {
 const PORT = process.env.PORT || 3000;
 
 async function startServer() {
+    // Le serveur écoute pendant l'initialisation pour exposer l'avancement des téléchargements
+    app.listen(PORT, () => {
+        console.log(`🚀 Serveur RAG démarré sur le port ${PORT}`);
+        console.log(`📚 API disponible sur http://localhost:${PORT}`);
+        console.log(`🔍 Recherche: POST /search`);
+        console.log(`📄 Stats: GET /stats`);
+        console.log(`❤️  Santé: GET /health`);
+        console.log(`⬇️  Téléchargements de modèles: GET /models/pull/*name`);
+    });
+
     try {
         console.log('Initialisation du service RAG...');
-        await ragService.initialize();
-
-        app.listen(PORT, () => {
-            console.log(`🚀 Serveur RAG démarré sur le port ${PORT}`);
-            console.log(`📚 API disponible sur http://localhost:${PORT}`);
-            console.log(`🔍 Recherche: POST /search`);
-            console.log(`📄 Stats: GET /stats`);
-            console.log(`❤️  Santé: GET /health`);
+        let step = '';
+        await ragService.initialize(status => {
+            // Une ligne par étape (manifeste, couche, vérification), pas par paquet reçu
+            if (status.status !== step) {
+                step = status.status;
+                console.log(`⬇️  ${status.model}: ${step}`);
+            }
         });
+
+        ready = true;
+        console.log('✅ Service RAG prêt');
     } catch (error: any) {
         console.error('Erreur lors du démarrage:', error.message);
         process.exit(1);
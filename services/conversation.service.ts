@@ -0,0 +1,102 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Conversation, ConversationSummary, ConversationTurn } from '../types/conversation';
+import { readJsonFile, writeFileAtomic } from '../utils/files';
+
+interface ConversationFile {
+  version: number;
+  conversations: Conversation[];
+}
+
+const CONVERSATIONS_VERSION = 1;
+
+/**
+ * Conversations en cours, persistées dans un fichier JSON réécrit atomiquement
+ * (en mémoire uniquement si aucun chemin n'est fourni)
+ */
+export class ConversationStore {
+  private readonly filePath: string | null;
+  private conversations: Map<string, Conversation> = new Map();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string | null) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<void> {
+    const file = this.filePath ? await readJsonFile<ConversationFile>(this.filePath) : null;
+
+    this.conversations.clear();
+    for (const conversation of file?.conversations ?? []) {
+      this.conversations.set(conversation.id, this._revive(conversation));
+    }
+  }
+
+  get(id: string): Conversation | undefined {
+    return this.conversations.get(id);
+  }
+
+  list(): ConversationSummary[] {
+    return Array.from(this.conversations.values())
+      .map(conversation => ({
+        id: conversation.id,
+        turns: conversation.turns.length,
+        title: conversation.turns[0]?.question ?? '',
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt
+      }))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  /**
+   * Ajoute un échange, en créant la conversation si elle n'existe pas
+   */
+  async addTurn(id: string, turn: ConversationTurn): Promise<Conversation> {
+    let conversation = this.conversations.get(id);
+    if (!conversation) {
+      conversation = { id, turns: [], createdAt: turn.timestamp, updatedAt: turn.timestamp };
+      this.conversations.set(id, conversation);
+    }
+
+    conversation.turns.push(turn);
+    conversation.updatedAt = turn.timestamp;
+    await this._save();
+    return conversation;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const removed = this.conversations.delete(id);
+    if (removed) {
+      await this._save();
+    }
+    return removed;
+  }
+
+  /**
+   * Les écritures sont sérialisées: chaque sauvegarde réécrit l'état courant complet
+   */
+  private _save(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) return Promise.resolve();
+
+    const write = this.queue.then(async () => {
+      const file: ConversationFile = {
+        version: CONVERSATIONS_VERSION,
+        conversations: Array.from(this.conversations.values())
+      };
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await writeFileAtomic(filePath, JSON.stringify(file));
+    });
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  private _revive(conversation: Conversation): Conversation {
+    return {
+      ...conversation,
+      turns: conversation.turns.map(turn => ({ ...turn, timestamp: new Date(turn.timestamp) })),
+      createdAt: new Date(conversation.createdAt),
+      updatedAt: new Date(conversation.updatedAt)
+    };
+  }
+}
@@ -0,0 +1,210 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EmbeddingCacheStats, ProgressCallback } from '../types/rag';
+import { EmbeddingProvider } from '../types/provider';
+import { contentHash } from '../utils/dedup';
+import { toFloat32 } from '../utils/vectors';
+
+export interface EmbeddingCacheConfig {
+  /** Fichier SQLite du cache (':memory:' pour un cache limité au processus) */
+  path: string;
+  /** Nombre maximum d'embeddings conservés, les moins récemment utilisés sont évincés au-delà */
+  maxEntries: number;
+}
+
+/**
+ * Cache disque des embeddings, indexé par (modèle, empreinte du texte normalisé).
+ * Éviction LRU: chaque lecture ou écriture date l'entrée avec un compteur croissant.
+ */
+export class EmbeddingCache {
+  private readonly config: EmbeddingCacheConfig;
+  private db: Database.Database | null = null;
+  private clock: number = 0;
+  private entries: number = 0;
+  private hits: number = 0;
+  private misses: number = 0;
+  private evictions: number = 0;
+
+  constructor(config: EmbeddingCacheConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Embeddings en cache pour chaque texte, undefined pour les absents
+   */
+  get(model: string, texts: string[]): Array<number[] | undefined> {
+    const db = this._db();
+    const select = db.prepare(`SELECT vector FROM embeddings WHERE model = ? AND hash = ?`);
+    const touch = db.prepare(`UPDATE embeddings SET last_used = ? WHERE model = ? AND hash = ?`);
+
+    return db.transaction(() => texts.map(text => {
+      const hash = contentHash(text);
+      const row = select.get(model, hash) as { vector: Buffer } | undefined;
+      if (!row) {
+        this.misses++;
+        return undefined;
+      }
+
+      this.hits++;
+      touch.run(++this.clock, model, hash);
+      return Array.from(this._decodeVector(row.vector));
+    }))();
+  }
+
+  /**
+   * Enregistre des embeddings puis évince les entrées les plus anciennes si la limite est dépassée
+   */
+  set(model: string, texts: string[], embeddings: number[][]): void {
+    const db = this._db();
+    const upsert = db.prepare(
+      `INSERT OR REPLACE INTO embeddings (model, hash, vector, last_used) VALUES (?, ?, ?, ?)`
+    );
+
+    db.transaction(() => {
+      texts.forEach((text, index) => {
+        const vector = toFloat32(embeddings[index]);
+        upsert.run(model, contentHash(text), Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength), ++this.clock);
+      });
+
+      this.entries = this._count();
+      const excess = this.entries - this.config.maxEntries;
+      if (excess > 0) {
+        db.prepare(
+          `DELETE FROM embeddings WHERE rowid IN (SELECT rowid FROM embeddings ORDER BY last_used LIMIT ?)`
+        ).run(excess);
+        this.evictions += excess;
+        this.entries -= excess;
+      }
+    })();
+  }
+
+  /**
+   * Statistiques du cache; succès, échecs et évictions sont comptés depuis le démarrage
+   */
+  getStats(): EmbeddingCacheStats {
+    const db = this._db();
+    const { bytes } = db.prepare(`SELECT COALESCE(SUM(LENGTH(vector)), 0) AS bytes FROM embeddings`).get() as { bytes: number };
+    const lookups = this.hits + this.misses;
+
+    return {
+      entries: this.entries,
+      maxEntries: this.config.maxEntries,
+      sizeBytes: bytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      evictions: this.evictions
+    };
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private _db(): Database.Database {
+    if (this.db) return this.db;
+
+    if (this.config.path !== ':memory:') {
+      fs.mkdirSync(path.dirname(this.config.path), { recursive: true });
+    }
+
+    const db = new Database(this.config.path);
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS embeddings (
+        model TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        vector BLOB NOT NULL,
+        last_used INTEGER NOT NULL,
+        PRIMARY KEY (model, hash)
+      );
+      CREATE INDEX IF NOT EXISTS embeddings_last_used ON embeddings (last_used);
+    `);
+
+    this.db = db;
+    const { clock } = db.prepare(`SELECT COALESCE(MAX(last_used), 0) AS clock FROM embeddings`).get() as { clock: number };
+    this.clock = clock;
+    this.entries = this._count();
+    return db;
+  }
+
+  private _count(): number {
+    const { count } = this._db().prepare(`SELECT COUNT(*) AS count FROM embeddings`).get() as { count: number };
+    return count;
+  }
+
+  private _decodeVector(buffer: Buffer): Float32Array {
+    // Un Buffer peut provenir d'un pool non aligné sur 4 octets: on copie dans ce cas
+    if (buffer.byteOffset % 4 === 0) {
+      return new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4);
+    }
+    return new Float32Array(Uint8Array.from(buffer).buffer);
+  }
+}
+
+/**
+ * Place le cache devant un fournisseur d'embeddings: seuls les textes absents du cache
+ * lui sont transmis
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  private readonly provider: EmbeddingProvider;
+  private readonly cache: EmbeddingCache;
+
+  constructor(provider: EmbeddingProvider, cache: EmbeddingCache) {
+    this.provider = provider;
+    this.cache = cache;
+  }
+
+  get name(): string {
+    return this.provider.name;
+  }
+
+  get embeddingModelName(): string {
+    return this.provider.embeddingModelName;
+  }
+
+  async generateEmbedding(text: string, model: string = this.embeddingModelName): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text], model);
+    return embedding;
+  }
+
+  async generateEmbeddings(
+    texts: string[],
+    model: string = this.embeddingModelName,
+    onProgress?: ProgressCallback
+  ): Promise<number[][]> {
+    const embeddings = this.cache.get(model, texts);
+    const missing = texts.map((_, index) => index).filter(index => embeddings[index] === undefined);
+    const cached = texts.length - missing.length;
+
+    if (missing.length > 0) {
+      const missingTexts = missing.map(index => texts[index]);
+      const computed = await this.provider.generateEmbeddings(
+        missingTexts,
+        model,
+        onProgress && ((done, _total) => onProgress(cached + done, texts.length))
+      );
+
+      this.cache.set(model, missingTexts, computed);
+      missing.forEach((index, position) => embeddings[index] = computed[position]);
+    } else if (texts.length > 0) {
+      onProgress?.(texts.length, texts.length);
+    }
+
+    return embeddings as number[][];
+  }
+
+  testEmbedding(model?: string): Promise<{ success: boolean; error?: string; dimensions?: number }> {
+    return this.provider.testEmbedding(model);
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.provider.isAvailable();
+  }
+
+  listModels(): Promise<string[]> {
+    return this.provider.listModels();
+  }
+}
@@ -0,0 +1,84 @@
+import { Chunk, EmbeddingInfo, ProgressCallback } from '../types/rag';
+import { VectorStoreBackend } from '../types/vectorStore';
+
+export type EmbedFunction = (texts: string[], model: string) => Promise<number[][]>;
+
+/**
+ * Recopie le contenu d'un store vers un nouveau store en recalculant les embeddings
+ * avec un autre modèle. La progression est portée par le store cible lui-même:
+ * une migration interrompue reprend en ignorant les chunks déjà recopiés.
+ */
+export class EmbeddingMigration {
+  private readonly source: VectorStoreBackend;
+  private readonly target: VectorStoreBackend;
+  private readonly to: EmbeddingInfo;
+  private readonly embed: EmbedFunction;
+  private readonly batchSize: number;
+
+  constructor(
+    source: VectorStoreBackend,
+    target: VectorStoreBackend,
+    to: EmbeddingInfo,
+    embed: EmbedFunction,
+    batchSize: number = 32
+  ) {
+    this.source = source;
+    this.target = target;
+    this.to = to;
+    this.embed = embed;
+    this.batchSize = batchSize;
+  }
+
+  /**
+   * Synchronise le store cible sur le store source: recopie les chunks absents ou modifiés,
+   * supprime ceux qui ont disparu. Retourne le nombre de chunks recopiés.
+   */
+  async sync(onProgress?: ProgressCallback): Promise<number> {
+    const sourceChunks = await this.source.listChunks();
+    const migrated = new Map((await this.target.listChunks()).map(chunk => [chunk.id, chunk]));
+
+    const pending = sourceChunks.filter(chunk => migrated.get(chunk.id)?.content !== chunk.content);
+    const sourceIds = new Set(sourceChunks.map(chunk => chunk.id));
+    const removed = Array.from(migrated.keys()).filter(id => !sourceIds.has(id));
+
+    // Contenu inchangé mais métadonnées modifiées depuis la copie: l'embedding migré est conservé
+    const retagged = sourceChunks
+      .filter(chunk => {
+        const copy = migrated.get(chunk.id);
+        return copy?.content === chunk.content && !this._sameMetadata(chunk, copy);
+      })
+      .map(chunk => this._tag(chunk, migrated.get(chunk.id)!.embedding!));
+
+    if (removed.length > 0) {
+      await this.target.removeChunks(removed);
+    }
+    if (retagged.length > 0) {
+      await this.target.addChunks(retagged);
+    }
+
+    let processed = sourceChunks.length - pending.length;
+    onProgress?.(processed, sourceChunks.length);
+
+    for (let start = 0; start < pending.length; start += this.batchSize) {
+      const batch = pending.slice(start, start + this.batchSize);
+      const embeddings = await this.embed(batch.map(chunk => chunk.content), this.to.model);
+
+      await this.target.addChunks(batch.map((chunk, index) => this._tag(chunk, embeddings[index])));
+
+      processed += batch.length;
+      onProgress?.(processed, sourceChunks.length);
+    }
+
+    return pending.length;
+  }
+
+  private _tag(chunk: Chunk, embedding: number[]): Chunk {
+    return { ...chunk, embedding, metadata: { ...chunk.metadata, embeddingModel: this.to.model } };
+  }
+
+  private _sameMetadata(chunk: Chunk, migrated: Chunk): boolean {
+    const { embeddingModel: _source, ...sourceMetadata } = chunk.metadata;
+    const { embeddingModel: _target, ...targetMetadata } = migrated.metadata;
+    return JSON.stringify(sourceMetadata) === JSON.stringify(targetMetadata);
+  }
+}
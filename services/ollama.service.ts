@@ -1,8 +1,23 @@
 
-import { OllamaConfig } from '../types/rag';
-
-export class OllamaService {
+import { OllamaConfig, ProgressCallback } from '../types/rag';
+import {
+    ChatMessage,
+    EmbeddingProvider,
+    GenerationProvider,
+    ModelDetails,
+    ModelManager,
+    PullProgressCallback
+} from '../types/provider';
+import { mapWithConcurrency, withRetry } from '../utils/concurrency';
+import { sameModel } from '../utils/models';
+
+export class OllamaService implements GenerationProvider, EmbeddingProvider, ModelManager {
+    readonly name = 'ollama';
     private readonly config: Required<OllamaConfig> & { embeddingModel: string };
+    /** Vérifications de modèles réussies ou en cours, une seule requête /api/tags par modèle */
+    private readonly checkedModels: Map<string, Promise<void>> = new Map();
+    /** Ollama antérieur à /api/embed: repli sur /api/embeddings, un texte par appel */
+    private legacyEmbeddings: boolean = false;
 
     constructor(config: OllamaConfig) {
         this.config = {
@@ -10,87 +25,79 @@ export class OllamaService {
             model: config.model,
             embeddingModel: config.embeddingModel ?? 'nomic-embed-text',
             temperature: config.temperature ?? 0.7,
-            maxTokens: config.maxTokens ?? 2048
+            maxTokens: config.maxTokens ?? 2048,
+            embeddingBatchSize: config.embeddingBatchSize ?? 32,
+            embeddingConcurrency: config.embeddingConcurrency ?? 2,
+            retryAttempts: config.retryAttempts ?? 3,
+            retryDelay: config.retryDelay ?? 1000
         };
     }
 
     /**
-     * Génère des embeddings pour un texte
+     * Génère des embeddings pour un texte (modèle d'embedding configuré par défaut)
+     */
+    async generateEmbedding(text: string, model: string = this.config.embeddingModel): Promise<number[]> {
+        const [embedding] = await this.generateEmbeddings([text], model);
+        return embedding;
+    }
+
+    /**
+     * Génère des embeddings pour plusieurs textes: lots envoyés à /api/embed, au plus
+     * embeddingConcurrency lots simultanés, chaque lot retenté en cas d'échec
      */
-    async generateEmbedding(text: string): Promise<number[]> {
+    async generateEmbeddings(
+        texts: string[],
+        model: string = this.config.embeddingModel,
+        onProgress?: ProgressCallback
+    ): Promise<number[][]> {
+        if (texts.length === 0) return [];
+
         try {
             // Vérification du modèle d'abord
-            await this._ensureModelExists();
+            await this._ensureModelExists(model);
 
-            const response = await fetch(`${this.config.baseUrl}/api/embeddings`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    model: this.config.embeddingModel,
-                    prompt: text.trim()
-                })
-            });
-
-            if (!response.ok) {
-                const errorText = await response.text();
-                console.error('Ollama embedding error:', errorText);
-                throw new Error(`Ollama API error: ${response.status} ${response.statusText} - ${errorText}`);
+            const batchSize = Math.max(1, this.config.embeddingBatchSize);
+            const batches: string[][] = [];
+            for (let start = 0; start < texts.length; start += batchSize) {
+                batches.push(texts.slice(start, start + batchSize));
             }
 
-            const data: any = await response.json();
-
-            if (!data.embedding || !Array.isArray(data.embedding)) {
-                throw new Error('Format de réponse embedding invalide');
-            }
+            let done = 0;
+            const results = await mapWithConcurrency(batches, this.config.embeddingConcurrency, async batch => {
+                const embeddings = await this._withRetry(() => this._embedBatch(batch, model));
+                done += batch.length;
+                onProgress?.(done, texts.length);
+                return embeddings;
+            });
 
-            return data.embedding;
+            return results.flat();
         } catch (error: any) {
             throw new Error(`Erreur génération embedding: ${error.message}`);
         }
     }
 
     /**
-     * Génère des embeddings pour plusieurs textes
+     * Génère une réponse à une suite de messages (consignes, historique, question et contexte)
      */
-    async generateEmbeddings(texts: string[]): Promise<number[][]> {
-        const embeddings = await Promise.all(
-            texts.map(text => this.generateEmbedding(text))
-        );
-        return embeddings;
+    async generateResponse(messages: ChatMessage[]): Promise<string> {
+        try {
+            return await this._complete(messages);
+        } catch (error: any) {
+            throw new Error(`Erreur génération réponse: ${error.message}`);
+        }
     }
 
     /**
-     * Génère une réponse avec le contexte fourni
+     * Variante streaming de generateResponse: produit les tokens au fil de la génération.
+     * Interrompre l'itération annule la requête en cours.
      */
-    async generateResponse(prompt: string, context: string[]): Promise<string> {
+    async *generateResponseStream(messages: ChatMessage[]): AsyncGenerator<string> {
         try {
-            const systemPrompt = this._buildSystemPrompt();
-            const userPrompt = this._buildUserPrompt(prompt, context);
-
-            const response = await fetch(`${this.config.baseUrl}/api/generate`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    model: this.config.model,
-                    prompt: `${systemPrompt}\n\n${userPrompt}`,
-                    stream: false,
-                    options: {
-                        temperature: this.config.temperature,
-                        num_predict: this.config.maxTokens,
-                    }
-                })
-            });
-
-            if (!response.ok) {
-                throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+            const response = await this._chat(messages, true);
+            for await (const line of this._readLines(response)) {
+                const token = this._parseStreamLine(line);
+                if (token) yield token;
             }
-
-            const data: any = await response.json();
-            return data.response;
         } catch (error: any) {
             throw new Error(`Erreur génération réponse: ${error.message}`);
         }
@@ -126,34 +133,168 @@ export class OllamaService {
     }
 
     /**
-     * Vérifie qu'un modèle existe et le télécharge si nécessaire
+     * Vérifie une seule fois qu'un modèle existe. Un échec n'est pas mis en cache:
+     * le modèle peut être installé entre-temps.
+     */
+    private _ensureModelExists(model: string): Promise<void> {
+        let check = this.checkedModels.get(model);
+        if (!check) {
+            check = this._checkModel(model);
+            this.checkedModels.set(model, check);
+            check.catch(() => this.checkedModels.delete(model));
+        }
+        return check;
+    }
+
+    /**
+     * Vérifie qu'un modèle est installé; une erreur de listing n'empêche pas de l'utiliser
+     */
+    private async _checkModel(model: string): Promise<void> {
+        let installed: boolean;
+        try {
+            installed = await this.hasModel(model);
+        } catch (error: any) {
+            console.warn('Impossible de vérifier les modèles:', error.message);
+            return;
+        }
+
+        if (!installed) {
+            throw new Error(`Modèle '${model}' non installé. Installez-le avec: ollama pull ${model} (ou activez models.autoPull)`);
+        }
+    }
+
+    /**
+     * Un modèle est installé sous la même étiquette (un nom sans étiquette désigne :latest)
+     */
+    async hasModel(model: string): Promise<boolean> {
+        const models = await this.listModels();
+        return models.some(name => sameModel(name, model));
+    }
+
+    /**
+     * Télécharge un modèle via /api/pull; l'avancement cumule les couches annoncées au fil du flux
      */
-    private async _ensureModelExists(): Promise<void> {
+    async pullModel(model: string, onProgress?: PullProgressCallback): Promise<void> {
         try {
-            const models = await this.listModels();
-            const embeddingModelExists = models.some(model =>
-                model === this.config.embeddingModel || model.startsWith(this.config.embeddingModel + ':')
-            );
-
-            if (!embeddingModelExists) {
-                console.log(`Modèle d'embedding ${this.config.embeddingModel} non trouvé. Modèles disponibles:`, models);
-                throw new Error(`Modèle d'embedding '${this.config.embeddingModel}' non installé. Installez-le avec: ollama pull ${this.config.embeddingModel}`);
+            const response = await fetch(`${this.config.baseUrl}/api/pull`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ model, stream: true })
+            });
+
+            if (!response.ok) {
+                throw new Error(`Ollama API error: ${response.status} ${response.statusText} - ${await response.text()}`);
+            }
+
+            const layers = new Map<string, { completed: number; total: number }>();
+            let succeeded = false;
+
+            for await (const line of this._readLines(response)) {
+                if (!line.trim()) continue;
+
+                const data: any = JSON.parse(line);
+                if (data.error) {
+                    throw new Error(data.error);
+                }
+                if (data.digest && data.total) {
+                    layers.set(data.digest, { completed: data.completed ?? 0, total: data.total });
+                }
+                succeeded = data.status === 'success';
+
+                const sizes = Array.from(layers.values());
+                onProgress?.({
+                    status: data.status ?? '',
+                    completed: sizes.reduce((sum, layer) => sum + layer.completed, 0),
+                    total: sizes.reduce((sum, layer) => sum + layer.total, 0)
+                });
             }
+
+            if (!succeeded) {
+                throw new Error('Téléchargement interrompu');
+            }
+            this.checkedModels.delete(model);
         } catch (error: any) {
-            if (error.message.includes('non installé')) {
-                throw error;
+            throw new Error(`Erreur téléchargement ${model}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Supprime un modèle installé
+     */
+    async deleteModel(model: string): Promise<void> {
+        try {
+            const response = await fetch(`${this.config.baseUrl}/api/delete`, {
+                method: 'DELETE',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ model })
+            });
+
+            if (!response.ok) {
+                throw new Error(response.status === 404
+                    ? 'modèle introuvable'
+                    : `Ollama API error: ${response.status} ${response.statusText}`);
             }
-            console.warn('Impossible de vérifier les modèles:', error.message);
+            this.checkedModels.delete(model);
+        } catch (error: any) {
+            throw new Error(`Erreur suppression ${model}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Détails d'un modèle installé (/api/show): famille, taille, quantification, contexte
+     */
+    async showModel(model: string): Promise<ModelDetails> {
+        try {
+            const response = await fetch(`${this.config.baseUrl}/api/show`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ model })
+            });
+
+            if (!response.ok) {
+                throw new Error(response.status === 404
+                    ? 'modèle introuvable'
+                    : `Ollama API error: ${response.status} ${response.statusText}`);
+            }
+
+            const data: any = await response.json();
+            // Les clés de model_info sont préfixées par l'architecture (llama.context_length...)
+            const info: Record<string, unknown> = data.model_info ?? {};
+            const numericInfo = (suffix: string) => {
+                const key = Object.keys(info).find(name => name.endsWith(`.${suffix}`));
+                return key !== undefined && typeof info[key] === 'number' ? info[key] as number : undefined;
+            };
+
+            return {
+                name: model,
+                family: data.details?.family,
+                format: data.details?.format,
+                parameterSize: data.details?.parameter_size,
+                quantization: data.details?.quantization_level,
+                contextLength: numericInfo('context_length'),
+                embeddingLength: numericInfo('embedding_length'),
+                modifiedAt: data.modified_at ? new Date(data.modified_at) : undefined,
+                license: data.license,
+                parameters: data.parameters
+            };
+        } catch (error: any) {
+            throw new Error(`Erreur détails ${model}: ${error.message}`);
         }
     }
 
     /**
      * Teste la génération d'embedding avec un texte simple
      */
-    async testEmbedding(): Promise<{ success: boolean; error?: string; dimensions?: number }> {
+    async testEmbedding(model: string = this.config.embeddingModel): Promise<{ success: boolean; error?: string; dimensions?: number }> {
         try {
             const testText = "test";
-            const embedding = await this.generateEmbedding(testText);
+            const embedding = await this.generateEmbedding(testText, model);
             return {
                 success: true,
                 dimensions: embedding.length
@@ -166,41 +307,167 @@ export class OllamaService {
         }
     }
 
-    private _buildSystemPrompt(): string {
-        return `You are an AI assistant specialized in research and information analysis.
-    Your role is to answer questions using only the information provided in the context.
+    /**
+     * Embeddings d'un lot via /api/embed (ou /api/embeddings texte par texte sur un Ollama ancien)
+     */
+    private async _embedBatch(texts: string[], model: string): Promise<number[][]> {
+        if (this.legacyEmbeddings) {
+            return Promise.all(texts.map(text => this._embedLegacy(text, model)));
+        }
 
-    Instructions:
+        const response = await fetch(`${this.config.baseUrl}/api/embed`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                model,
+                input: texts.map(text => text.trim())
+            })
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            // Route inconnue (réponse non JSON), à distinguer d'un modèle introuvable
+            if (response.status === 404 && !errorText.trim().startsWith('{')) {
+                console.warn('⚠️ /api/embed indisponible, utilisation de /api/embeddings');
+                this.legacyEmbeddings = true;
+                return this._embedBatch(texts, model);
+            }
+            throw this._apiError(response, errorText);
+        }
 
-        Base your answers on the provided context
+        const data: any = await response.json();
 
-        If the information is not in the context, clearly state it
+        if (!Array.isArray(data.embeddings) || data.embeddings.length !== texts.length) {
+            throw new Error('Format de réponse embedding invalide');
+        }
 
-        Be precise and concise, but keep a humorous tone, add emojis
+        return data.embeddings;
+    }
 
-        No need for greetings or polite formulas — just give the answer, directly
+    private async _embedLegacy(text: string, model: string): Promise<number[]> {
+        const response = await fetch(`${this.config.baseUrl}/api/embeddings`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                model,
+                prompt: text.trim()
+            })
+        });
+
+        if (!response.ok) {
+            throw this._apiError(response, await response.text());
+        }
 
-        Structure your answer clearly in Markdown format
+        const data: any = await response.json();
+
+        if (!data.embedding || !Array.isArray(data.embedding)) {
+            throw new Error('Format de réponse embedding invalide');
+        }
 
-        `
-            
-        ;
+        return data.embedding;
     }
 
-    private _buildUserPrompt(query: string, context: string[]): string {
-        const contextText = context
-            .map((chunk, index) => `[Source ${index + 1}]\n${chunk}`)
-            .join('\n\n---\n\n');
+    private _apiError(response: Response, errorText: string): Error {
+        console.error('Ollama embedding error:', errorText);
+        const error: Error & { status?: number } = new Error(
+            `Ollama API error: ${response.status} ${response.statusText} - ${errorText}`
+        );
+        error.status = response.status;
+        return error;
+    }
 
-        return `Contexte:
-${contextText}
+    /**
+     * Relance une tâche en échec (erreur réseau, surcharge ou erreur serveur d'Ollama);
+     * les autres erreurs HTTP ne sont pas retentées
+     */
+    private _withRetry<T>(task: () => Promise<T>): Promise<T> {
+        return withRetry(
+            task,
+            this.config.retryAttempts,
+            this.config.retryDelay,
+            error => error.status === undefined || error.status === 429 || error.status >= 500
+        );
+    }
+
+    private async _complete(messages: ChatMessage[]): Promise<string> {
+        const response = await this._chat(messages, false);
+        const data: any = await response.json();
+        return data.message?.content ?? '';
+    }
 
-Question: ${query}
+    private async _chat(messages: ChatMessage[], stream: boolean): Promise<Response> {
+        const response = await fetch(`${this.config.baseUrl}/api/chat`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                model: this.config.model,
+                messages,
+                stream,
+                options: {
+                    temperature: this.config.temperature,
+                    num_predict: this.config.maxTokens,
+                }
+            })
+        });
+
+        if (!response.ok) {
+            throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+        }
 
-Réponse:`;
+        return response;
+    }
+
+    /**
+     * Lignes d'une réponse en flux (Ollama envoie un objet JSON par ligne). Interrompre
+     * l'itération annule la requête.
+     */
+    private async *_readLines(response: Response): AsyncGenerator<string> {
+        if (!response.body) {
+            throw new Error('Réponse de streaming vide');
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                buffer += decoder.decode(value, { stream: !done });
+
+                const lines = buffer.split('\n');
+                buffer = done ? '' : lines.pop() ?? '';
+
+                yield* lines;
+
+                if (done) break;
+            }
+        } finally {
+            await reader.cancel().catch(() => undefined);
+        }
+    }
+
+    private _parseStreamLine(line: string): string | undefined {
+        if (!line.trim()) return undefined;
+
+        const data: any = JSON.parse(line);
+        if (data.error) {
+            throw new Error(data.error);
+        }
+        return data.message?.content;
     }
 
     get modelName(): string {
         return this.config.model;
     }
+
+    get embeddingModelName(): string {
+        return this.config.embeddingModel;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,260 @@
+import { OpenAICompatibleConfig, ProgressCallback } from '../types/rag';
+import { ChatMessage, EmbeddingProvider, GenerationProvider } from '../types/provider';
+import { mapWithConcurrency, withRetry } from '../utils/concurrency';
+
+/**
+ * Client des serveurs compatibles OpenAI (llama.cpp, vLLM...): génération via
+ * /chat/completions, embeddings via /embeddings
+ */
+export class OpenAICompatibleService implements GenerationProvider, EmbeddingProvider {
+    readonly name = 'openai';
+    private readonly config: Required<Omit<OpenAICompatibleConfig, 'apiKey' | 'model' | 'embeddingModel'>>
+        & Pick<OpenAICompatibleConfig, 'apiKey' | 'model' | 'embeddingModel'>;
+
+    constructor(config: OpenAICompatibleConfig) {
+        this.config = {
+            baseUrl: (config.baseUrl ?? 'http://localhost:8000/v1').replace(/\/+$/, ''),
+            apiKey: config.apiKey,
+            model: config.model,
+            embeddingModel: config.embeddingModel,
+            temperature: config.temperature ?? 0.7,
+            maxTokens: config.maxTokens ?? 2048,
+            embeddingBatchSize: config.embeddingBatchSize ?? 32,
+            embeddingConcurrency: config.embeddingConcurrency ?? 2,
+            retryAttempts: config.retryAttempts ?? 3,
+            retryDelay: config.retryDelay ?? 1000
+        };
+    }
+
+    async generateEmbedding(text: string, model: string = this.embeddingModelName): Promise<number[]> {
+        const [embedding] = await this.generateEmbeddings([text], model);
+        return embedding;
+    }
+
+    /**
+     * Génère des embeddings par lots de embeddingBatchSize textes, au plus
+     * embeddingConcurrency lots simultanés, chaque lot retenté en cas d'échec
+     */
+    async generateEmbeddings(
+        texts: string[],
+        model: string = this.embeddingModelName,
+        onProgress?: ProgressCallback
+    ): Promise<number[][]> {
+        if (texts.length === 0) return [];
+
+        try {
+            const batchSize = Math.max(1, this.config.embeddingBatchSize);
+            const batches: string[][] = [];
+            for (let start = 0; start < texts.length; start += batchSize) {
+                batches.push(texts.slice(start, start + batchSize));
+            }
+
+            let done = 0;
+            const results = await mapWithConcurrency(batches, this.config.embeddingConcurrency, async batch => {
+                const embeddings = await this._withRetry(() => this._embedBatch(batch, model));
+                done += batch.length;
+                onProgress?.(done, texts.length);
+                return embeddings;
+            });
+
+            return results.flat();
+        } catch (error: any) {
+            throw new Error(`Erreur génération embedding: ${error.message}`);
+        }
+    }
+
+    async generateResponse(messages: ChatMessage[]): Promise<string> {
+        try {
+            return await this._complete(messages);
+        } catch (error: any) {
+            throw new Error(`Erreur génération réponse: ${error.message}`);
+        }
+    }
+
+    /**
+     * Variante streaming de generateResponse (Server-Sent Events, terminés par `data: [DONE]`)
+     */
+    async *generateResponseStream(messages: ChatMessage[]): AsyncGenerator<string> {
+        let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+
+        try {
+            const response = await this._chat(messages, true);
+            if (!response.body) {
+                throw new Error('Réponse de streaming vide');
+            }
+
+            reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+
+            while (true) {
+                const { done, value } = await reader.read();
+                buffer += decoder.decode(value, { stream: !done });
+
+                const lines = buffer.split('\n');
+                buffer = done ? '' : lines.pop() ?? '';
+
+                for (const line of lines) {
+                    const data = line.trim();
+                    if (!data.startsWith('data:')) continue;
+
+                    const payload = data.slice('data:'.length).trim();
+                    if (payload === '[DONE]') return;
+
+                    const token = this._parseStreamChunk(payload);
+                    if (token) yield token;
+                }
+
+                if (done) break;
+            }
+        } catch (error: any) {
+            throw new Error(`Erreur génération réponse: ${error.message}`);
+        } finally {
+            await reader?.cancel().catch(() => undefined);
+        }
+    }
+
+    async isAvailable(): Promise<boolean> {
+        try {
+            const response = await fetch(`${this.config.baseUrl}/models`, { headers: this._headers() });
+            return response.ok;
+        } catch {
+            return false;
+        }
+    }
+
+    async listModels(): Promise<string[]> {
+        try {
+            const response = await fetch(`${this.config.baseUrl}/models`, { headers: this._headers() });
+            if (!response.ok) {
+                throw new Error(`API error: ${response.status}`);
+            }
+
+            const data: any = await response.json();
+            return data.data?.map((model: any) => model.id) || [];
+        } catch (error: any) {
+            throw new Error(`Erreur liste modèles: ${error.message}`);
+        }
+    }
+
+    async testEmbedding(model: string = this.embeddingModelName): Promise<{ success: boolean; error?: string; dimensions?: number }> {
+        try {
+            const embedding = await this.generateEmbedding('test', model);
+            return {
+                success: true,
+                dimensions: embedding.length
+            };
+        } catch (error: any) {
+            return {
+                success: false,
+                error: error.message
+            };
+        }
+    }
+
+    private async _embedBatch(texts: string[], model: string): Promise<number[][]> {
+        if (!model) {
+            throw new Error('Aucun modèle d\'embedding configuré (embeddingModel)');
+        }
+
+        const response = await fetch(`${this.config.baseUrl}/embeddings`, {
+            method: 'POST',
+            headers: this._headers(),
+            body: JSON.stringify({
+                model,
+                input: texts.map(text => text.trim())
+            })
+        });
+
+        if (!response.ok) {
+            throw this._apiError(response, await response.text());
+        }
+
+        const data: any = await response.json();
+
+        if (!Array.isArray(data.data) || data.data.length !== texts.length) {
+            throw new Error('Format de réponse embedding invalide');
+        }
+
+        // L'ordre des résultats est donné par `index`, pas par leur position
+        return [...data.data]
+            .sort((a: any, b: any) => a.index - b.index)
+            .map((item: any) => item.embedding);
+    }
+
+    private async _complete(messages: ChatMessage[]): Promise<string> {
+        const response = await this._chat(messages, false);
+        const data: any = await response.json();
+
+        const content = data.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new Error('Format de réponse invalide');
+        }
+        return content;
+    }
+
+    private async _chat(messages: ChatMessage[], stream: boolean): Promise<Response> {
+        if (!this.config.model) {
+            throw new Error('Aucun modèle de génération configuré (model)');
+        }
+
+        const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: this._headers(),
+            body: JSON.stringify({
+                model: this.config.model,
+                messages,
+                stream,
+                temperature: this.config.temperature,
+                max_tokens: this.config.maxTokens
+            })
+        });
+
+        if (!response.ok) {
+            throw this._apiError(response, await response.text());
+        }
+
+        return response;
+    }
+
+    private _parseStreamChunk(payload: string): string | undefined {
+        const data: any = JSON.parse(payload);
+        if (data.error) {
+            throw new Error(data.error.message ?? data.error);
+        }
+        return data.choices?.[0]?.delta?.content ?? undefined;
+    }
+
+    private _headers(): Record<string, string> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.config.apiKey) {
+            headers.Authorization = `Bearer ${this.config.apiKey}`;
+        }
+        return headers;
+    }
+
+    private _apiError(response: Response, errorText: string): Error {
+        const error: Error & { status?: number } = new Error(
+            `API error: ${response.status} ${response.statusText} - ${errorText}`
+        );
+        error.status = response.status;
+        return error;
+    }
+
+    private _withRetry<T>(task: () => Promise<T>): Promise<T> {
+        return withRetry(
+            task,
+            this.config.retryAttempts,
+            this.config.retryDelay,
+            error => error.status === undefined || error.status === 429 || error.status >= 500
+        );
+    }
+
+    get modelName(): string {
+        return this.config.model ?? '';
+    }
+
+    get embeddingModelName(): string {
+        return this.config.embeddingModel ?? '';
+    }
+}
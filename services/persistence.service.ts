@@ -0,0 +1,170 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Chunk } from '../types/rag';
+import { readJsonFile, writeFileAtomic } from '../utils/files';
+
+type LogEntry =
+  | { op: 'add'; chunks: Chunk[] }
+  | { op: 'remove'; ids: string[] };
+
+interface Snapshot {
+  version: number;
+  generation: number;
+  chunks: Chunk[];
+}
+
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Persistance du vector store: un snapshot complet + un journal append-only.
+ *
+ * Chaque entrée du journal porte la génération du snapshot auquel elle s'applique,
+ * ce qui rend la compaction sûre même en cas de crash entre l'écriture du snapshot
+ * et la troncature du journal.
+ */
+export class VectorPersistence {
+  private readonly snapshotPath: string;
+  private readonly logPath: string;
+  private readonly compactionThreshold: number;
+  private generation = 0;
+  private pendingEntries = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(directory: string, compactionThreshold: number = 500) {
+    this.snapshotPath = path.join(directory, 'snapshot.json');
+    this.logPath = path.join(directory, 'journal.jsonl');
+    this.compactionThreshold = compactionThreshold;
+  }
+
+  /**
+   * Charge le snapshot puis rejoue le journal
+   */
+  async load(): Promise<Chunk[]> {
+    await fs.mkdir(path.dirname(this.snapshotPath), { recursive: true });
+
+    const chunks = new Map<string, Chunk>();
+    const snapshot = await this._readSnapshot();
+
+    if (snapshot) {
+      this.generation = snapshot.generation;
+      snapshot.chunks.forEach(chunk => chunks.set(chunk.id, this._reviveChunk(chunk)));
+    }
+
+    const entries = await this._readLog();
+    this.pendingEntries = entries.length;
+
+    for (const entry of entries) {
+      switch (entry.op) {
+        case 'add':
+          entry.chunks.forEach(chunk => chunks.set(chunk.id, this._reviveChunk(chunk)));
+          break;
+        case 'remove':
+          entry.ids.forEach(id => chunks.delete(id));
+          break;
+      }
+    }
+
+    return Array.from(chunks.values());
+  }
+
+  /**
+   * Ajoute une opération au journal (écrite et synchronisée sur disque avant de rendre la main)
+   */
+  append(entry: LogEntry): Promise<void> {
+    return this._enqueue(async () => {
+      const line = JSON.stringify({ gen: this.generation, ...entry }) + '\n';
+      const handle = await fs.open(this.logPath, 'a');
+      try {
+        await handle.appendFile(line, 'utf-8');
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      this.pendingEntries++;
+    });
+  }
+
+  /**
+   * Indique si le journal est assez long pour justifier une compaction
+   */
+  shouldCompact(): boolean {
+    return this.pendingEntries >= this.compactionThreshold;
+  }
+
+  /**
+   * Écrit un nouveau snapshot de façon atomique puis vide le journal
+   */
+  compact(chunks: Chunk[]): Promise<void> {
+    return this._enqueue(async () => {
+      const snapshot: Snapshot = {
+        version: SNAPSHOT_VERSION,
+        generation: this.generation + 1,
+        chunks
+      };
+
+      await writeFileAtomic(this.snapshotPath, JSON.stringify(snapshot));
+      this.generation = snapshot.generation;
+
+      // Les entrées restantes portent l'ancienne génération et seront ignorées si la troncature échoue
+      await fs.writeFile(this.logPath, '', 'utf-8');
+      this.pendingEntries = 0;
+    });
+  }
+
+  private async _readSnapshot(): Promise<Snapshot | null> {
+    const snapshot = await readJsonFile<Snapshot>(this.snapshotPath);
+    if (snapshot && snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Version de snapshot non supportée: ${snapshot.version}`);
+    }
+    return snapshot;
+  }
+
+  private async _readLog(): Promise<LogEntry[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.logPath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: LogEntry[] = [];
+    const validLines: string[] = [];
+    const lines = raw.split('\n').filter(line => line.trim().length > 0);
+
+    for (let i = 0; i < lines.length; i++) {
+      let parsed: LogEntry & { gen: number };
+      try {
+        parsed = JSON.parse(lines[i]);
+      } catch {
+        // Ligne tronquée par un crash en cours d'écriture: on repart du dernier état valide
+        console.warn(`⚠️ Journal du vector store tronqué à la ligne ${i + 1}, entrées suivantes ignorées`);
+        await writeFileAtomic(this.logPath, validLines.map(line => line + '\n').join(''));
+        break;
+      }
+
+      validLines.push(lines[i]);
+      if (parsed.gen !== this.generation) continue;
+      entries.push(parsed);
+    }
+
+    return entries;
+  }
+
+  private _reviveChunk(chunk: Chunk): Chunk {
+    return {
+      ...chunk,
+      metadata: {
+        ...chunk.metadata,
+        timestamp: new Date(chunk.metadata.timestamp)
+      }
+    };
+  }
+
+  private _enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    // Une écriture en échec ne doit pas bloquer les suivantes
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
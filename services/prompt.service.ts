@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { RAGConfig, SourceConflict } from '../types/rag';
+import { ChatMessage } from '../types/provider';
+import { PromptProfile } from '../types/prompt';
+import {
+  BUILTIN_PROMPT_PROFILES,
+  SOURCE_INSTRUCTIONS,
+  formatConflicts,
+  formatContext,
+  renderTemplate,
+  responseLanguage
+} from '../utils/prompts';
+
+export interface PromptOptions {
+  /** Profil à utiliser (profil par défaut si absent) */
+  profile?: string;
+  /** Langue imposée (code 'fr' / 'en' ou nom), détectée depuis la question sinon */
+  language?: string;
+  /** Échanges précédents, placés entre les consignes et la question */
+  history?: ChatMessage[];
+  /** Désaccords entre les extraits du contexte, signalés au modèle à la suite des consignes */
+  conflicts?: SourceConflict[];
+}
+
+/**
+ * Profils de prompt disponibles: profils intégrés, puis ceux de la configuration,
+ * puis ceux du dossier de profils (un profil du même nom remplace le précédent)
+ */
+export class PromptLibrary {
+  private readonly config: NonNullable<RAGConfig['prompts']>;
+  private readonly profiles: Map<string, PromptProfile> = new Map();
+
+  constructor(config: RAGConfig['prompts'] = {}) {
+    this.config = config;
+    this._register(BUILTIN_PROMPT_PROFILES);
+  }
+
+  async load(): Promise<void> {
+    this._register(Object.entries(this.config.profiles ?? {}).map(([name, profile]) => ({ name, ...profile })));
+
+    if (this.config.directory) {
+      this._register(await this._loadDirectory(this.config.directory));
+    }
+
+    // Un profil par défaut inexistant ferait échouer toutes les requêtes: on échoue au démarrage
+    this.get(this.config.defaultProfile);
+  }
+
+  get defaultProfile(): string {
+    return this.config.defaultProfile ?? 'default';
+  }
+
+  get(name: string = this.defaultProfile): PromptProfile {
+    const profile = this.profiles.get(name);
+    if (!profile) {
+      throw new Error(`Profil de prompt inconnu: ${name} (disponibles: ${Array.from(this.profiles.keys()).join(', ')})`);
+    }
+    return profile;
+  }
+
+  list(): PromptProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  /**
+   * Messages envoyés au modèle: consignes du profil suivies des consignes de citation (et des
+   * désaccords entre sources), historique éventuel, puis question et contexte
+   */
+  buildMessages(question: string, context: string[], options: PromptOptions = {}): ChatMessage[] {
+    const profile = this.get(options.profile);
+    const values = {
+      context: formatContext(context),
+      question,
+      language: responseLanguage(question, options.language)
+    };
+
+    const conflicts = options.conflicts ?? [];
+    const system = [
+      renderTemplate(profile.system, values),
+      SOURCE_INSTRUCTIONS,
+      ...(conflicts.length > 0 ? [formatConflicts(conflicts)] : [])
+    ].join('\n\n');
+
+    return [
+      { role: 'system', content: system },
+      ...(options.history ?? []),
+      { role: 'user', content: renderTemplate(profile.user, values) }
+    ];
+  }
+
+  private _register(profiles: PromptProfile[]): void {
+    for (const profile of profiles) {
+      if (typeof profile.system !== 'string' || typeof profile.user !== 'string') {
+        throw new Error(`Profil de prompt invalide: ${profile.name} (system et user sont requis)`);
+      }
+      if (!profile.user.includes('{{question}}') && !profile.system.includes('{{question}}')) {
+        console.warn(`⚠️ Le profil de prompt ${profile.name} n'utilise pas {{question}}`);
+      }
+      this.profiles.set(profile.name, profile);
+    }
+  }
+
+  private async _loadDirectory(directory: string): Promise<PromptProfile[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(directory);
+    } catch (error: any) {
+      throw new Error(`Dossier de profils de prompt illisible (${directory}): ${error.message}`);
+    }
+
+    const profiles: PromptProfile[] = [];
+    for (const file of files.filter(file => file.endsWith('.json')).sort()) {
+      const filePath = path.join(directory, file);
+      try {
+        const profile = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+        profiles.push({ ...profile, name: path.basename(file, '.json') });
+      } catch (error: any) {
+        throw new Error(`Profil de prompt illisible (${filePath}): ${error.message}`);
+      }
+    }
+    return profiles;
+  }
+}
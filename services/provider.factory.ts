@@ -0,0 +1,38 @@
+import { ProviderConfig, RAGConfig } from '../types/rag';
+import { EmbeddingProvider, GenerationProvider, ModelManager, ModelProvider } from '../types/provider';
+import { OllamaService } from './ollama.service';
+import { OpenAICompatibleService } from './openai.service';
+
+/**
+ * Instancie le fournisseur de modèles choisi dans la configuration
+ */
+export function createProvider(config: ProviderConfig): GenerationProvider & EmbeddingProvider {
+  switch (config.type) {
+    case 'ollama':
+      return new OllamaService(config);
+    case 'openai':
+      return new OpenAICompatibleService(config);
+    default:
+      throw new Error(`Fournisseur non supporté: ${(config as { type: string }).type}`);
+  }
+}
+
+/**
+ * Gestion des modèles du fournisseur (téléchargement, suppression, détails), s'il la permet
+ */
+export function getModelManager(provider: ModelProvider): ModelManager | null {
+  return provider instanceof OllamaService ? provider : null;
+}
+
+/**
+ * Configuration du fournisseur d'un rôle: `providers.<rôle>`, sinon la section `ollama`
+ */
+export function resolveProviderConfig(config: RAGConfig, role: 'generation' | 'embedding'): ProviderConfig {
+  const provider = config.providers?.[role];
+  if (provider) return provider;
+
+  if (!config.ollama) {
+    throw new Error(`Aucun fournisseur configuré pour ${role === 'generation' ? 'la génération' : 'les embeddings'}`);
+  }
+  return { type: 'ollama', ...config.ollama };
+}
@@ -1,40 +1,313 @@
-import { OllamaService } from './ollama.service';
-import { VectorStore } from './vector.service';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createProvider, getModelManager, resolveProviderConfig } from './provider.factory';
+import { createVectorStore } from './vector.factory';
 import { WebSearch } from './websearch.service';
+import { DocumentRegistry } from './registry.service';
+import { EmbeddingMigration } from './migration.service';
+import { CachedEmbeddingProvider, EmbeddingCache } from './embeddingCache.service';
+import { ConversationStore } from './conversation.service';
+import { PromptLibrary } from './prompt.service';
+import { AnswerVerifier } from './verification.service';
 import { TextChunker } from '../utils/chunking';
-import { extractTopics, TopicExtractionOptions } from '../utils/stopwords';
+import { extractTopics, generateSearchVariants, TopicExtractionOptions } from '../utils/stopwords';
+import { reciprocalRankFusion, weightedScoreFusion } from '../utils/fusion';
+import { rerankForDiversity } from '../utils/reranking';
+import { readJsonFile, writeFileAtomic } from '../utils/files';
+import { contentHash, cosineSimilarity, mergeDuplicate } from '../utils/dedup';
+import { buildArchive, parseArchive } from '../utils/archive';
+import { documentMetadata } from '../utils/documents';
+import { isStale } from '../utils/freshness';
+import { buildCondenseMessages } from '../utils/prompts';
+import { cleanCitationMarkers, createCitationFilter, extractCitations } from '../utils/citations';
+import { AnswerClaim } from '../utils/claims';
+import { aggregateEvidence } from '../utils/factCheck';
+import { detectConflicts } from '../utils/conflicts';
+import { scoreCredibility } from '../utils/credibility';
+import { sameModel, withModelTag } from '../utils/models';
 import {
   Document,
   Chunk,
   SearchQuery,
   RAGResponse,
-  RAGConfig
+  RAGConfig,
+  RetrievalMode,
+  CollectionOverrides,
+  CollectionInfo,
+  DeduplicationPolicy,
+  DeduplicationReport,
+  DocumentRecord,
+  DocumentUpdate,
+  EmbeddingInfo,
+  ReembedStatus,
+  ModelPullStatus,
+  RefreshReport,
+  RAGStreamEvent,
+  ClaimVerification,
+  SourceConflict,
+  ProgressCallback,
+  FreshnessStats,
+  EmbeddingCacheStats,
+  VectorStoreConfig
 } from '../types/rag';
+import { ScoredChunk, VectorStoreBackend, VectorStoreStats } from '../types/vectorStore';
+import { ChatMessage, EmbeddingProvider, GenerationProvider, ModelDetails, ModelManager } from '../types/provider';
+import { Conversation, ConversationSummary } from '../types/conversation';
+import { PromptProfile } from '../types/prompt';
+import { EvidenceStance, FactCheckEvidence, FactCheckOptions, FactCheckResult } from '../types/factCheck';
+import { ImportOptions, ImportReport } from '../types/archive';
 import { ExtractedContent } from '../types/webSearch';
 
+const DEFAULT_COLLECTION = 'default';
+/** Taille minimale d'un contenu web pour être indexé */
+const MIN_WEB_CONTENT_LENGTH = 100;
+const NO_RESULTS_ANSWER = "Je n'ai pas trouvé d'informations pertinentes pour répondre à votre question.";
+const DEFAULT_HISTORY_TURNS = 5;
+const DEFAULT_CREDIBILITY_WEIGHT = 0;
+/** Requêtes de recherche de preuves dérivées d'une affirmation (l'affirmation comprise) */
+const FACT_CHECK_QUERIES = 4;
+/** Extraits retenus au plus par source, pour diversifier les preuves */
+const FACT_CHECK_EVIDENCE_PER_SOURCE = 2;
+const STANCES: Record<ClaimVerification['verdict'], EvidenceStance> = {
+  supported: 'supporting',
+  contradicted: 'refuting',
+  unsupported: 'neutral'
+};
+
+/** Configuration effective d'une collection, dimensions résolues */
+type CollectionConfig = Omit<RAGConfig, 'vectorStore'> & { vectorStore: VectorStoreConfig };
+
+/**
+ * Base de connaissances nommée: son propre store et sa configuration effective
+ */
+interface Collection {
+  name: string;
+  overrides: CollectionOverrides;
+  createdAt: Date;
+  config: CollectionConfig;
+  /** Modèle avec lequel le store courant a été construit (requêtes et ingestion l'utilisent) */
+  embedding: EmbeddingInfo;
+  /** Génération du store, incrémentée à chaque migration de modèle */
+  generation: number;
+  vectorStore: VectorStoreBackend;
+  registry: DocumentRegistry;
+  chunker: TextChunker;
+  writeLock: Promise<void>;
+  reembed?: ReembedStatus;
+}
+
+/**
+ * Résultat de la détection des doublons pour un lot de chunks
+ */
+interface DeduplicationPlan {
+  writes: Chunk[];
+  removals: string[];
+  chunksAdded: number;
+  exactDuplicates: number;
+  nearDuplicates: number;
+}
+
+interface CollectionManifest {
+  version: number;
+  collections: Array<{
+    name: string;
+    overrides: CollectionOverrides;
+    createdAt: string;
+    embedding?: EmbeddingInfo;
+    generation?: number;
+    /** Cible d'une migration non terminée */
+    reembed?: EmbeddingInfo;
+  }>;
+}
+
 export class RAGService {
-  private readonly ollama: OllamaService;
-  private readonly vectorStore: VectorStore;
+  private readonly generator: GenerationProvider;
+  private readonly embedder: EmbeddingProvider;
+  /** Gestion des modèles de chaque fournisseur, null s'il ne la permet pas */
+  private readonly modelManagers: { generation: ModelManager | null; embedding: ModelManager | null };
+  private readonly embeddingCache: EmbeddingCache | null;
+  private readonly conversations: ConversationStore;
+  private readonly prompts: PromptLibrary;
+  private readonly verifier: AnswerVerifier;
   private readonly webSearch: WebSearch;
-  private readonly chunker: TextChunker;
   private readonly config: RAGConfig;
+  private readonly collections: Map<string, Collection> = new Map();
+  private activeCollection: string = DEFAULT_COLLECTION;
+  /** Modèle d'embedding configuré et ses dimensions, détectés par initialize() */
+  private embedding: EmbeddingInfo | null = null;
+  private manifestQueue: Promise<void> = Promise.resolve();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private refreshing: boolean = false;
+  /** Téléchargements de modèles lancés par le service, par nom de modèle étiqueté */
+  private readonly pulls: Map<string, ModelPullStatus> = new Map();
 
   constructor(config: RAGConfig) {
     this.config = config;
-    this.ollama = new OllamaService(config.ollama);
-    this.vectorStore = new VectorStore(config.vectorStore);
+    this.generator = createProvider(resolveProviderConfig(config, 'generation'));
+    this.embeddingCache = this._createEmbeddingCache();
+
+    const embedder = createProvider(resolveProviderConfig(config, 'embedding'));
+    this.embedder = this.embeddingCache ? new CachedEmbeddingProvider(embedder, this.embeddingCache) : embedder;
+    this.modelManagers = { generation: getModelManager(this.generator), embedding: getModelManager(embedder) };
+
+    const persistPath = config.vectorStore.persistPath;
+    this.conversations = new ConversationStore(persistPath ? path.join(persistPath, 'conversations.json') : null);
+    this.prompts = new PromptLibrary(config.prompts);
+    this.verifier = new AnswerVerifier(this.generator, this.embedder, config.verification);
     this.webSearch = new WebSearch();
-    this.chunker = new TextChunker(config.chunking);
   }
 
 
-  async initialize(): Promise<void> {
-    const isOllamaAvailable = await this.ollama.isAvailable();
-    if (!isOllamaAvailable) {
-      throw new Error('Ollama n\'est pas disponible. Vérifiez que le service est démarré.');
+  async initialize(onPullProgress?: (status: ModelPullStatus) => void): Promise<void> {
+    for (const provider of new Set<GenerationProvider | EmbeddingProvider>([this.generator, this.embedder])) {
+      if (!await provider.isAvailable()) {
+        throw new Error(`Le fournisseur ${provider.name} n'est pas disponible. Vérifiez que le service est démarré.`);
+      }
+    }
+
+    if (this.config.models?.autoPull) {
+      await this._pullMissingModels(onPullProgress);
+    }
+
+    await this.prompts.load();
+    this.embedding = await this._detectEmbedding();
+    await this._loadCollections(this.embedding);
+    await this.conversations.load();
+
+    console.log(`RAG initialisé avec le modèle: ${this.generator.modelName} (embeddings: ${this.embedding.model}, ${this.embedding.dimensions} dimensions)`);
+
+    const interval = this.config.freshness?.refreshIntervalMinutes;
+    if (interval && interval > 0 && !this.refreshTimer) {
+      this.refreshTimer = setInterval(() => this._refreshAll(), interval * 60 * 1000);
+      this.refreshTimer.unref();
+    }
+  }
+
+  get currentCollection(): string {
+    return this.activeCollection;
+  }
+
+  /**
+   * Crée une collection, avec éventuellement ses propres réglages de chunking et de recherche
+   */
+  async createCollection(name: string, overrides: CollectionOverrides = {}): Promise<CollectionInfo> {
+    if (!/^[\w-]{1,64}$/.test(name)) {
+      throw new Error('Nom de collection invalide (lettres, chiffres, - et _ uniquement)');
+    }
+    if (this.collections.has(name)) {
+      throw new Error(`La collection ${name} existe déjà`);
+    }
+
+    if (!this.embedding) {
+      throw new Error('Service RAG non initialisé: appelez initialize()');
+    }
+
+    const collection = this._buildCollection(name, overrides, new Date(), this.embedding);
+    await collection.vectorStore.load();
+    await collection.registry.load(await collection.vectorStore.listChunks());
+    this.collections.set(name, collection);
+    await this._saveManifest();
+
+    return this._describeCollection(collection);
+  }
+
+  async listCollections(): Promise<CollectionInfo[]> {
+    return Promise.all(
+      Array.from(this.collections.values()).map(collection => this._describeCollection(collection))
+    );
+  }
+
+  /**
+   * Change la collection utilisée par défaut
+   */
+  useCollection(name: string): void {
+    this._collection(name);
+    this.activeCollection = name;
+  }
+
+  /**
+   * Supprime une collection et son stockage (la collection par défaut ne peut pas être supprimée)
+   */
+  async deleteCollection(name: string): Promise<void> {
+    if (name === DEFAULT_COLLECTION) {
+      throw new Error('La collection par défaut ne peut pas être supprimée');
+    }
+
+    const collection = this._collection(name);
+    await this._withWriteLock(collection, async () => {
+      // Une suppression concurrente a pu passer pendant l'attente du verrou
+      if (this.collections.get(name) !== collection) {
+        throw new Error(`Collection inconnue: ${name}`);
+      }
+      if (collection.reembed?.state === 'running') {
+        throw new Error(`Migration en cours pour la collection ${name}`);
+      }
+
+      await collection.vectorStore.clear();
+      await collection.registry.clear();
+      await collection.vectorStore.close();
+      this.collections.delete(name);
+
+      // Fichiers de la génération 0 (dossier, base SQLite, registre) puis de la génération courante
+      const storeConfig = this._collectionStoreConfig(name, collection.embedding.dimensions);
+      await this._removeStoreFiles(storeConfig);
+      const registryPath = this._registryPath(storeConfig);
+      if (registryPath) {
+        await fs.rm(registryPath, { force: true });
+      }
+      await this._discardStore(collection.config.vectorStore, collection.generation);
+      if (this.activeCollection === name) {
+        this.activeCollection = DEFAULT_COLLECTION;
+      }
+
+      await this._saveManifest();
+    });
+  }
+
+  /**
+   * Lance en arrière-plan la migration d'une collection vers un autre modèle d'embedding
+   * (par défaut le modèle configuré). La collection reste interrogeable avec l'ancien modèle
+   * pendant la recopie; la bascule a lieu une fois tous les chunks recalculés. Une migration
+   * interrompue reprend au démarrage suivant sans recalculer les chunks déjà migrés.
+   */
+  async reembed(model?: string, collectionName?: string): Promise<ReembedStatus> {
+    const collection = this._collection(collectionName);
+    if (collection.reembed?.state === 'running') {
+      throw new Error(`Migration déjà en cours pour la collection ${collection.name}`);
+    }
+
+    const targetModel = model ?? this.embedder.embeddingModelName;
+    const manager = this.modelManagers.embedding;
+    if (this.config.models?.autoPull && manager && !await manager.hasModel(targetModel)) {
+      await this._pull(manager, targetModel);
     }
 
-    console.log(`RAG initialisé avec le modèle: ${this.ollama.modelName}`);
+    const test = await this.embedder.testEmbedding(targetModel);
+    if (!test.success || !test.dimensions) {
+      throw new Error(`Modèle d'embedding ${targetModel} indisponible: ${test.error}`);
+    }
+
+    const to: EmbeddingInfo = { model: targetModel, dimensions: test.dimensions };
+    if (this._sameEmbedding(collection.embedding, to)) {
+      throw new Error(`La collection ${collection.name} utilise déjà ${targetModel}`);
+    }
+
+    // Une migration abandonnée vers un autre modèle laisse un store incompatible
+    const abandoned = collection.reembed;
+    if (abandoned && abandoned.state !== 'completed' && !this._sameEmbedding(abandoned.to, to)) {
+      await this._discardStore(
+        this._collectionStoreConfig(collection.name, abandoned.to.dimensions, collection.generation + 1),
+        collection.generation + 1
+      );
+    }
+
+    const status = this._startReembed(collection, to);
+    await this._saveManifest();
+    return status;
+  }
+
+  getReembedStatus(collectionName?: string): ReembedStatus | undefined {
+    return this._collection(collectionName).reembed;
   }
 
   /**
@@ -44,9 +317,12 @@ export class RAGService {
     query: string,
     maxResults: number = 5,
     useSmartSearch: boolean = false,
-    silent: boolean = false
+    silent: boolean = false,
+    collection?: string,
+    onProgress?: ProgressCallback
   ): Promise<{
     documentsAdded: number;
+    deduplication?: DeduplicationReport;
     topicAnalysis?: ReturnType<typeof extractTopics>;
     executedQueries: string[];
   }> {
@@ -93,7 +369,7 @@ export class RAGService {
       }
 
       const successfulContents = extractedContents
-        .filter(content => content.success && content.content.length > 100)
+        .filter(content => content.success && content.content.length > MIN_WEB_CONTENT_LENGTH)
         .slice(0, maxResults);
 
       if (successfulContents.length === 0) {
@@ -101,12 +377,16 @@ export class RAGService {
       }
 
       const documents = this._convertToDocuments(successfulContents);
-      await this.addDocuments(documents);
+      const deduplication = await this.addDocuments(documents, collection, onProgress);
 
-      if (!silent) console.log(`✅ ${documents.length} documents ajoutés au RAG`);
+      if (!silent) {
+        console.log(`✅ ${documents.length} documents ajoutés au RAG`);
+        this._logDeduplication(deduplication);
+      }
 
       return {
         documentsAdded: documents.length,
+        deduplication,
         topicAnalysis,
         executedQueries
       };
@@ -126,15 +406,18 @@ export class RAGService {
       maxVariants?: number;
       topicOptions?: TopicExtractionOptions;
       silent?: boolean;
+      collection?: string;
+      onProgress?: ProgressCallback;
     } = {}
   ): Promise<{
     documentsAdded: number;
+    deduplication: DeduplicationReport;
     topicAnalysis: ReturnType<typeof extractTopics>;
     searchVariants: string[];
     executedQueries: string[];
   }> {
     try {
-      const { maxResults = 8, maxVariants = 3, topicOptions = {}, silent = false } = options;
+      const { maxResults = 8, maxVariants = 3, topicOptions = {}, silent = false, collection, onProgress } = options;
 
       if (!silent) console.log(`🔍 Recherche exhaustive pour: "${query}"`);
 
@@ -155,7 +438,7 @@ export class RAGService {
       );
 
       const successfulContents = comprehensiveResult.allResults
-        .filter(content => content.success && content.content.length > 100)
+        .filter(content => content.success && content.content.length > MIN_WEB_CONTENT_LENGTH)
         .slice(0, maxResults);
 
       if (successfulContents.length === 0) {
@@ -163,10 +446,11 @@ export class RAGService {
       }
 
       const documents = this._convertToDocuments(successfulContents);
-      await this.addDocuments(documents);
+      const deduplication = await this.addDocuments(documents, collection, onProgress);
 
       if (!silent) {
         console.log(`✅ Recherche exhaustive terminée: ${documents.length} documents ajoutés`);
+        this._logDeduplication(deduplication);
         if (comprehensiveResult.executedQueries.length > 0) {
           console.log(`🔁 Requêtes exécutées: ${comprehensiveResult.executedQueries.join(' | ')}`);
         }
@@ -174,6 +458,7 @@ export class RAGService {
 
       return {
         documentsAdded: documents.length,
+        deduplication,
         topicAnalysis: comprehensiveResult.topicAnalysis,
         searchVariants: comprehensiveResult.executedQueries.filter((variant, index, arr) =>
           variant !== query && arr.indexOf(variant) === index
@@ -187,77 +472,264 @@ export class RAGService {
   }
 
 
-  async addDocuments(documents: Document[]): Promise<void> {
+  /**
+   * Ajoute des documents à une collection. Les doublons exacts (empreinte du contenu normalisé)
+   * et les quasi-doublons (similarité d'embedding) sont traités selon la politique configurée.
+   */
+  async addDocuments(
+    documents: Document[],
+    collectionName?: string,
+    onProgress?: ProgressCallback
+  ): Promise<DeduplicationReport> {
     try {
-      // Chunking des documents
-      const chunks = this.chunker.chunkDocuments(documents);
+      const collection = this._collection(collectionName);
+      return await this._withWriteLock(collection, () => this._ingest(collection, documents, onProgress));
+    } catch (error: any) {
+      throw new Error(`Erreur ajout documents: ${error.message}`);
+    }
+  }
 
-      // Génération des embeddings
-      const contents = chunks.map(chunk => chunk.content);
-      const embeddings = await this.ollama.generateEmbeddings(contents);
+  /**
+   * Chunking, déduplication, embeddings et enregistrement (appelé sous verrou d'écriture)
+   */
+  private async _ingest(
+    collection: Collection,
+    documents: Document[],
+    onProgress?: ProgressCallback
+  ): Promise<DeduplicationReport> {
+    const dedup = collection.config.deduplication ?? {};
+    const policy = dedup.policy ?? 'skip';
+
+    // Une nouvelle version d'un document déjà enregistré remplace ses anciens chunks, retirés
+    // seulement une fois la nouvelle version vectorisée: un échec conserve l'ancienne version
+    const staleChunkIds = new Set(documents.flatMap(document => collection.registry.get(document.id)?.chunkIds ?? []));
+
+    // Chunking des documents
+    const chunks: Chunk[] = collection.chunker.chunkDocuments(documents).map(chunk => ({
+      ...chunk,
+      metadata: { ...chunk.metadata, contentHash: contentHash(chunk.content) }
+    }));
 
+    const plan: DeduplicationPlan = dedup.enabled === false
+      ? { writes: await this._embedChunks(chunks, collection.embedding.model, onProgress), removals: [], chunksAdded: chunks.length, exactDuplicates: 0, nearDuplicates: 0 }
+      : await this._planDeduplication(collection, chunks, policy, dedup.nearDuplicateThreshold ?? 0.95, staleChunkIds, onProgress);
+    const removals = Array.from(new Set([...staleChunkIds, ...plan.removals]));
 
-      // Ajout des embeddings aux chunks
-      const chunksWithEmbeddings: Chunk[] = chunks.map((chunk, index) => ({
-        ...chunk,
-        embedding: embeddings[index]
-      }));
+    // Stockage dans le vector store: suppressions d'abord, un remplaçant peut réutiliser le même ID
+    if (removals.length > 0) {
+      await collection.vectorStore.removeChunks(removals);
+    }
+    if (plan.writes.length > 0) {
+      await collection.vectorStore.addChunks(plan.writes);
+    }
+    await this._registerDocuments(collection, documents, { ...plan, removals });
 
-      // Stockage dans le vector store
-      await this.vectorStore.addChunks(chunksWithEmbeddings);
+    return {
+      policy,
+      chunksAdded: plan.chunksAdded,
+      exactDuplicates: plan.exactDuplicates,
+      nearDuplicates: plan.nearDuplicates
+    };
+  }
 
-    } catch (error: any) {
-      throw new Error(`Erreur ajout documents: ${error.message}`);
-    }
+  /**
+   * Enregistre les documents ingérés avec les chunks effectivement écrits pour chacun. Un document
+   * sans chunk propre (doublons ignorés ou fusionnés) n'est pas enregistré: son contenu est déjà
+   * représenté par d'autres documents.
+   */
+  private async _registerDocuments(collection: Collection, documents: Document[], plan: DeduplicationPlan): Promise<void> {
+    const now = new Date();
+    const records: DocumentRecord[] = documents.map(document => {
+      const previous = collection.registry.get(document.id);
+      return {
+        id: document.id,
+        metadata: documentMetadata(document.metadata),
+        chunkIds: plan.writes
+          .filter(chunk => chunk.metadata.documentId === document.id)
+          .sort((a, b) => (a.metadata.chunkIndex ?? 0) - (b.metadata.chunkIndex ?? 0))
+          .map(chunk => chunk.id),
+        contentHash: contentHash(document.content),
+        ingestedAt: previous?.ingestedAt ?? now,
+        updatedAt: previous ? now : undefined
+      };
+    });
+
+    await collection.registry.detachChunks(plan.removals);
+    await collection.registry.upsert(records.filter(record => record.chunkIds.length > 0));
   }
 
+  /**
+   * Détermine les écritures et suppressions à effectuer. Les doublons exacts sont détectés
+   * avant tout appel au modèle d'embedding; seuls les chunks restants sont vectorisés puis
+   * comparés au lot courant et à leur plus proche voisin dans le store. Les chunks remplacés
+   * (anciennes versions des documents ingérés) ne servent pas de référence.
+   */
+  private async _planDeduplication(
+    collection: Collection,
+    chunks: Chunk[],
+    policy: DeduplicationPolicy,
+    nearThreshold: number,
+    replaced: Set<string>,
+    onProgress?: ProgressCallback
+  ): Promise<DeduplicationPlan> {
+    const pending = new Map<string, Chunk>();
+    const removals = new Set<string>();
+    const storedIds = new Set<string>();
+    let exactDuplicates = 0;
+    let nearDuplicates = 0;
+
+    // Applique la politique; retourne le chunk qui représente désormais ce contenu
+    const resolve = (kept: Chunk, duplicate: Chunk): Chunk => {
+      if (policy === 'replace') {
+        pending.delete(kept.id);
+        removals.add(kept.id);
+        const replacement = { ...duplicate, embedding: duplicate.embedding ?? kept.embedding };
+        pending.set(replacement.id, replacement);
+        return replacement;
+      }
 
-  async search(searchQuery: SearchQuery): Promise<RAGResponse> {
-    try {
-      const startTime = Date.now();
-      // On normalise l'input
-      const normalizedInput = this._normalizeText(searchQuery.query)
+      if (policy === 'merge') {
+        const merged = mergeDuplicate(pending.get(kept.id) ?? kept, duplicate);
+        pending.set(merged.id, merged);
+        return merged;
+      }
+
+      return kept;
+    };
 
-      // Génère l'embedding de la requête
-      const queryEmbedding = await this.ollama.generateEmbedding(normalizedInput);
+    // 1. Doublons exacts, contre le store puis contre le lot courant
+    const stored = (await collection.vectorStore.findByContentHash(chunks.map(chunk => chunk.metadata.contentHash!)))
+      .filter(chunk => !replaced.has(chunk.id));
+    const byHash = new Map(stored.map(chunk => [chunk.metadata.contentHash!, chunk]));
+    stored.forEach(chunk => storedIds.add(chunk.id));
+
+    for (const chunk of chunks) {
+      const hash = chunk.metadata.contentHash!;
+      const kept = byHash.get(hash);
+
+      if (kept) {
+        exactDuplicates++;
+        byHash.set(hash, resolve(kept, chunk));
+      } else {
+        pending.set(chunk.id, chunk);
+        byHash.set(hash, chunk);
+      }
+    }
 
-      // Recherche dans le vector store
-      const topK = searchQuery.topK ?? this.config.retrieval.topK;
-      const threshold = searchQuery.threshold ?? this.config.retrieval.threshold;
+    // 2. Quasi-doublons, uniquement pour les contenus inédits
+    // Les chunks déjà vectorisés (remplaçants ou fusions de chunks stockés) servent de référence
+    const accepted = Array.from(pending.values()).filter(chunk => chunk.embedding);
+    const unseen = Array.from(pending.values()).filter(chunk => !chunk.embedding);
+    const embedded = await this._embedChunks(unseen, collection.embedding.model, onProgress);
+    embedded.forEach(chunk => pending.set(chunk.id, chunk));
+
+    for (const chunk of embedded) {
+      if (!pending.has(chunk.id)) continue;
+
+      const inBatch = accepted
+        .filter(candidate => pending.has(candidate.id))
+        .map(candidate => ({ chunk: pending.get(candidate.id)!, similarity: cosineSimilarity(chunk.embedding!, candidate.embedding!) }))
+        .reduce<{ chunk: Chunk; similarity: number } | null>((best, match) => (!best || match.similarity > best.similarity ? match : best), null);
+
+      // Les chunks voués à être supprimés ou remplacés ne comptent pas comme voisins
+      const nearest = (await collection.vectorStore.search(chunk.embedding!, removals.size + replaced.size + 1, -Infinity))
+        .find(candidate => !removals.has(candidate.id) && !replaced.has(candidate.id));
+      let inStore: { chunk: Chunk; similarity: number } | null = null;
+      if (nearest && nearest.id !== chunk.id) {
+        const { similarity: _score, ...storedChunk } = nearest;
+        inStore = { chunk: storedChunk, similarity: cosineSimilarity(chunk.embedding!, storedChunk.embedding!) };
+      }
 
-      let relevantChunks = await this.vectorStore.search(queryEmbedding, topK, threshold);
+      const match = [inBatch, inStore]
+        .filter((candidate): candidate is { chunk: Chunk; similarity: number } => !!candidate && candidate.similarity >= nearThreshold)
+        .sort((a, b) => b.similarity - a.similarity)[0];
 
-      // Recherche web additionnelle si demandée et pas assez de résultats
-      if (searchQuery.includeWebSearch && relevantChunks.length < topK) {
-        await this._enhanceWithWebSearch(searchQuery, topK - relevantChunks.length);
-        // Re-recherche après ajout du contenu web
-        relevantChunks = await this.vectorStore.search(queryEmbedding, topK, threshold);
+      if (!match) {
+        accepted.push(chunk);
+        continue;
       }
 
+      nearDuplicates++;
+      if (match === inStore) storedIds.add(match.chunk.id);
+      pending.delete(chunk.id);
+      const representative = resolve(match.chunk, chunk);
+      if (representative.id === chunk.id) accepted.push(representative);
+    }
+
+    const writes = Array.from(pending.values());
+    return {
+      writes,
+      removals: Array.from(removals),
+      chunksAdded: writes.filter(chunk => !storedIds.has(chunk.id)).length,
+      exactDuplicates,
+      nearDuplicates
+    };
+  }
+
+  private _logDeduplication(report: DeduplicationReport): void {
+    const duplicates = report.exactDuplicates + report.nearDuplicates;
+    if (duplicates > 0) {
+      console.log(`♻️ ${duplicates} chunks dupliqués (${report.exactDuplicates} exacts, ${report.nearDuplicates} proches), politique: ${report.policy}`);
+    }
+  }
+
+  /**
+   * Génère les embeddings des chunks et les marque du modèle utilisé
+   */
+  private async _embedChunks(chunks: Chunk[], model: string, onProgress?: ProgressCallback): Promise<Chunk[]> {
+    if (chunks.length === 0) return [];
+
+    const embeddings = await this.embedder.generateEmbeddings(chunks.map(chunk => chunk.content), model, onProgress);
+    return chunks.map((chunk, index) => ({
+      ...chunk,
+      embedding: embeddings[index],
+      metadata: { ...chunk.metadata, embeddingModel: model }
+    }));
+  }
+
+
+  async search(searchQuery: SearchQuery): Promise<RAGResponse> {
+    try {
+      const startTime = Date.now();
+      // Profil inconnu: échec avant la recherche plutôt qu'après
+      this.prompts.get(searchQuery.profile);
+      const relevantChunks = await this._retrieveForQuery(searchQuery);
+
       if (relevantChunks.length === 0) {
         return {
-          answer: "Je n'ai pas trouvé d'informations pertinentes pour répondre à votre question.",
+          answer: NO_RESULTS_ANSWER,
           sources: [],
           query: searchQuery.query,
-          timestamp: new Date()
+          timestamp: new Date(),
+          citations: [],
+          conflicts: []
         };
       }
 
       // Génération de la réponse
       const context = relevantChunks.map(chunk => chunk.content);
-      const answer = await this.ollama.generateResponse(searchQuery.query, context);
+      const conflicts = this._detectConflicts(relevantChunks);
+      const generated = await this.generator.generateResponse(this.prompts.buildMessages(searchQuery.query, context, {
+        profile: searchQuery.profile,
+        language: searchQuery.language,
+        conflicts
+      }));
+      // Les numéros cités qui ne correspondent à aucune source sont retirés
+      const answer = cleanCitationMarkers(generated, relevantChunks.length);
 
       const response: RAGResponse = {
         answer,
-        sources: relevantChunks.map(chunk => ({
-          content: chunk.content,
-          metadata: chunk.metadata,
-          similarity: chunk.similarity
-        })),
+        sources: this._toSources(relevantChunks),
         query: searchQuery.query,
-        timestamp: new Date()
+        timestamp: new Date(),
+        citations: extractCitations(answer),
+        conflicts
       };
 
+      if (searchQuery.verify ?? this.verifier.enabled) {
+        response.claims = await this._verifyAnswer(this.verifier.claims(answer), relevantChunks);
+      }
+
       const duration = Date.now() - startTime;
       console.log(`\n Recherche RAG terminée en ${duration}ms avec ${relevantChunks.length} sources`);
 
@@ -267,6 +739,475 @@ export class RAGService {
     }
   }
 
+  /**
+   * Variante streaming de search: émet les sources dès la fin de la récupération,
+   * puis les tokens au fil de la génération, puis la réponse complète.
+   * Arrêter l'itération interrompt la génération.
+   */
+  async *searchStream(searchQuery: SearchQuery): AsyncGenerator<RAGStreamEvent> {
+    yield* this._answerStream(searchQuery);
+  }
+
+  /**
+   * Tour de conversation: la question est d'abord reformulée en question autonome à
+   * partir de l'historique pour la recherche, puis la réponse est générée à la suite
+   * de l'historique. L'échange est enregistré une fois la réponse complète.
+   */
+  async converse(conversationId: string, message: string, options: Omit<SearchQuery, 'query'> = {}): Promise<RAGResponse> {
+    for await (const event of this.converseStream(conversationId, message, options)) {
+      if (event.type === 'done') return event.response;
+    }
+    throw new Error('Erreur conversation: réponse incomplète');
+  }
+
+  /**
+   * Variante streaming de converse, mêmes événements que searchStream
+   */
+  async *converseStream(
+    conversationId: string,
+    message: string,
+    options: Omit<SearchQuery, 'query'> = {}
+  ): AsyncGenerator<RAGStreamEvent> {
+    const history = this._conversationHistory(conversationId);
+
+    let standaloneQuery: string;
+    try {
+      standaloneQuery = await this._condenseQuery(history, message);
+    } catch (error: any) {
+      throw new Error(`Erreur conversation: ${error.message}`);
+    }
+
+    for await (const event of this._answerStream({ ...options, query: standaloneQuery }, history, message)) {
+      if (event.type !== 'done') {
+        yield event;
+        continue;
+      }
+
+      const response: RAGResponse = { ...event.response, conversationId, standaloneQuery };
+      await this.conversations.addTurn(conversationId, {
+        question: message,
+        standaloneQuery,
+        answer: response.answer,
+        sources: response.sources.map(source => ({
+          title: source.metadata.title,
+          url: source.metadata.url,
+          similarity: source.similarity
+        })),
+        timestamp: response.timestamp
+      });
+      yield { ...event, response };
+    }
+  }
+
+  /**
+   * Vérifie une affirmation: l'affirmation et des variantes tirées de ses sujets servent à
+   * chercher des preuves dans la base et sur le web (sans les ajouter à la base), puis chaque
+   * extrait est classé par le modèle comme appuyant, réfutant ou neutre
+   */
+  async factCheck(claim: string, options: FactCheckOptions = {}): Promise<FactCheckResult> {
+    const startTime = Date.now();
+    const { includeWebSearch = true, webResults = 5, maxEvidence = 8 } = options;
+
+    try {
+      const topics = extractTopics(claim, { language: 'both', minWordLength: 3, maxTopics: 6, preserveCapitalized: true }).topics;
+      const queries = [claim, ...generateSearchVariants(topics)]
+        .filter((query, index, array) => array.indexOf(query) === index)
+        .slice(0, FACT_CHECK_QUERIES);
+
+      const candidates = [
+        ...await this._localEvidence(queries, options.collection),
+        ...(includeWebSearch ? await this._webEvidence(claim, webResults, options.collection) : [])
+      ];
+
+      const evidence = await this._rankEvidence(claim, candidates, maxEvidence);
+      const judgements = await this.verifier.classifyEvidence(claim, evidence.map(item => item.content));
+      const classified = evidence.map((item, index): FactCheckEvidence => ({
+        ...item,
+        stance: STANCES[judgements[index].verdict],
+        explanation: judgements[index].explanation
+      }));
+
+      return {
+        claim,
+        ...aggregateEvidence(classified),
+        evidence: classified,
+        queries,
+        timestamp: new Date(),
+        durationMs: Date.now() - startTime
+      };
+    } catch (error: any) {
+      throw new Error(`Erreur vérification de l'affirmation: ${error.message}`);
+    }
+  }
+
+  listPromptProfiles(): PromptProfile[] {
+    return this.prompts.list();
+  }
+
+  getConversation(id: string): Conversation | undefined {
+    return this.conversations.get(id);
+  }
+
+  listConversations(): ConversationSummary[] {
+    return this.conversations.list();
+  }
+
+  async deleteConversation(id: string): Promise<boolean> {
+    return this.conversations.remove(id);
+  }
+
+  /**
+   * Recherche avec searchQuery puis génération en streaming. En conversation, la question
+   * posée (question) diffère de la requête de recherche et suit l'historique.
+   */
+  private async *_answerStream(
+    searchQuery: SearchQuery,
+    history: ChatMessage[] = [],
+    question: string = searchQuery.query
+  ): AsyncGenerator<RAGStreamEvent> {
+    const startTime = Date.now();
+    let relevantChunks: ScoredChunk[];
+
+    try {
+      this.prompts.get(searchQuery.profile);
+      relevantChunks = await this._retrieveForQuery(searchQuery);
+    } catch (error: any) {
+      throw new Error(`Erreur recherche RAG: ${error.message}`);
+    }
+
+    const sources = this._toSources(relevantChunks);
+    yield { type: 'sources', sources };
+
+    const conflicts = this._detectConflicts(relevantChunks);
+    let answer = '';
+    if (relevantChunks.length === 0) {
+      answer = NO_RESULTS_ANSWER;
+      yield { type: 'token', token: answer };
+    } else {
+      const messages = this.prompts.buildMessages(question, relevantChunks.map(chunk => chunk.content), {
+        profile: searchQuery.profile,
+        language: searchQuery.language,
+        history,
+        conflicts
+      });
+      const citationFilter = createCitationFilter(relevantChunks.length);
+      try {
+        for await (const token of this.generator.generateResponseStream(messages)) {
+          const text = citationFilter.push(token);
+          if (!text) continue;
+          answer += text;
+          yield { type: 'token', token: text };
+        }
+        const rest = citationFilter.flush();
+        if (rest) {
+          answer += rest;
+          yield { type: 'token', token: rest };
+        }
+      } catch (error: any) {
+        throw new Error(`Erreur recherche RAG: ${error.message}`);
+      }
+    }
+
+    let claims: ClaimVerification[] | undefined;
+    if (relevantChunks.length > 0 && (searchQuery.verify ?? this.verifier.enabled)) {
+      const answerClaims = this.verifier.claims(answer);
+      yield { type: 'verifying', claims: answerClaims.length };
+      claims = await this._verifyAnswer(answerClaims, relevantChunks);
+    }
+
+    yield {
+      type: 'done',
+      response: {
+        answer,
+        sources,
+        query: question,
+        timestamp: new Date(),
+        citations: extractCitations(answer),
+        conflicts,
+        claims
+      },
+      durationMs: Date.now() - startTime
+    };
+  }
+
+  /**
+   * Désaccords entre les chunks retenus; deux chunks d'un même document ne sont pas comparés
+   */
+  private _detectConflicts(chunks: ScoredChunk[]): SourceConflict[] {
+    const config = this.config.conflicts ?? {};
+    if (config.enabled === false) return [];
+
+    return detectConflicts(
+      chunks.map(chunk => ({ content: chunk.content, key: chunk.metadata.documentId ?? chunk.metadata.url ?? chunk.id })),
+      { minOverlap: config.minOverlap, maxConflicts: config.maxConflicts }
+    );
+  }
+
+  /**
+   * Chunks de la base trouvés par l'une des requêtes de preuve
+   */
+  private async _localEvidence(queries: string[], collection?: string): Promise<Omit<FactCheckEvidence, 'stance' | 'similarity'>[]> {
+    const chunks = new Map<string, ScoredChunk>();
+    for (const query of queries) {
+      for (const chunk of await this._retrieveForQuery({ query, collection, includeWebSearch: false })) {
+        chunks.set(chunk.id, chunk);
+      }
+    }
+
+    return Array.from(chunks.values()).map(chunk => ({
+      content: chunk.content,
+      origin: 'local',
+      title: chunk.metadata.title,
+      url: chunk.metadata.url,
+      credibility: chunk.metadata.credibility
+    }));
+  }
+
+  /**
+   * Extraits des pages trouvées par une recherche web exhaustive, découpées comme à l'ingestion;
+   * un échec de la recherche web laisse les seules preuves locales
+   */
+  private async _webEvidence(claim: string, maxResults: number, collection?: string): Promise<Omit<FactCheckEvidence, 'stance' | 'similarity'>[]> {
+    let contents: ExtractedContent[];
+    try {
+      const result = await this.webSearch.comprehensiveSearch(claim, 'duckduckgo', {
+        maxVariants: FACT_CHECK_QUERIES - 1,
+        topicOptions: { language: 'both', minWordLength: 3, maxTopics: 6 },
+        deduplicateResults: true,
+        maxResults
+      });
+      contents = result.allResults
+        .filter(content => content.success && content.content.length > MIN_WEB_CONTENT_LENGTH)
+        .slice(0, maxResults);
+    } catch (error: any) {
+      console.warn(`⚠️ Recherche web de preuves impossible: ${error.message}`);
+      return [];
+    }
+
+    return this._collection(collection).chunker.chunkDocuments(this._convertToDocuments(contents)).map(chunk => ({
+      content: chunk.content,
+      origin: 'web',
+      title: chunk.metadata.title,
+      url: chunk.metadata.url,
+      credibility: chunk.metadata.credibility
+    }));
+  }
+
+  /**
+   * Extraits les plus proches de l'affirmation, au plus FACT_CHECK_EVIDENCE_PER_SOURCE par source
+   */
+  private async _rankEvidence(
+    claim: string,
+    candidates: Omit<FactCheckEvidence, 'stance' | 'similarity'>[],
+    maxEvidence: number
+  ): Promise<Omit<FactCheckEvidence, 'stance'>[]> {
+    if (candidates.length === 0) return [];
+
+    // Comme à l'ingestion et à la recherche: requête normalisée, extraits tels quels
+    const [claimEmbedding, ...embeddings] = await this.embedder.generateEmbeddings([
+      this._normalizeText(claim),
+      ...candidates.map(candidate => candidate.content)
+    ]);
+    const ranked = candidates
+      .map((candidate, index) => ({ ...candidate, similarity: cosineSimilarity(claimEmbedding, embeddings[index]) }))
+      .sort((a, b) => b.similarity - a.similarity);
+
+    const perSource = new Map<string, number>();
+    return ranked.filter(candidate => {
+      const key = candidate.url ?? candidate.title ?? candidate.content;
+      const count = perSource.get(key) ?? 0;
+      perSource.set(key, count + 1);
+      return count < FACT_CHECK_EVIDENCE_PER_SOURCE;
+    }).slice(0, maxEvidence);
+  }
+
+  /**
+   * Verdicts des affirmations de la réponse; un échec de la vérification n'empêche pas de répondre
+   */
+  private async _verifyAnswer(claims: AnswerClaim[], chunks: ScoredChunk[]): Promise<ClaimVerification[] | undefined> {
+    try {
+      return await this.verifier.verify(claims, chunks.map(chunk => chunk.content));
+    } catch (error: any) {
+      console.warn(`⚠️ Vérification de la réponse impossible: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Derniers échanges d'une conversation sous forme de messages de chat
+   */
+  private _conversationHistory(conversationId: string): ChatMessage[] {
+    const turns = this.conversations.get(conversationId)?.turns ?? [];
+    const historyTurns = this.config.conversation?.historyTurns ?? DEFAULT_HISTORY_TURNS;
+
+    return turns.slice(-historyTurns).flatMap((turn): ChatMessage[] => [
+      { role: 'user', content: turn.question },
+      { role: 'assistant', content: turn.answer }
+    ]);
+  }
+
+  /**
+   * Reformule une question de suivi en question autonome (inchangée en début de conversation)
+   */
+  private async _condenseQuery(history: ChatMessage[], question: string): Promise<string> {
+    if (history.length === 0 || this.config.conversation?.condenseQuery === false) {
+      return question;
+    }
+
+    const condensed = await this.generator.generateResponse(buildCondenseMessages(history, question));
+    // Certains modèles ajoutent des guillemets ou une explication après la question
+    const firstLine = condensed.trim().split('\n')[0].trim().replace(/^["'«\s]+|["'»\s]+$/g, '');
+    return firstLine || question;
+  }
+
+  /**
+   * Embedding de la requête, récupération des chunks et enrichissement web éventuel
+   */
+  private async _retrieveForQuery(searchQuery: SearchQuery): Promise<ScoredChunk[]> {
+    const collection = this._collection(searchQuery.collection);
+    const retrieval = collection.config.retrieval;
+    const mode = searchQuery.mode ?? retrieval.mode ?? 'vector';
+
+    // Génère l'embedding de la requête normalisée (inutile en mode lexical)
+    const queryEmbedding = mode === 'lexical'
+      ? null
+      : await this.embedder.generateEmbedding(this._normalizeText(searchQuery.query), collection.embedding.model);
+
+    const topK = searchQuery.topK ?? retrieval.topK;
+    const threshold = searchQuery.threshold ?? retrieval.threshold;
+
+    const relevantChunks = await this._retrieve(collection, searchQuery, mode, queryEmbedding, topK, threshold);
+
+    // Recherche web additionnelle si demandée et pas assez de résultats
+    if (searchQuery.includeWebSearch && relevantChunks.length < topK) {
+      await this._enhanceWithWebSearch(searchQuery, topK - relevantChunks.length);
+      // Re-recherche après ajout du contenu web
+      return this._retrieve(collection, searchQuery, mode, queryEmbedding, topK, threshold);
+    }
+
+    return relevantChunks;
+  }
+
+  private _toSources(chunks: ScoredChunk[]): RAGResponse['sources'] {
+    return chunks.map(chunk => ({
+      content: chunk.content,
+      metadata: chunk.metadata,
+      similarity: chunk.similarity
+    }));
+  }
+
+
+  /**
+   * Récupère les chunks pertinents puis applique le reranking MMR et le plafond par source
+   */
+  private async _retrieve(
+    collection: Collection,
+    searchQuery: SearchQuery,
+    mode: RetrievalMode,
+    queryEmbedding: number[] | null,
+    topK: number,
+    threshold: number
+  ): Promise<ScoredChunk[]> {
+    const mmr = collection.config.retrieval.mmr;
+    const lambda = searchQuery.mmrLambda ?? (mmr?.enabled ? mmr.lambda : undefined);
+    const maxPerSource = searchQuery.maxChunksPerSource ?? collection.config.retrieval.maxChunksPerSource;
+
+    const credibilityWeight = collection.config.credibility?.weight ?? DEFAULT_CREDIBILITY_WEIGHT;
+
+    if (lambda === undefined && maxPerSource === undefined && credibilityWeight === 0) {
+      return this._retrieveCandidates(collection, searchQuery, mode, queryEmbedding, topK, threshold);
+    }
+
+    // On élargit la liste de candidats pour laisser de la place à la diversification et à l'a priori
+    const candidateCount = topK * (mmr?.fetchMultiplier ?? 4);
+    let candidates = this._applyCredibilityPrior(
+      await this._retrieveCandidates(collection, searchQuery, mode, queryEmbedding, candidateCount, threshold),
+      credibilityWeight
+    );
+    // En mode vectoriel, le seuil porte sur la similarité pondérée par l'a priori (qui ne peut que
+    // la réduire: les candidats sous le seuil brut sont déjà écartés)
+    if (mode === 'vector' && credibilityWeight !== 0) {
+      candidates = candidates.filter(chunk => chunk.similarity >= threshold);
+    }
+
+    if (lambda === undefined && maxPerSource === undefined) {
+      return candidates.slice(0, topK);
+    }
+    return rerankForDiversity(candidates, topK, { lambda, maxPerSource });
+  }
+
+  /**
+   * A priori de crédibilité: le score d'un chunk web est multiplié par 1 - weight * (1 - crédibilité).
+   * Les chunks sans crédibilité (fichiers, ajouts manuels) gardent leur score.
+   */
+  private _applyCredibilityPrior(chunks: ScoredChunk[], weight: number): ScoredChunk[] {
+    if (weight === 0) return chunks;
+
+    return chunks
+      .map(chunk => typeof chunk.metadata.credibility === 'number'
+        ? { ...chunk, similarity: chunk.similarity * (1 - weight * (1 - chunk.metadata.credibility)) }
+        : chunk)
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Récupère les chunks candidats selon le mode vectoriel, lexical ou hybride
+   */
+  private async _retrieveCandidates(
+    collection: Collection,
+    searchQuery: SearchQuery,
+    mode: RetrievalMode,
+    queryEmbedding: number[] | null,
+    topK: number,
+    threshold: number
+  ): Promise<ScoredChunk[]> {
+    const options = { filter: searchQuery.filter };
+    const vectorStore = collection.vectorStore;
+
+    if (mode === 'lexical' || !queryEmbedding) {
+      return vectorStore.lexicalSearch(searchQuery.query, topK, options);
+    }
+
+    if (mode === 'vector') {
+      return vectorStore.search(queryEmbedding, topK, threshold, options);
+    }
+
+    // Mode hybride: on élargit chaque liste de candidats avant fusion
+    const candidateCount = topK * 3;
+    const [vectorResults, lexicalResults] = await Promise.all([
+      vectorStore.search(queryEmbedding, candidateCount, threshold, options),
+      vectorStore.lexicalSearch(searchQuery.query, candidateCount, options)
+    ]);
+
+    return this._fuseResults(collection, vectorResults, lexicalResults, topK);
+  }
+
+  private _fuseResults(
+    collection: Collection,
+    vectorResults: ScoredChunk[],
+    lexicalResults: ScoredChunk[],
+    topK: number
+  ): ScoredChunk[] {
+    const hybrid = collection.config.retrieval.hybrid ?? { fusion: 'rrf' };
+    const vectorWeight = hybrid.vectorWeight ?? 0.5;
+    const rankings = [vectorResults, lexicalResults].map(results =>
+      results.map(chunk => ({ id: chunk.id, score: chunk.similarity }))
+    );
+    const weights = [vectorWeight, 1 - vectorWeight];
+
+    const fused = hybrid.fusion === 'weighted'
+      ? weightedScoreFusion(rankings, weights)
+      : reciprocalRankFusion(rankings, hybrid.rrfK ?? 60, weights);
+
+    const chunksById = new Map([...lexicalResults, ...vectorResults].map(chunk => [chunk.id, chunk]));
+    const bestScore = fused[0]?.score || 1;
+
+    // La similarité exposée devient le score fusionné, normalisé par le meilleur
+    return fused.slice(0, topK).map(item => ({
+      ...chunksById.get(item.id)!,
+      similarity: item.score / bestScore
+    }));
+  }
 
   private async _enhanceWithWebSearch(searchQuery: SearchQuery, additionalResults: number): Promise<void> {
     try {
@@ -277,7 +1218,7 @@ export class RAGService {
       console.log(`🔍 Recherche web additionnelle intelligente: ${webResults} résultats`);
 
       // Utilise la recherche intelligente pour de meilleurs résultats
-      const result = await this.addFromWebSearch(searchQuery.query, webResults, true);
+      const result = await this.addFromWebSearch(searchQuery.query, webResults, true, false, searchQuery.collection);
 
       if (result.topicAnalysis) {
         console.log(`📈 Analyse des sujets: ${result.topicAnalysis.stats.stopWordsRemoved} stop words supprimés`);
@@ -316,48 +1257,356 @@ export class RAGService {
         url: content.url,
         title: content.title,
         source: 'websearch' as const,
-        timestamp: content.extractedAt
+        timestamp: content.extractedAt,
+        credibility: this._credibility(content)
       }
     }));
   }
 
+  private _credibility(content: ExtractedContent): number {
+    return scoreCredibility(content, this.config.credibility?.domains).score;
+  }
+
 
-  async getStats(): Promise<{
-    vectorStore: Awaited<ReturnType<VectorStore['getStats']>>;
+  /**
+   * Récupère à nouveau les documents web périmés (ou tous avec force) via extractContents.
+   * Un document n'est re-découpé et re-vectorisé que si son contenu a changé; sinon seule
+   * sa date de récupération est mise à jour. Un échec de récupération conserve l'ancienne version.
+   */
+  async refreshStale(collectionName?: string, options: { force?: boolean } = {}): Promise<RefreshReport> {
+    const collection = this._collection(collectionName);
+    const policy = collection.config.freshness ?? {};
+    const now = new Date();
+    const report: RefreshReport = { collection: collection.name, checked: 0, updated: 0, unchanged: 0, failed: [] };
+
+    const expired = collection.registry.list().filter(record =>
+      record.metadata.source === 'websearch' && record.metadata.url && (options.force || isStale(record, policy, now))
+    );
+    if (expired.length === 0) return report;
+
+    // Récupération hors verrou: l'ingestion reste possible pendant les requêtes réseau
+    const urls = Array.from(new Set(expired.map(record => record.metadata.url as string)));
+    const contents = await this.webSearch.extractContents(urls);
+    const byUrl = new Map(urls.map((url, index) => [url, contents[index]]));
+
+    await this._withWriteLock(collection, async () => {
+      for (const record of expired) {
+        const current = collection.registry.get(record.id);
+        if (!current) continue; // supprimé entre-temps
+
+        const url = record.metadata.url as string;
+        const content = byUrl.get(url);
+        if (!content?.success || content.content.length <= MIN_WEB_CONTENT_LENGTH) {
+          report.failed.push({ id: record.id, url, error: content?.error ?? 'Contenu vide ou trop court' });
+          continue;
+        }
+
+        report.checked++;
+        if (contentHash(content.content) === current.contentHash) {
+          await this._updateDocument(collection, record.id, { metadata: { timestamp: content.extractedAt } });
+          report.unchanged++;
+        } else {
+          await this._ingest(collection, [{
+            id: record.id,
+            content: content.content,
+            metadata: {
+              ...current.metadata,
+              title: content.title || current.metadata.title,
+              timestamp: content.extractedAt,
+              credibility: this._credibility(content)
+            }
+          }]);
+          report.updated++;
+        }
+      }
+    });
+
+    return report;
+  }
+
+  async getStats(collectionName?: string): Promise<{
+    collection: string;
+    documents: number;
+    vectorStore: VectorStoreStats;
+    embedding: EmbeddingInfo;
+    reembed?: ReembedStatus;
+    freshness: FreshnessStats;
+    embeddingCache: EmbeddingCacheStats | null;
     config: RAGConfig;
+    /** Fournisseur de génération (clé conservée pour compatibilité) */
     ollama: {
       model: string;
       available: boolean;
     };
+    providers: {
+      generation: string;
+      embedding: string;
+    };
   }> {
-    const [vectorStats, ollamaAvailable] = await Promise.all([
-      this.vectorStore.getStats(),
-      this.ollama.isAvailable()
+    const collection = this._collection(collectionName);
+    const [vectorStats, generatorAvailable] = await Promise.all([
+      collection.vectorStore.getStats(),
+      this.generator.isAvailable()
     ]);
 
     return {
+      collection: collection.name,
+      documents: collection.registry.size,
       vectorStore: vectorStats,
-      config: this.config,
+      embedding: collection.embedding,
+      reembed: collection.reembed,
+      freshness: this._freshnessStats(collection),
+      embeddingCache: this.embeddingCache?.getStats() ?? null,
+      config: collection.config,
       ollama: {
-        model: this.ollama.modelName,
-        available: ollamaAvailable
+        model: this.generator.modelName,
+        available: generatorAvailable
+      },
+      providers: {
+        generation: this.generator.name,
+        embedding: this.embedder.name
+      }
+    };
+  }
+
+
+  /**
+   * Exporte une collection au format JSONL versionné: documents, chunks, embeddings
+   * et modèle d'embedding utilisé
+   */
+  async exportCollection(collectionName?: string): Promise<string> {
+    const collection = this._collection(collectionName);
+    const chunks = await collection.vectorStore.listChunks();
+
+    const lines = buildArchive({
+      collection: collection.name,
+      embedding: {
+        model: collection.embedding.model,
+        dimensions: collection.embedding.dimensions,
+        similarity: collection.config.vectorStore.similarity,
+        encoding: 'float32-base64'
       }
+    }, collection.registry.list(), chunks);
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Importe une archive produite par exportCollection. Si le modèle d'embedding ou les
+   * dimensions diffèrent de la configuration, l'import est refusé ou les embeddings recalculés.
+   */
+  async importCollection(archive: string, options: ImportOptions = {}): Promise<ImportReport> {
+    try {
+      const collection = this._collection(options.collection);
+      return await this._withWriteLock(collection, () => this._import(collection, archive, options));
+    } catch (error: any) {
+      throw new Error(`Erreur import: ${error.message}`);
+    }
+  }
+
+  private async _import(collection: Collection, archive: string, options: ImportOptions): Promise<ImportReport> {
+    const { header, documents, chunks } = parseArchive(archive);
+    const { model, dimensions } = collection.embedding;
+
+    const mismatch = header.embedding.dimensions !== dimensions
+      || !sameModel(header.embedding.model, model)
+      || chunks.some(chunk => chunk.embedding?.length !== dimensions);
+
+    if (mismatch && options.onEmbeddingMismatch !== 'reembed') {
+      throw new Error(
+        `archive calculée avec ${header.embedding.model} (${header.embedding.dimensions} dimensions), ` +
+        `${model} (${dimensions} dimensions) attendu. Utilisez l'option reembed pour recalculer les embeddings`
+      );
+    }
+
+    const restored = mismatch
+      ? await this._embedChunks(chunks.map(({ embedding: _embedding, ...chunk }) => chunk), model)
+      : chunks;
+
+    if (options.replace) {
+      await collection.vectorStore.clear();
+      await collection.registry.clear();
+    }
+    await collection.vectorStore.addChunks(restored.map(chunk => ({
+      ...chunk,
+      metadata: {
+        ...chunk.metadata,
+        contentHash: chunk.metadata.contentHash ?? contentHash(chunk.content),
+        embeddingModel: model
+      }
+    })));
+
+    // Les chunks sans document dans l'archive sont rattachés par la réconciliation
+    await collection.registry.upsert(documents);
+    await collection.registry.reconcile(await collection.vectorStore.listChunks());
+
+    return {
+      collection: collection.name,
+      documents: documents.length,
+      chunksImported: restored.length,
+      reembedded: mismatch
     };
   }
 
+  getDocument(id: string, collectionName?: string): DocumentRecord | undefined {
+    return this._collection(collectionName).registry.get(id);
+  }
+
+  listDocuments(collectionName?: string): DocumentRecord[] {
+    return this._collection(collectionName).registry.list();
+  }
+
+  /**
+   * Met à jour un document: un nouveau contenu est re-découpé et re-vectorisé,
+   * une modification des seules métadonnées est répercutée sur ses chunks existants
+   */
+  async updateDocument(id: string, update: DocumentUpdate, collectionName?: string): Promise<DocumentRecord> {
+    const collection = this._collection(collectionName);
+    return this._withWriteLock(collection, () => this._updateDocument(collection, id, update));
+  }
+
+  private async _updateDocument(collection: Collection, id: string, update: DocumentUpdate): Promise<DocumentRecord> {
+    const record = collection.registry.get(id);
+    if (!record) {
+      throw new Error(`Document inconnu: ${id}`);
+    }
+
+    const metadata = documentMetadata({ ...record.metadata, ...update.metadata } as Document['metadata']);
+
+    if (update.content !== undefined) {
+      await this._ingest(collection, [{ id, content: update.content, metadata }]);
+      const updated = collection.registry.get(id);
+      if (!updated) {
+        throw new Error(`Document ${id} retiré: son nouveau contenu est déjà présent dans d'autres documents`);
+      }
+      return updated;
+    }
+
+    const chunks = (await Promise.all(record.chunkIds.map(chunkId => collection.vectorStore.getChunk(chunkId))))
+      .filter((chunk): chunk is Chunk => !!chunk)
+      .map(chunk => ({ ...chunk, metadata: { ...chunk.metadata, ...metadata } }));
+
+    if (chunks.length > 0) {
+      await collection.vectorStore.addChunks(chunks);
+    }
+
+    const updated: DocumentRecord = { ...record, metadata, updatedAt: new Date() };
+    await collection.registry.upsert([updated]);
+    return updated;
+  }
+
+  /**
+   * Supprime un document et tous ses chunks
+   */
+  async deleteDocument(id: string, collectionName?: string): Promise<void> {
+    const collection = this._collection(collectionName);
+    const record = collection.registry.get(id);
+    if (!record) {
+      throw new Error(`Document inconnu: ${id}`);
+    }
 
-  async removeSource(source: string): Promise<void> {
-    await this.vectorStore.removeBySource(source);
+    await this._withWriteLock(collection, async () => {
+      await collection.vectorStore.removeChunks(record.chunkIds);
+      await collection.registry.remove([id]);
+    });
+  }
+
+  async removeSource(source: string, collectionName?: string): Promise<void> {
+    const collection = this._collection(collectionName);
+
+    await this._withWriteLock(collection, async () => {
+      const records = collection.registry.findBySource(source);
+      await collection.vectorStore.removeChunks(records.flatMap(record => record.chunkIds));
+      await collection.registry.remove(records.map(record => record.id));
+      // Chunks éventuellement absents du registre
+      await collection.vectorStore.removeBySource(source);
+    });
     console.log(`Supprimé le contenu de la source: ${source}`);
   }
 
 
-  async clear(): Promise<void> {
-    await this.vectorStore.clear();
+  async clear(collectionName?: string): Promise<void> {
+    const collection = this._collection(collectionName);
+    await this._withWriteLock(collection, async () => {
+      await collection.vectorStore.clear();
+      await collection.registry.clear();
+    });
+  }
+
+  /**
+   * Libère le stockage vectoriel de toutes les collections (fichiers, connexions)
+   */
+  async close(): Promise<void> {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+
+    await Promise.all(
+      Array.from(this.collections.values()).map(async collection => {
+        // Les écritures en cours (dont la bascule d'une migration) se terminent avant la fermeture
+        await collection.writeLock;
+        await collection.vectorStore.close();
+      })
+    );
+    await this.manifestQueue;
+    this.embeddingCache?.close();
   }
 
   async listAvailableModels(): Promise<string[]> {
-    return await this.ollama.listModels();
+    return await this.generator.listModels();
+  }
+
+  /**
+   * Télécharge un modèle via le fournisseur de génération (à défaut, celui des embeddings).
+   * Le statut est créé dès l'appel et suivi via getPullStatus; il est retourné une fois le
+   * téléchargement terminé.
+   */
+  async pullModel(model: string, onProgress?: (status: ModelPullStatus) => void): Promise<ModelPullStatus> {
+    if (this.getPullStatus(model)?.state === 'running') {
+      throw new Error(`Téléchargement de ${model} déjà en cours`);
+    }
+
+    return this._pull(this._modelManager(), model, onProgress);
+  }
+
+  /** Le fournisseur permet de télécharger, supprimer et inspecter les modèles */
+  get canManageModels(): boolean {
+    return (this.modelManagers.generation ?? this.modelManagers.embedding) !== null;
+  }
+
+  /**
+   * Vrai si le modèle est installé chez le fournisseur qui gère les modèles
+   */
+  async hasModel(model: string): Promise<boolean> {
+    return this._modelManager().hasModel(model);
+  }
+
+  getPullStatus(model: string): ModelPullStatus | undefined {
+    return this.pulls.get(withModelTag(model));
+  }
+
+  /**
+   * Supprime un modèle installé, sauf s'il est utilisé par le service ou une collection
+   */
+  async deleteModel(model: string): Promise<void> {
+    const inUse = [
+      this.generator.modelName,
+      this.embedder.embeddingModelName,
+      ...Array.from(this.collections.values()).flatMap(collection => [collection.embedding.model, collection.reembed?.to.model])
+    ];
+    if (inUse.some(name => name && sameModel(name, model))) {
+      throw new Error(`Le modèle ${model} est utilisé par le service`);
+    }
+    if (this.getPullStatus(model)?.state === 'running') {
+      throw new Error(`Téléchargement de ${model} en cours`);
+    }
+
+    await this._modelManager().deleteModel(model);
+  }
+
+  async showModel(model: string): Promise<ModelDetails> {
+    return this._modelManager().showModel(model);
   }
 
 
@@ -372,16 +1621,16 @@ export class RAGService {
       sources: number;
     };
   }> {
-    const [ollamaAvailable, models, embeddingTest, vectorStats] = await Promise.all([
-      this.ollama.isAvailable(),
-      this.ollama.listModels().catch(() => []),
-      this.ollama.testEmbedding(),
-      this.vectorStore.getStats()
+    const [generatorAvailable, models, embeddingTest, vectorStats] = await Promise.all([
+      this.generator.isAvailable(),
+      this.generator.listModels().catch(() => []),
+      this.embedder.testEmbedding(),
+      this._collection().vectorStore.getStats()
     ]);
 
     return {
       ollama: {
-        available: ollamaAvailable,
+        available: generatorAvailable,
         models,
         embeddingTest
       },
@@ -391,4 +1640,420 @@ export class RAGService {
       }
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Télécharge les modèles de génération et d'embedding absents, l'un après l'autre
+   */
+  private async _pullMissingModels(onProgress?: (status: ModelPullStatus) => void): Promise<void> {
+    const required: Array<[ModelManager | null, string]> = [
+      [this.modelManagers.generation, this.generator.modelName],
+      [this.modelManagers.embedding, this.embedder.embeddingModelName]
+    ];
+
+    for (const [manager, model] of required) {
+      if (manager && !await manager.hasModel(model)) {
+        await this._pull(manager, model, onProgress);
+      }
+    }
+  }
+
+  private async _pull(manager: ModelManager, model: string, onProgress?: (status: ModelPullStatus) => void): Promise<ModelPullStatus> {
+    const status: ModelPullStatus = {
+      model,
+      state: 'running',
+      status: '',
+      completed: 0,
+      total: 0,
+      startedAt: new Date()
+    };
+    this.pulls.set(withModelTag(model), status);
+
+    try {
+      await manager.pullModel(model, progress => {
+        status.status = progress.status;
+        status.completed = progress.completed;
+        status.total = progress.total;
+        onProgress?.(status);
+      });
+      status.state = 'completed';
+      return status;
+    } catch (error: any) {
+      status.state = 'failed';
+      status.error = error.message;
+      throw error;
+    } finally {
+      status.finishedAt = new Date();
+    }
+  }
+
+  private _modelManager(): ModelManager {
+    const manager = this.modelManagers.generation ?? this.modelManagers.embedding;
+    if (!manager) {
+      throw new Error(`Le fournisseur ${this.generator.name} ne permet pas de gérer les modèles`);
+    }
+    return manager;
+  }
+
+  private _collection(name?: string): Collection {
+    if (this.collections.size === 0) {
+      throw new Error('Service RAG non initialisé: appelez initialize()');
+    }
+
+    const collection = this.collections.get(name ?? this.activeCollection);
+    if (!collection) {
+      throw new Error(`Collection inconnue: ${name}`);
+    }
+    return collection;
+  }
+
+  /**
+   * Sérialise les écritures d'une collection (ingestion, suppressions, bascule de migration)
+   */
+  private _withWriteLock<T>(collection: Collection, task: () => Promise<T>): Promise<T> {
+    const run = collection.writeLock.then(task);
+    collection.writeLock = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  /**
+   * Construit une collection: configuration fusionnée et stockage dédié
+   */
+  private _buildCollection(
+    name: string,
+    overrides: CollectionOverrides,
+    createdAt: Date,
+    embedding: EmbeddingInfo,
+    generation: number = 0
+  ): Collection {
+    const base = this.config;
+    const config: CollectionConfig = {
+      ...base,
+      vectorStore: this._collectionStoreConfig(name, embedding.dimensions, generation),
+      chunking: { ...base.chunking, ...overrides.chunking },
+      retrieval: { ...base.retrieval, ...overrides.retrieval },
+      deduplication: { ...base.deduplication, ...overrides.deduplication },
+      freshness: { ...base.freshness, ...overrides.freshness }
+    };
+
+    return {
+      name,
+      overrides,
+      createdAt,
+      config,
+      embedding,
+      generation,
+      vectorStore: createVectorStore(config.vectorStore),
+      // Le registre ne dépend pas du modèle: il reste à l'emplacement de la génération 0
+      registry: new DocumentRegistry(this._registryPath(this._collectionStoreConfig(name, embedding.dimensions))),
+      chunker: new TextChunker(config.chunking),
+      writeLock: Promise.resolve()
+    };
+  }
+
+  /**
+   * La collection par défaut garde les chemins configurés, les autres vivent dans collections/<nom>.
+   * Chaque migration de modèle construit un nouveau store (génération) à côté du précédent.
+   */
+  private _collectionStoreConfig(name: string, dimensions: number, generation: number = 0): VectorStoreConfig {
+    const base = this.config.vectorStore;
+    const persistPath = name === DEFAULT_COLLECTION || !base.persistPath
+      ? base.persistPath
+      : path.join(base.persistPath, 'collections', name);
+    const sqlitePath = name === DEFAULT_COLLECTION || !base.sqlitePath
+      ? base.sqlitePath
+      : path.join(path.dirname(base.sqlitePath), 'collections', `${name}.sqlite`);
+
+    if (generation === 0) {
+      return { ...base, dimensions, persistPath, sqlitePath };
+    }
+
+    return {
+      ...base,
+      dimensions,
+      persistPath: persistPath ? path.join(persistPath, `generation-${generation}`) : undefined,
+      sqlitePath: sqlitePath && sqlitePath !== ':memory:'
+        ? sqlitePath.replace(/(\.sqlite)?$/, `.generation-${generation}.sqlite`)
+        : sqlitePath
+    };
+  }
+
+  /**
+   * Le registre est stocké à côté des données du store
+   */
+  private _registryPath(storeConfig: VectorStoreConfig): string | null {
+    if (storeConfig.persistPath) {
+      return path.join(storeConfig.persistPath, 'documents.json');
+    }
+    if (storeConfig.sqlitePath && storeConfig.sqlitePath !== ':memory:') {
+      return storeConfig.sqlitePath.replace(/(\.sqlite)?$/, '.documents.json');
+    }
+    return null;
+  }
+
+  /**
+   * Supprime les fichiers d'un store de génération > 0 (ceux de la génération 0 partagent
+   * leur dossier avec le registre et les autres collections)
+   */
+  private async _discardStore(config: VectorStoreConfig, generation: number): Promise<void> {
+    if (generation === 0) return;
+    await this._removeStoreFiles(config);
+  }
+
+  /**
+   * Supprime le dossier de persistance et la base SQLite (journaux WAL compris) d'un store
+   */
+  private async _removeStoreFiles(config: VectorStoreConfig): Promise<void> {
+    if (config.persistPath) {
+      await fs.rm(config.persistPath, { recursive: true, force: true });
+    }
+    if (config.sqlitePath && config.sqlitePath !== ':memory:') {
+      for (const suffix of ['', '-wal', '-shm']) {
+        await fs.rm(`${config.sqlitePath}${suffix}`, { force: true });
+      }
+    }
+  }
+
+  private _sameEmbedding(a: EmbeddingInfo, b: EmbeddingInfo): boolean {
+    return a.dimensions === b.dimensions && sameModel(a.model, b.model);
+  }
+
+  /**
+   * Détermine le modèle d'embedding courant et ses dimensions via un embedding de test
+   */
+  private async _detectEmbedding(): Promise<EmbeddingInfo> {
+    const model = this.embedder.embeddingModelName;
+    const test = await this.embedder.testEmbedding();
+
+    if (test.success && test.dimensions) {
+      return { model, dimensions: test.dimensions };
+    }
+
+    const fallback = this.config.vectorStore.dimensions;
+    if (fallback) {
+      console.warn(`⚠️ Dimensions de ${model} non détectées (${test.error}), utilisation de vectorStore.dimensions = ${fallback}`);
+      return { model, dimensions: fallback };
+    }
+
+    throw new Error(`Impossible de déterminer les dimensions du modèle ${model}: ${test.error}`);
+  }
+
+  /**
+   * Démarre (ou reprend) la migration d'une collection en arrière-plan
+   */
+  private _startReembed(collection: Collection, to: EmbeddingInfo): ReembedStatus {
+    const status: ReembedStatus = {
+      collection: collection.name,
+      state: 'running',
+      from: collection.embedding,
+      to,
+      processed: 0,
+      total: 0,
+      startedAt: new Date()
+    };
+    collection.reembed = status;
+
+    this._runReembed(collection, status).catch(error => {
+      status.state = 'failed';
+      status.error = error.message;
+      status.finishedAt = new Date();
+      console.error(`❌ Migration de ${collection.name} vers ${to.model} interrompue: ${error.message}`);
+    });
+
+    return status;
+  }
+
+  /**
+   * Recopie la collection dans un store de génération suivante avec le nouveau modèle,
+   * puis bascule dessus. Une dernière synchronisation sous verrou d'écriture garantit
+   * qu'aucun ajout concurrent n'est perdu.
+   */
+  private async _runReembed(collection: Collection, status: ReembedStatus): Promise<void> {
+    const generation = collection.generation + 1;
+    const targetConfig = this._collectionStoreConfig(collection.name, status.to.dimensions, generation);
+    const target = createVectorStore(targetConfig);
+
+    try {
+      await target.load();
+      const migration = new EmbeddingMigration(
+        collection.vectorStore,
+        target,
+        status.to,
+        (texts, model) => this.embedder.generateEmbeddings(texts, model)
+      );
+      const onProgress = (processed: number, total: number) => {
+        status.processed = processed;
+        status.total = total;
+      };
+
+      await migration.sync(onProgress);
+
+      await this._withWriteLock(collection, async () => {
+        await migration.sync(onProgress);
+
+        const previous = { store: collection.vectorStore, config: collection.config.vectorStore, generation: collection.generation };
+        collection.vectorStore = target;
+        collection.config = { ...collection.config, vectorStore: targetConfig };
+        collection.embedding = status.to;
+        collection.generation = generation;
+        status.state = 'completed';
+        status.finishedAt = new Date();
+        await this._saveManifest();
+
+        await previous.store.clear();
+        await previous.store.close();
+        await this._discardStore(previous.config, previous.generation);
+      });
+
+      console.log(`✅ Collection ${collection.name} migrée vers ${status.to.model} (${status.total} chunks)`);
+    } catch (error) {
+      if (collection.vectorStore !== target) {
+        await target.close();
+      }
+      throw error;
+    }
+  }
+
+  private _freshnessStats(collection: Collection): FreshnessStats {
+    const policy = collection.config.freshness ?? {};
+    const now = new Date();
+    const webDocuments = collection.registry.list().filter(record => record.metadata.source === 'websearch');
+    const stale = webDocuments.filter(record => isStale(record, policy, now));
+
+    return {
+      webDocuments: webDocuments.length,
+      staleDocuments: stale.length,
+      staleChunks: stale.reduce((total, record) => total + record.chunkIds.length, 0)
+    };
+  }
+
+  /**
+   * Rafraîchissement périodique de toutes les collections (un seul passage à la fois)
+   */
+  private async _refreshAll(): Promise<void> {
+    if (this.refreshing) return;
+    this.refreshing = true;
+
+    try {
+      for (const collection of this.collections.values()) {
+        try {
+          const report = await this.refreshStale(collection.name);
+          if (report.checked > 0 || report.failed.length > 0) {
+            console.log(
+              `🔄 ${collection.name}: ${report.updated} documents mis à jour, ${report.unchanged} inchangés, ` +
+              `${report.failed.length} échecs`
+            );
+          }
+        } catch (error: any) {
+          console.error(`❌ Rafraîchissement de ${collection.name} impossible: ${error.message}`);
+        }
+      }
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  private async _describeCollection(collection: Collection): Promise<CollectionInfo> {
+    const stats = await collection.vectorStore.getStats();
+    return {
+      name: collection.name,
+      active: collection.name === this.activeCollection,
+      overrides: collection.overrides,
+      createdAt: collection.createdAt,
+      totalChunks: stats.totalChunks,
+      embedding: collection.embedding,
+      reembed: collection.reembed
+    };
+  }
+
+  private _createEmbeddingCache(): EmbeddingCache | null {
+    const options = this.config.embeddingCache ?? {};
+    if (options.enabled === false) return null;
+
+    const persistPath = this.config.vectorStore.persistPath;
+    return new EmbeddingCache({
+      path: options.path ?? (persistPath ? path.join(persistPath, 'embedding-cache.sqlite') : ':memory:'),
+      maxEntries: options.maxEntries ?? 50000
+    });
+  }
+
+  private get _manifestPath(): string | null {
+    const persistPath = this.config.vectorStore.persistPath;
+    return persistPath ? path.join(persistPath, 'collections.json') : null;
+  }
+
+  /**
+   * Recharge la liste des collections puis le contenu de chacune. Une collection vide
+   * adopte directement le modèle courant; une migration interrompue est reprise.
+   */
+  private async _loadCollections(current: EmbeddingInfo): Promise<void> {
+    const manifestPath = this._manifestPath;
+    const manifest = manifestPath ? await readJsonFile<CollectionManifest>(manifestPath) : null;
+    const entries = manifest?.collections ?? [];
+
+    if (!entries.some(entry => entry.name === DEFAULT_COLLECTION)) {
+      entries.unshift({ name: DEFAULT_COLLECTION, overrides: {}, createdAt: new Date().toISOString() });
+    }
+
+    for (const entry of entries) {
+      // Les stores antérieurs au suivi du modèle ont été construits avec le modèle configuré
+      const recorded = entry.embedding ?? { model: current.model, dimensions: this.config.vectorStore.dimensions ?? current.dimensions };
+      const generation = entry.generation ?? 0;
+
+      let collection = this._buildCollection(entry.name, entry.overrides, new Date(entry.createdAt), recorded, generation);
+      await collection.vectorStore.load();
+      let chunks = await collection.vectorStore.listChunks();
+
+      const stale = !this._sameEmbedding(recorded, current);
+      if (stale && chunks.length === 0 && !entry.reembed) {
+        await collection.vectorStore.close();
+        collection = this._buildCollection(entry.name, entry.overrides, new Date(entry.createdAt), current, generation);
+        await collection.vectorStore.load();
+        chunks = [];
+      }
+
+      await collection.registry.load(chunks);
+      this.collections.set(entry.name, collection);
+
+      if (entry.reembed) {
+        console.log(`🔁 Reprise de la migration de ${entry.name} vers ${entry.reembed.model}`);
+        this._startReembed(collection, entry.reembed);
+      } else if (stale && chunks.length > 0) {
+        console.warn(
+          `⚠️ Collection ${entry.name} indexée avec ${recorded.model} (${recorded.dimensions} dimensions), ` +
+          `modèle configuré: ${current.model}. Lancez "reembed" pour migrer.`
+        );
+      }
+    }
+
+    await this._saveManifest();
+  }
+
+  /**
+   * Les écritures du manifeste sont sérialisées (une migration peut le réécrire en arrière-plan)
+   */
+  private _saveManifest(): Promise<void> {
+    const manifestPath = this._manifestPath;
+    if (!manifestPath) return Promise.resolve();
+
+    const write = this.manifestQueue.then(() => this._writeManifest(manifestPath));
+    this.manifestQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  private async _writeManifest(manifestPath: string): Promise<void> {
+    const manifest: CollectionManifest = {
+      version: 2,
+      collections: Array.from(this.collections.values()).map(collection => ({
+        name: collection.name,
+        overrides: collection.overrides,
+        createdAt: collection.createdAt.toISOString(),
+        embedding: collection.embedding,
+        generation: collection.generation,
+        reembed: collection.reembed && collection.reembed.state !== 'completed' ? collection.reembed.to : undefined
+      }))
+    };
+
+    await fs.mkdir(path.dirname(manifestPath), { recursive: true });
+    await writeFileAtomic(manifestPath, JSON.stringify(manifest, null, 2));
+  }
+}
@@ -0,0 +1,167 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Chunk, DocumentRecord } from '../types/rag';
+import { documentIdOf, documentMetadata } from '../utils/documents';
+import { contentHash } from '../utils/dedup';
+import { readJsonFile, writeFileAtomic } from '../utils/files';
+
+interface RegistryFile {
+  version: number;
+  documents: DocumentRecord[];
+}
+
+const REGISTRY_VERSION = 1;
+
+/**
+ * Registre des documents d'une collection, persisté dans un fichier JSON réécrit
+ * atomiquement (en mémoire uniquement si aucun chemin n'est fourni)
+ */
+export class DocumentRegistry {
+  private readonly filePath: string | null;
+  private documents: Map<string, DocumentRecord> = new Map();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string | null) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Charge le registre puis le réconcilie avec les chunks du store
+   */
+  async load(chunks: Chunk[]): Promise<void> {
+    const file = this.filePath ? await readJsonFile<RegistryFile>(this.filePath) : null;
+
+    this.documents.clear();
+    for (const record of file?.documents ?? []) {
+      this.documents.set(record.id, this._revive(record));
+    }
+
+    await this.reconcile(chunks);
+  }
+
+  /**
+   * Aligne le registre sur le contenu du store: les chunks sans document enregistré
+   * (store antérieur au registre, crash entre les deux écritures) sont rattachés à un
+   * document reconstitué, les chunks disparus sont oubliés
+   */
+  async reconcile(chunks: Chunk[]): Promise<void> {
+    const existing = new Set(chunks.map(chunk => chunk.id));
+    let changed = false;
+
+    for (const record of this.documents.values()) {
+      const chunkIds = record.chunkIds.filter(id => existing.has(id));
+      if (chunkIds.length !== record.chunkIds.length) {
+        record.chunkIds = chunkIds;
+        changed = true;
+      }
+    }
+
+    const orphans = new Map<string, Chunk[]>();
+    for (const chunk of chunks) {
+      const documentId = documentIdOf(chunk);
+      const record = this.documents.get(documentId);
+      if (record?.chunkIds.includes(chunk.id)) continue;
+
+      if (record) {
+        record.chunkIds.push(chunk.id);
+        changed = true;
+      } else {
+        orphans.set(documentId, [...(orphans.get(documentId) ?? []), chunk]);
+      }
+    }
+
+    for (const [documentId, documentChunks] of orphans.entries()) {
+      documentChunks.sort((a, b) => (a.metadata.chunkIndex ?? 0) - (b.metadata.chunkIndex ?? 0));
+      this.documents.set(documentId, {
+        id: documentId,
+        metadata: documentMetadata(documentChunks[0].metadata),
+        chunkIds: documentChunks.map(chunk => chunk.id),
+        // Le contenu d'origine n'est plus disponible: empreinte des chunks concaténés
+        contentHash: contentHash(documentChunks.map(chunk => chunk.content).join(' ')),
+        ingestedAt: documentChunks[0].metadata.timestamp
+      });
+      changed = true;
+    }
+
+    if (changed) {
+      await this._save();
+    }
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  get(id: string): DocumentRecord | undefined {
+    return this.documents.get(id);
+  }
+
+  list(): DocumentRecord[] {
+    return Array.from(this.documents.values());
+  }
+
+  /**
+   * Documents dont l'url ou le titre correspond à la source
+   */
+  findBySource(source: string): DocumentRecord[] {
+    return this.list().filter(record => record.metadata.url === source || record.metadata.title === source);
+  }
+
+  async upsert(records: DocumentRecord[]): Promise<void> {
+    records.forEach(record => this.documents.set(record.id, record));
+    await this._save();
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    ids.forEach(id => this.documents.delete(id));
+    await this._save();
+  }
+
+  /**
+   * Oublie des chunks supprimés du store (nouvelle version, remplacement par un doublon);
+   * un document qui n'a plus aucun chunk est retiré
+   */
+  async detachChunks(chunkIds: string[]): Promise<void> {
+    if (chunkIds.length === 0) return;
+
+    const removed = new Set(chunkIds);
+    for (const record of this.list()) {
+      const chunkIds = record.chunkIds.filter(id => !removed.has(id));
+      if (chunkIds.length === 0 && record.chunkIds.length > 0) {
+        this.documents.delete(record.id);
+      }
+      record.chunkIds = chunkIds;
+    }
+    await this._save();
+  }
+
+  async clear(): Promise<void> {
+    this.documents.clear();
+    await this._save();
+  }
+
+  /**
+   * Les écritures sont sérialisées: chaque sauvegarde réécrit l'état courant complet
+   */
+  private _save(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) return Promise.resolve();
+
+    const write = this.queue.then(async () => {
+      const file: RegistryFile = { version: REGISTRY_VERSION, documents: this.list() };
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await writeFileAtomic(filePath, JSON.stringify(file));
+    });
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  private _revive(record: DocumentRecord): DocumentRecord {
+    return {
+      ...record,
+      metadata: { ...record.metadata, timestamp: new Date(record.metadata.timestamp) },
+      ingestedAt: new Date(record.ingestedAt),
+      updatedAt: record.updatedAt ? new Date(record.updatedAt) : undefined
+    };
+  }
+}
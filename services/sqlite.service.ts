@@ -0,0 +1,266 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Chunk, VectorStoreConfig } from '../types/rag';
+import { ScoredChunk, VectorSearchOptions, VectorStoreBackend, VectorStoreStats } from '../types/vectorStore';
+import { matchesFilter } from '../utils/filters';
+import { tokenize } from '../utils/stopwords';
+import { dot, norm, similarityFromDot, toFloat32 } from '../utils/vectors';
+
+interface ChunkRow {
+  id: string;
+  content: string;
+  metadata: string;
+  embedding: Buffer;
+  norm: number;
+}
+
+/**
+ * Backend SQLite: un fichier unique, écritures transactionnelles (WAL),
+ * recherche vectorielle exacte et recherche lexicale via FTS5
+ */
+export class SQLiteVectorStore implements VectorStoreBackend {
+  private readonly config: VectorStoreConfig;
+  private readonly filePath: string;
+  private db: Database.Database | null = null;
+
+  constructor(config: VectorStoreConfig) {
+    this.config = config;
+    this.filePath = config.sqlitePath
+      ?? (config.persistPath ? path.join(config.persistPath, 'store.sqlite') : ':memory:');
+  }
+
+  async load(): Promise<void> {
+    if (this.db) return;
+
+    if (this.filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    }
+
+    const db = new Database(this.filePath);
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS chunks (
+        id TEXT PRIMARY KEY,
+        content TEXT NOT NULL,
+        metadata TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        norm REAL NOT NULL
+      );
+      CREATE VIRTUAL TABLE IF NOT EXISTS chunks_fts USING fts5(terms, id UNINDEXED);
+      CREATE TABLE IF NOT EXISTS store_info (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+      CREATE INDEX IF NOT EXISTS chunks_content_hash ON chunks (json_extract(metadata, '$.contentHash'));
+    `);
+
+    // Une base vide peut changer de dimensions (nouveau modèle d'embedding)
+    const stored = db.prepare(`SELECT value FROM store_info WHERE key = 'dimensions'`).get() as { value: string } | undefined;
+    const { count } = db.prepare(`SELECT COUNT(*) AS count FROM chunks`).get() as { count: number };
+    if (stored && count > 0 && Number(stored.value) !== this.config.dimensions) {
+      db.close();
+      throw new Error(`Base SQLite créée avec ${stored.value} dimensions, ${this.config.dimensions} attendues`);
+    }
+    db.prepare(`INSERT OR REPLACE INTO store_info (key, value) VALUES ('dimensions', ?)`).run(String(this.config.dimensions));
+
+    this.db = db;
+  }
+
+  async addChunks(chunks: Chunk[]): Promise<void> {
+    for (const chunk of chunks) {
+      if (!chunk.embedding) {
+        throw new Error(`Chunk ${chunk.id} n'a pas d'embedding`);
+      }
+
+      if (chunk.embedding.length !== this.config.dimensions) {
+        throw new Error(`Dimension embedding incorrecte pour chunk ${chunk.id}`);
+      }
+    }
+
+    const db = this._db();
+    const upsert = db.prepare(
+      `INSERT OR REPLACE INTO chunks (id, content, metadata, embedding, norm) VALUES (?, ?, ?, ?, ?)`
+    );
+    const deleteTerms = db.prepare(`DELETE FROM chunks_fts WHERE id = ?`);
+    const insertTerms = db.prepare(`INSERT INTO chunks_fts (terms, id) VALUES (?, ?)`);
+
+    db.transaction(() => {
+      for (const chunk of chunks) {
+        const vector = toFloat32(chunk.embedding!);
+        upsert.run(
+          chunk.id,
+          chunk.content,
+          JSON.stringify(chunk.metadata),
+          Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength),
+          norm(vector)
+        );
+        deleteTerms.run(chunk.id);
+        insertTerms.run(tokenize(chunk.content).join(' '), chunk.id);
+      }
+    })();
+  }
+
+  async search(
+    queryEmbedding: number[],
+    topK: number = 5,
+    threshold: number = 0.7,
+    options: VectorSearchOptions = {}
+  ): Promise<ScoredChunk[]> {
+    if (queryEmbedding.length !== this.config.dimensions) {
+      throw new Error('Dimension du query embedding incorrecte');
+    }
+
+    const query = toFloat32(queryEmbedding);
+    const queryNorm = norm(query);
+    const candidates: Array<{ row: ChunkRow; score: number }> = [];
+
+    const rows = this._db().prepare(`SELECT id, content, metadata, embedding, norm FROM chunks`).iterate() as IterableIterator<ChunkRow>;
+    for (const row of rows) {
+      if (options.filter && !matchesFilter(this._parseMetadata(row.metadata), options.filter)) continue;
+
+      const score = similarityFromDot(this.config.similarity, dot(query, this._decodeVector(row.embedding)), queryNorm, row.norm);
+      if (score >= threshold) {
+        candidates.push({ row, score });
+      }
+    }
+
+    return candidates
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map(candidate => ({ ...this._toChunk(candidate.row), similarity: candidate.score }));
+  }
+
+  async lexicalSearch(
+    query: string,
+    topK: number = 5,
+    options: Pick<VectorSearchOptions, 'filter'> = {}
+  ): Promise<ScoredChunk[]> {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return [];
+
+    const match = terms.map(term => `"${term.replace(/"/g, '""')}"`).join(' OR ');
+    const rows = this._db().prepare(`
+      SELECT c.id, c.content, c.metadata, c.embedding, c.norm, -bm25(chunks_fts) AS score
+      FROM chunks_fts JOIN chunks c ON c.id = chunks_fts.id
+      WHERE chunks_fts MATCH ?
+      ORDER BY score DESC
+    `).iterate(match) as IterableIterator<ChunkRow & { score: number }>;
+
+    const results: Array<{ row: ChunkRow; score: number }> = [];
+    for (const row of rows) {
+      if (options.filter && !matchesFilter(this._parseMetadata(row.metadata), options.filter)) continue;
+      results.push({ row, score: row.score });
+      if (results.length >= topK) break;
+    }
+
+    const bestScore = results[0]?.score || 1;
+    return results.map(result => ({ ...this._toChunk(result.row), similarity: result.score / bestScore }));
+  }
+
+  async removeChunks(chunkIds: string[]): Promise<void> {
+    const db = this._db();
+    const deleteChunk = db.prepare(`DELETE FROM chunks WHERE id = ?`);
+    const deleteTerms = db.prepare(`DELETE FROM chunks_fts WHERE id = ?`);
+
+    db.transaction(() => {
+      for (const id of chunkIds) {
+        deleteChunk.run(id);
+        deleteTerms.run(id);
+      }
+    })();
+  }
+
+  async removeBySource(source: string): Promise<void> {
+    const rows = this._db().prepare(`
+      SELECT id FROM chunks
+      WHERE json_extract(metadata, '$.url') = ? OR json_extract(metadata, '$.title') = ?
+    `).all(source, source) as Array<{ id: string }>;
+
+    await this.removeChunks(rows.map(row => row.id));
+  }
+
+  async getChunk(id: string): Promise<Chunk | undefined> {
+    const row = this._db().prepare(`SELECT id, content, metadata, embedding, norm FROM chunks WHERE id = ?`).get(id) as ChunkRow | undefined;
+    return row ? this._toChunk(row) : undefined;
+  }
+
+  async findByContentHash(hashes: string[]): Promise<Chunk[]> {
+    if (hashes.length === 0) return [];
+
+    const select = this._db().prepare(
+      `SELECT id, content, metadata, embedding, norm FROM chunks WHERE json_extract(metadata, '$.contentHash') = ?`
+    );
+    return Array.from(new Set(hashes))
+      .flatMap(hash => select.all(hash) as ChunkRow[])
+      .map(row => this._toChunk(row));
+  }
+
+  async listChunks(): Promise<Chunk[]> {
+    const rows = this._db().prepare(`SELECT id, content, metadata, embedding, norm FROM chunks`).all() as ChunkRow[];
+    return rows.map(row => this._toChunk(row));
+  }
+
+  async getStats(): Promise<VectorStoreStats> {
+    const db = this._db();
+    const totals = db.prepare(`
+      SELECT COUNT(*) AS count, COALESCE(SUM(LENGTH(embedding)), 0) AS vectorBytes, COALESCE(SUM(LENGTH(content)), 0) AS contentBytes
+      FROM chunks
+    `).get() as { count: number; vectorBytes: number; contentBytes: number };
+
+    const sources = db.prepare(`
+      SELECT COALESCE(json_extract(metadata, '$.url'), json_extract(metadata, '$.title'), 'unknown') AS source, COUNT(*) AS count
+      FROM chunks GROUP BY source
+    `).all() as Array<{ source: string; count: number }>;
+
+    return {
+      totalChunks: totals.count,
+      sources,
+      dimensions: this.config.dimensions,
+      memory: {
+        vectorBytes: totals.vectorBytes,
+        quantizedBytes: 0,
+        contentBytes: totals.contentBytes,
+        totalBytes: totals.vectorBytes + totals.contentBytes
+      }
+    };
+  }
+
+  async clear(): Promise<void> {
+    const db = this._db();
+    db.transaction(() => {
+      db.exec(`DELETE FROM chunks; DELETE FROM chunks_fts;`);
+    })();
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private _db(): Database.Database {
+    if (!this.db) {
+      throw new Error('Base SQLite non ouverte: appelez load() avant utilisation');
+    }
+    return this.db;
+  }
+
+  private _toChunk(row: ChunkRow): Chunk {
+    return {
+      id: row.id,
+      content: row.content,
+      metadata: this._parseMetadata(row.metadata),
+      embedding: Array.from(this._decodeVector(row.embedding))
+    };
+  }
+
+  private _parseMetadata(raw: string): Chunk['metadata'] {
+    const metadata = JSON.parse(raw);
+    return { ...metadata, timestamp: new Date(metadata.timestamp) };
+  }
+
+  private _decodeVector(buffer: Buffer): Float32Array {
+    // Un Buffer peut provenir d'un pool non aligné sur 4 octets: on copie dans ce cas
+    if (buffer.byteOffset % 4 === 0) {
+      return new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4);
+    }
+    return new Float32Array(Uint8Array.from(buffer).buffer);
+  }
+}
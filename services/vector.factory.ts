@@ -0,0 +1,18 @@
+import { VectorStoreConfig } from '../types/rag';
+import { VectorStoreBackend } from '../types/vectorStore';
+import { VectorStore } from './vector.service';
+import { SQLiteVectorStore } from './sqlite.service';
+
+/**
+ * Instancie le backend de stockage vectoriel choisi dans la configuration
+ */
+export function createVectorStore(config: VectorStoreConfig): VectorStoreBackend {
+  switch (config.backend ?? 'memory') {
+    case 'memory':
+      return new VectorStore(config);
+    case 'sqlite':
+      return new SQLiteVectorStore(config);
+    default:
+      throw new Error(`Backend de stockage non supporté: ${config.backend}`);
+  }
+}
@@ -1,11 +1,66 @@
 import { Chunk, VectorStoreConfig } from '../types/rag';
+import { ScoredChunk, VectorSearchOptions, VectorStoreBackend, VectorStoreStats } from '../types/vectorStore';
+import { VectorPersistence } from './persistence.service';
+import { HNSWIndex } from '../utils/hnsw';
+import { matchesFilter } from '../utils/filters';
+import { BM25Index } from '../utils/bm25';
+import { dot, dotInt8, norm, quantizeInt8, QuantizedVector, similarityFromDot, toFloat32 } from '../utils/vectors';
 
-export class VectorStore {
+/**
+ * Représentation interne d'un vecteur: pleine précision en Float32Array,
+ * norme précalculée et codes int8 optionnels pour le premier passage
+ */
+interface StoredVector {
+  vector: Float32Array;
+  norm: number;
+  quantized?: QuantizedVector;
+}
+
+/**
+ * Backend en mémoire, avec persistance optionnelle (snapshot + journal)
+ */
+export class VectorStore implements VectorStoreBackend {
+  // Les chunks sont conservés sans embedding: les vecteurs vivent dans `vectors`
   private chunks: Map<string, Chunk> = new Map();
+  private vectors: Map<string, StoredVector> = new Map();
   private readonly config: VectorStoreConfig;
+  private readonly persistence?: VectorPersistence;
+  private readonly index?: HNSWIndex;
+  private readonly lexicalIndex = new BM25Index();
 
   constructor(config: VectorStoreConfig) {
     this.config = config;
+    if (config.persistPath) {
+      this.persistence = new VectorPersistence(config.persistPath, config.compactionThreshold);
+    }
+    if (config.index?.type === 'hnsw') {
+      this.index = new HNSWIndex(
+        {
+          m: config.index.m ?? 16,
+          efConstruction: config.index.efConstruction ?? 200,
+          efSearch: config.index.efSearch ?? 64
+        },
+        (a, b) => this._similarity(this.vectors.get(a)!, this.vectors.get(b)!)
+      );
+    }
+  }
+
+  /**
+   * Charge le contenu persisté sur disque (sans effet en mode mémoire)
+   */
+  async load(): Promise<void> {
+    if (!this.persistence) return;
+
+    const chunks = await this.persistence.load();
+    this.chunks.clear();
+    this.vectors.clear();
+
+    // Les index ne sont pas persistés: ils sont reconstruits à partir des chunks chargés
+    this.index?.clear();
+    this.lexicalIndex.clear();
+    for (const chunk of chunks) {
+      this._insert(chunk);
+    }
   }
 
   /**
@@ -20,47 +75,101 @@ export class VectorStore {
       if (chunk.embedding.length !== this.config.dimensions) {
         throw new Error(`Dimension embedding incorrecte pour chunk ${chunk.id}`);
       }
+    }
 
-      this.chunks.set(chunk.id, chunk);
+    await this.persistence?.append({ op: 'add', chunks });
+    for (const chunk of chunks) {
+      this._insert(chunk);
     }
+    await this._maybeCompact();
   }
 
   /**
    * Recherche les chunks les plus similaires
    */
-  async search(queryEmbedding: number[], topK: number = 5, threshold: number = 0.7): Promise<Array<Chunk & { similarity: number }>> {
+  async search(
+    queryEmbedding: number[],
+    topK: number = 5,
+    threshold: number = 0.7,
+    options: VectorSearchOptions = {}
+  ): Promise<ScoredChunk[]> {
     if (queryEmbedding.length !== this.config.dimensions) {
       throw new Error('Dimension du query embedding incorrecte');
     }
 
-    const results: Array<Chunk & { similarity: number }> = [];
+    const query = this._prepare(toFloat32(queryEmbedding));
 
-    for (const chunk of this.chunks.values()) {
-      if (!chunk.embedding) continue;
+    if (this._useIndex(options)) {
+      return this.index!
+        .search(id => this._similarity(query, this.vectors.get(id)!), topK, options.efSearch)
+        .filter(result => result.score >= threshold)
+        .map(result => this._withSimilarity(result.id, result.score));
+    }
 
-      const similarity = this._calculateSimilarity(queryEmbedding, chunk.embedding);
-      
-      if (similarity >= threshold) {
-        results.push({
-          ...chunk,
-          similarity
-        });
-      }
+    const candidates: Array<{ id: string; score: number }> = [];
+
+    for (const [id, chunk] of this.chunks.entries()) {
+      if (options.filter && !matchesFilter(chunk.metadata, options.filter)) continue;
+
+      const stored = this.vectors.get(id)!;
+      const score = query.quantized && stored.quantized
+        ? similarityFromDot(this.config.similarity, dotInt8(query.quantized, stored.quantized), query.norm, stored.norm)
+        : this._similarity(query, stored);
+
+      candidates.push({ id, score });
     }
 
+    candidates.sort((a, b) => b.score - a.score);
+
+    // En mode int8, les meilleurs candidats sont re-scorés en pleine précision
+    const rescored = query.quantized
+      ? candidates
+        .slice(0, topK * (this.config.rescoreMultiplier ?? 4))
+        .map(candidate => ({ id: candidate.id, score: this._similarity(query, this.vectors.get(candidate.id)!) }))
+        .sort((a, b) => b.score - a.score)
+      : candidates;
+
     // Trie par similarité décroissante et prend les topK
-    return results
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, topK);
+    return rescored
+      .filter(candidate => candidate.score >= threshold)
+      .slice(0, topK)
+      .map(candidate => this._withSimilarity(candidate.id, candidate.score));
+  }
+
+  /**
+   * Recherche lexicale BM25. La similarité retournée est le score normalisé par le meilleur score.
+   */
+  async lexicalSearch(
+    query: string,
+    topK: number = 5,
+    options: Pick<VectorSearchOptions, 'filter'> = {}
+  ): Promise<ScoredChunk[]> {
+    const filter = options.filter;
+    const predicate = filter
+      ? (id: string) => matchesFilter(this.chunks.get(id)!.metadata, filter)
+      : undefined;
+
+    const results = this.lexicalIndex.search(query, topK, predicate);
+    const bestScore = results[0]?.score || 1;
+
+    return results.map(result => this._withSimilarity(result.id, result.score / bestScore));
   }
 
   /**
    * Supprime des chunks par ID
    */
   async removeChunks(chunkIds: string[]): Promise<void> {
-    for (const id of chunkIds) {
+    const existing = chunkIds.filter(id => this.chunks.has(id));
+    if (existing.length === 0) return;
+
+    await this.persistence?.append({ op: 'remove', ids: existing });
+    for (const id of existing) {
       this.chunks.delete(id);
+      this.vectors.delete(id);
+      this.index?.remove(id);
+      this.lexicalIndex.remove(id);
     }
+    await this._maybeCompact();
   }
 
   /**
@@ -82,35 +191,63 @@ export class VectorStore {
    * Obtient un chunk par ID
    */
   async getChunk(id: string): Promise<Chunk | undefined> {
-    return this.chunks.get(id);
+    return this.chunks.has(id) ? this._materialize(id) : undefined;
+  }
+
+  /**
+   * Retrouve les chunks par empreinte de contenu
+   */
+  async findByContentHash(hashes: string[]): Promise<Chunk[]> {
+    const wanted = new Set(hashes);
+    const ids: string[] = [];
+
+    for (const [id, chunk] of this.chunks.entries()) {
+      if (chunk.metadata.contentHash && wanted.has(chunk.metadata.contentHash)) {
+        ids.push(id);
+      }
+    }
+
+    return ids.map(id => this._materialize(id));
   }
 
   /**
    * Liste tous les chunks
    */
   async listChunks(): Promise<Chunk[]> {
-    return Array.from(this.chunks.values());
+    return Array.from(this.chunks.keys()).map(id => this._materialize(id));
   }
 
   /**
    * Obtient les statistiques du store
    */
-  async getStats(): Promise<{
-    totalChunks: number;
-    sources: Array<{ source: string; count: number }>;
-    dimensions: number;
-  }> {
+  async getStats(): Promise<VectorStoreStats> {
     const sources = new Map<string, number>();
+    let contentBytes = 0;
     
     for (const chunk of this.chunks.values()) {
       const source = chunk.metadata.url || chunk.metadata.title || 'unknown';
       sources.set(source, (sources.get(source) || 0) + 1);
+      // Les chaînes JS sont en UTF-16
+      contentBytes += chunk.content.length * 2;
+    }
+
+    let vectorBytes = 0;
+    let quantizedBytes = 0;
+    for (const stored of this.vectors.values()) {
+      vectorBytes += stored.vector.byteLength + 8;
+      quantizedBytes += stored.quantized ? stored.quantized.codes.byteLength + 8 : 0;
     }
 
     return {
       totalChunks: this.chunks.size,
       sources: Array.from(sources.entries()).map(([source, count]) => ({ source, count })),
-      dimensions: this.config.dimensions
+      dimensions: this.config.dimensions,
+      memory: {
+        vectorBytes,
+        quantizedBytes,
+        contentBytes,
+        totalBytes: vectorBytes + quantizedBytes + contentBytes
+      }
     };
   }
 
@@ -119,42 +256,75 @@ export class VectorStore {
    */
   async clear(): Promise<void> {
     this.chunks.clear();
+    this.vectors.clear();
+    this.index?.clear();
+    this.lexicalIndex.clear();
+    // Un snapshot vide remplace directement le journal
+    await this.persistence?.compact([]);
+  }
+
+  async close(): Promise<void> {
+    // Chaque écriture du journal est déjà synchronisée: rien à libérer
   }
 
   /**
-   * Calcule la similarité entre deux vecteurs
+   * Mesure le rappel de l'index ANN par rapport à la recherche exacte pour une requête
    */
-  private _calculateSimilarity(vec1: number[], vec2: number[]): number {
-    switch (this.config.similarity) {
-      case 'cosine':
-        return this._cosineSimilarity(vec1, vec2);
-      case 'euclidean':
-        return this._euclideanSimilarity(vec1, vec2);
-      case 'dot':
-        return this._dotProduct(vec1, vec2);
-      default:
-        throw new Error(`Méthode de similarité non supportée: ${this.config.similarity}`);
-    }
+  async measureRecall(queryEmbedding: number[], topK: number = 10): Promise<number> {
+    const exact = await this.search(queryEmbedding, topK, -Infinity, { exact: true });
+    if (exact.length === 0) return 1;
+
+    const approximate = await this.search(queryEmbedding, topK, -Infinity);
+    const approximateIds = new Set(approximate.map(result => result.id));
+    return exact.filter(result => approximateIds.has(result.id)).length / exact.length;
   }
 
-  private _cosineSimilarity(vec1: number[], vec2: number[]): number {
-    const dotProduct = vec1.reduce((sum, val, i) => sum + val * vec2[i], 0);
-    const magnitude1 = Math.sqrt(vec1.reduce((sum, val) => sum + val * val, 0));
-    const magnitude2 = Math.sqrt(vec2.reduce((sum, val) => sum + val * val, 0));
-    
-    if (magnitude1 === 0 || magnitude2 === 0) return 0;
-    return dotProduct / (magnitude1 * magnitude2);
+  private _insert(chunk: Chunk): void {
+    const { embedding, ...rest } = chunk;
+    this.chunks.set(chunk.id, rest);
+    this.vectors.set(chunk.id, this._prepare(toFloat32(embedding!)));
+    this.index?.add(chunk.id);
+    this.lexicalIndex.add(chunk.id, chunk.content);
+  }
+
+  private _prepare(vector: Float32Array): StoredVector {
+    return {
+      vector,
+      norm: norm(vector),
+      quantized: this.config.quantization === 'int8' ? quantizeInt8(vector) : undefined
+    };
+  }
+
+  /**
+   * Reconstruit le chunk public avec son embedding en number[]
+   */
+  private _materialize(id: string): Chunk {
+    return {
+      ...this.chunks.get(id)!,
+      embedding: Array.from(this.vectors.get(id)!.vector)
+    };
+  }
+
+  private _withSimilarity(id: string, similarity: number): ScoredChunk {
+    return { ...this._materialize(id), similarity };
+  }
+
+  private _useIndex(options: VectorSearchOptions): boolean {
+    // Avec un filtre, le parcours exact du sous-ensemble filtré garantit le rappel
+    if (!this.index || options.exact || options.filter) return false;
+    return this.chunks.size >= (this.config.index?.minSize ?? 1000);
   }
 
-  private _euclideanSimilarity(vec1: number[], vec2: number[]): number {
-    const distance = Math.sqrt(
-      vec1.reduce((sum, val, i) => sum + Math.pow(val - vec2[i], 2), 0)
-    );
-    // Convertit la distance en similarité (plus proche de 1 = plus similaire)
-    return 1 / (1 + distance);
+  private async _maybeCompact(): Promise<void> {
+    if (this.persistence?.shouldCompact()) {
+      await this.persistence.compact(await this.listChunks());
+    }
   }
 
-  private _dotProduct(vec1: number[], vec2: number[]): number {
-    return vec1.reduce((sum, val, i) => sum + val * vec2[i], 0);
+  /**
+   * Calcule la similarité en pleine précision entre deux vecteurs
+   */
+  private _similarity(a: StoredVector, b: StoredVector): number {
+    return similarityFromDot(this.config.similarity, dot(a.vector, b.vector), a.norm, b.norm);
   }
-}
\ No newline at end of file
+}
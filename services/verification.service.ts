@@ -0,0 +1,82 @@
+import { ClaimVerdict, ClaimVerification, RAGConfig } from '../types/rag';
+import { EmbeddingProvider, GenerationProvider } from '../types/provider';
+import { AnswerClaim, splitClaims } from '../utils/claims';
+import { cosineSimilarity } from '../utils/dedup';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { buildEntailmentMessages, parseJudgement } from '../utils/prompts';
+
+/**
+ * Vérification d'une réponse: chaque affirmation est rapprochée des sources par similarité
+ * d'embeddings, puis le modèle juge si les sources les plus proches l'appuient ou la contredisent
+ */
+export class AnswerVerifier {
+  private readonly generator: GenerationProvider;
+  private readonly embedder: EmbeddingProvider;
+  private readonly config: Required<NonNullable<RAGConfig['verification']>>;
+
+  constructor(generator: GenerationProvider, embedder: EmbeddingProvider, config: RAGConfig['verification'] = {}) {
+    this.generator = generator;
+    this.embedder = embedder;
+    this.config = {
+      enabled: config.enabled ?? false,
+      minSimilarity: config.minSimilarity ?? 0.5,
+      evidenceCount: config.evidenceCount ?? 3,
+      concurrency: config.concurrency ?? 2
+    };
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Affirmations de la réponse, pour annoncer la vérification avant de la lancer
+   */
+  claims(answer: string): AnswerClaim[] {
+    return splitClaims(answer);
+  }
+
+  /**
+   * Verdict de chaque affirmation; sources contient le texte des sources, dans l'ordre
+   * de leurs numéros de citation
+   */
+  async verify(claims: AnswerClaim[], sources: string[]): Promise<ClaimVerification[]> {
+    if (claims.length === 0 || sources.length === 0) return [];
+
+    const embeddings = await this.embedder.generateEmbeddings([...claims.map(claim => claim.text), ...sources]);
+    const sourceEmbeddings = embeddings.slice(claims.length);
+
+    return mapWithConcurrency(claims, this.config.concurrency, async (claim, index): Promise<ClaimVerification> => {
+      const ranked = sourceEmbeddings
+        .map((embedding, sourceIndex) => ({ sourceIndex, similarity: cosineSimilarity(embeddings[index], embedding) }))
+        .sort((a, b) => b.similarity - a.similarity);
+      const similarity = ranked[0].similarity;
+
+      const cited = claim.markers.map(marker => marker - 1).filter(sourceIndex => sourceIndex >= 0 && sourceIndex < sources.length);
+      const closest = ranked.map(rank => rank.sourceIndex).filter(sourceIndex => !cited.includes(sourceIndex));
+      const sourceIndices = [...cited, ...closest.slice(0, Math.max(0, this.config.evidenceCount - cited.length))];
+
+      const verification = { claim: claim.text, start: claim.start, end: claim.end, sourceIndices, similarity };
+
+      // Aucune source proche ni citée: inutile d'interroger le modèle
+      if (cited.length === 0 && similarity < this.config.minSimilarity) {
+        return { ...verification, verdict: 'unsupported', explanation: 'Aucune source ne traite de cette affirmation' };
+      }
+
+      return { ...verification, ...await this._judge(claim.text, sourceIndices.map(sourceIndex => sources[sourceIndex])) };
+    });
+  }
+
+  /**
+   * Jugement de chaque extrait pris isolément: appuie l'affirmation (supported),
+   * la contredit (contradicted) ou n'en dit rien (unsupported)
+   */
+  async classifyEvidence(claim: string, passages: string[]): Promise<Array<{ verdict: ClaimVerdict; explanation?: string }>> {
+    return mapWithConcurrency(passages, this.config.concurrency, passage => this._judge(claim, [passage]));
+  }
+
+  private async _judge(claim: string, evidence: string[]): Promise<{ verdict: ClaimVerdict; explanation?: string }> {
+    const judgement = await this.generator.generateResponse(buildEntailmentMessages(claim, evidence));
+    return parseJudgement(judgement);
+  }
+}
@@ -0,0 +1,133 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Chunk, Document, DocumentRecord } from '../types/rag';
+import { RAGService } from '../services/rag.service';
+import { buildArchive, decodeVector, encodeVector, parseArchive } from '../utils/archive';
+import { FAKE_DIMENSIONS, FakeOllama, startFakeOllama } from './fakeOllama';
+
+const HEADER = {
+  collection: 'default',
+  embedding: { model: 'nomic-embed-text', dimensions: 3, similarity: 'cosine' as const, encoding: 'float32-base64' as const }
+};
+
+function chunk(id: string, documentId: string, embedding: number[]): Chunk {
+  return {
+    id,
+    content: `Contenu ${id}`,
+    embedding,
+    metadata: { source: 'upload', title: documentId, documentId, chunkIndex: 0, timestamp: new Date('2024-02-01T00:00:00Z') }
+  };
+}
+
+function record(id: string, chunkIds: string[]): DocumentRecord {
+  return {
+    id,
+    metadata: { source: 'upload', title: id, timestamp: new Date('2024-02-01T00:00:00Z') },
+    chunkIds,
+    contentHash: `hash-${id}`,
+    ingestedAt: new Date('2024-02-02T00:00:00Z'),
+    updatedAt: new Date('2024-02-03T00:00:00Z')
+  };
+}
+
+describe('Format d\'archive', () => {
+  test('encodeVector / decodeVector conservent les valeurs float32', () => {
+    const vector = [0.5, -1.25, 3.1415927, 0];
+    assert.deepEqual(decodeVector(encodeVector(vector)), Array.from(Float32Array.from(vector)));
+  });
+
+  test('aller-retour buildArchive / parseArchive', () => {
+    const chunks = [chunk('doc-a_chunk_0', 'doc-a', [1, 0, 0]), chunk('doc-a_chunk_1', 'doc-a', [0, 1, 0]), chunk('doc-b_chunk_0', 'doc-b', [0, 0, 1])];
+    const documents = [record('doc-a', ['doc-a_chunk_0', 'doc-a_chunk_1']), record('doc-b', ['doc-b_chunk_0'])];
+    const { header, documents: parsedDocuments, chunks: parsed } = parseArchive(buildArchive(HEADER, documents, chunks).join('\n'));
+
+    assert.equal(header.documents, 2);
+    assert.equal(header.chunks, 3);
+    assert.deepEqual(parsedDocuments, documents);
+    assert.deepEqual(parsed, chunks);
+  });
+
+  test('rejette un format inconnu, une version future ou une archive tronquée', () => {
+    const lines = buildArchive(HEADER, [record('x', ['x_chunk_0'])], [chunk('x_chunk_0', 'x', [1, 0, 0])]);
+    const header = JSON.parse(lines[0]);
+
+    assert.throws(() => parseArchive(''), /vide/);
+    assert.throws(() => parseArchive(JSON.stringify({ ...header, format: 'autre' })), /non reconnu/);
+    assert.throws(() => parseArchive(JSON.stringify({ ...header, version: header.version + 1 })), /non supportée/);
+    assert.throws(() => parseArchive(lines.slice(0, -1).join('\n')), /incomplète/);
+    assert.throws(() => parseArchive(`${lines[0]}\n{"type":"chunk"`), /Ligne 2 invalide/);
+  });
+});
+
+describe('Export et import d\'une collection', () => {
+  let ollama: FakeOllama;
+
+  const createService = async (): Promise<RAGService> => {
+    const rag = new RAGService({
+      ollama: { baseUrl: ollama.baseUrl, model: 'llama3.2:latest' },
+      vectorStore: { dimensions: FAKE_DIMENSIONS, similarity: 'cosine' },
+      chunking: { maxChunkSize: 1000, overlap: 0 },
+      retrieval: { topK: 5, threshold: 0.5 }
+    });
+    await rag.initialize();
+    return rag;
+  };
+
+  const documents: Document[] = [
+    { id: 'rust', content: 'Rust garantit la sécurité mémoire sans ramasse-miettes.', metadata: { source: 'upload', title: 'rust.md', tags: ['langage'], timestamp: new Date('2024-01-10T00:00:00Z') } },
+    { id: 'cuisine', content: 'La ratatouille se prépare avec des courgettes et des aubergines.', metadata: { source: 'manual', title: 'Recettes', timestamp: new Date('2024-01-11T00:00:00Z') } }
+  ];
+
+  before(async () => {
+    ollama = await startFakeOllama();
+  });
+
+  after(async () => {
+    await ollama.close();
+  });
+
+  test('une collection importée est identique à la collection exportée', async () => {
+    const source = await createService();
+    await source.addDocuments(documents);
+    const archive = await source.exportCollection();
+
+    const target = await createService();
+    const embeddedBefore = ollama.embedded.length;
+    const report = await target.importCollection(archive);
+
+    assert.deepEqual(report, { collection: 'default', documents: 2, chunksImported: 2, reembedded: false });
+    assert.equal(ollama.embedded.length, embeddedBefore);
+    assert.deepEqual(parseArchive(await target.exportCollection()).chunks, parseArchive(archive).chunks);
+
+    const { sources } = await target.search({ query: 'ratatouille courgettes', topK: 1, threshold: 0 });
+    assert.equal(sources[0].metadata.title, 'Recettes');
+  });
+
+  test('un autre modèle d\'embedding est refusé, sauf avec reembed', async () => {
+    const source = await createService();
+    await source.addDocuments(documents);
+    const [header, ...rest] = (await source.exportCollection()).split('\n');
+    const foreign = [JSON.stringify({ ...JSON.parse(header), embedding: { ...JSON.parse(header).embedding, model: 'mxbai-embed-large' } }), ...rest].join('\n');
+
+    const target = await createService();
+    await assert.rejects(target.importCollection(foreign), /mxbai-embed-large/);
+    assert.equal((await target.getStats()).vectorStore.totalChunks, 0);
+
+    const report = await target.importCollection(foreign, { onEmbeddingMismatch: 'reembed' });
+    assert.equal(report.reembedded, true);
+    assert.equal((await target.getStats()).vectorStore.totalChunks, 2);
+  });
+
+  test('replace vide la collection avant l\'import', async () => {
+    const source = await createService();
+    await source.addDocuments(documents.slice(0, 1));
+    const archive = await source.exportCollection();
+
+    const target = await createService();
+    await target.addDocuments(documents.slice(1));
+    await target.importCollection(archive, { replace: true });
+
+    const stats = await target.getStats();
+    assert.deepEqual(stats.vectorStore.sources, [{ source: 'rust.md', count: 1 }]);
+  });
+});
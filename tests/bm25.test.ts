@@ -0,0 +1,51 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { BM25Index } from '../utils/bm25';
+
+function index(): BM25Index {
+  const bm25 = new BM25Index();
+  bm25.add('rust', 'Rust garantit la sécurité mémoire grâce au vérificateur d\'emprunts.');
+  bm25.add('python', 'Python est un langage interprété, populaire en science des données.');
+  bm25.add('go', 'Go est un langage compilé conçu pour la concurrence.');
+  return bm25;
+}
+
+describe('BM25Index', () => {
+  test('classe les documents contenant les termes de la requête', () => {
+    const results = index().search('sécurité mémoire', 5);
+    assert.deepEqual(results.map(result => result.id), ['rust']);
+    assert.ok(results[0].score > 0);
+  });
+
+  test('un terme rare pèse plus qu\'un terme fréquent', () => {
+    const results = index().search('langage concurrence', 5);
+    assert.deepEqual(results.map(result => result.id), ['go', 'python']);
+    assert.ok(results[0].score > results[1].score * 2);
+  });
+
+  test('respecte topK et le prédicat', () => {
+    const bm25 = index();
+    assert.equal(bm25.search('langage', 1).length, 1);
+    assert.deepEqual(bm25.search('langage', 5, id => id !== 'go').map(result => result.id), ['python']);
+  });
+
+  test('add remplace un document existant, remove et clear le retirent', () => {
+    const bm25 = index();
+    bm25.add('rust', 'Rust cible aussi WebAssembly.');
+    assert.deepEqual(bm25.search('mémoire', 5), []);
+    assert.deepEqual(bm25.search('webassembly', 5).map(result => result.id), ['rust']);
+    assert.equal(bm25.size, 3);
+
+    bm25.remove('rust');
+    assert.deepEqual(bm25.search('webassembly', 5), []);
+    assert.equal(bm25.size, 2);
+
+    bm25.clear();
+    assert.equal(bm25.size, 0);
+    assert.deepEqual(bm25.search('langage', 5), []);
+  });
+
+  test('une requête réduite à des stop words ne retourne rien', () => {
+    assert.deepEqual(index().search('le la des', 5), []);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { cleanCitationMarkers, createCitationFilter, extractCitations } from '../utils/citations';
+
+describe('cleanCitationMarkers', () => {
+  test('normalise les variantes de marqueurs en [n][m]', () => {
+    assert.equal(cleanCitationMarkers('Rust est sûr [Source 2].', 3), 'Rust est sûr [2].');
+    assert.equal(cleanCitationMarkers('Deux sources [1, 3].', 3), 'Deux sources [1][3].');
+    assert.equal(cleanCitationMarkers('Pluriel [Sources 1; 2].', 3), 'Pluriel [1][2].');
+  });
+
+  test('retire les numéros hors des sources retournées, et le marqueur s\'il n\'en reste aucun', () => {
+    assert.equal(cleanCitationMarkers('Partiel [2, 7].', 3), 'Partiel [2].');
+    assert.equal(cleanCitationMarkers('Inventé [9].', 3), 'Inventé.');
+    assert.equal(cleanCitationMarkers('Aucune source [1].', 0), 'Aucune source.');
+  });
+
+  test('ignore les indices et les liens markdown', () => {
+    assert.equal(cleanCitationMarkers('Le premier élément a[0] vaut 1.', 3), 'Le premier élément a[0] vaut 1.');
+    assert.equal(cleanCitationMarkers('Voir [4](https://exemple.com).', 3), 'Voir [4](https://exemple.com).');
+  });
+});
+
+describe('createCitationFilter', () => {
+  const answer = 'Rust est sûr [Source 1]. Python est lent [1, 9]. Inventé [7]. Tableau a[0] et lien [2](https://x.io). Fin [2]';
+
+  test('donne le même texte que cleanCitationMarkers quel que soit le découpage en tokens', () => {
+    const expected = cleanCitationMarkers(answer, 2);
+
+    for (const size of [1, 2, 3, 5, 8, 13, answer.length]) {
+      const filter = createCitationFilter(2);
+      let output = '';
+      for (let start = 0; start < answer.length; start += size) {
+        output += filter.push(answer.slice(start, start + size));
+      }
+      output += filter.flush();
+      assert.equal(output, expected, `tokens de ${size} caractères`);
+    }
+  });
+
+  test('retient un marqueur non fermé jusqu\'au token suivant', () => {
+    const filter = createCitationFilter(3);
+    assert.equal(filter.push('Rust est sûr [Sour'), 'Rust est sûr');
+    assert.equal(filter.push('ce 2]. Suite'), ' [2]. Suite');
+    assert.equal(filter.flush(), '');
+  });
+});
+
+describe('extractCitations', () => {
+  test('relie chaque numéro à la phrase qui précède son marqueur', () => {
+    const answer = 'Rust garantit la sécurité mémoire [1][3]. Python est interprété [2].';
+    const citations = extractCitations(answer);
+
+    assert.deepEqual(citations.map(citation => [citation.marker, citation.sourceIndex, citation.text]), [
+      [1, 0, 'Rust garantit la sécurité mémoire'],
+      [3, 2, 'Rust garantit la sécurité mémoire'],
+      [2, 1, 'Python est interprété']
+    ]);
+    for (const citation of citations) {
+      assert.equal(answer.slice(citation.start, citation.end), citation.text);
+    }
+  });
+
+  test('exclut les puces et numéros de liste, conserve le gras', () => {
+    const citations = extractCitations('- **Rust** est compilé [1]\n2. Go aussi [2]');
+    assert.deepEqual(citations.map(citation => citation.text), ['**Rust** est compilé', 'Go aussi']);
+  });
+
+  test('plusieurs marqueurs dans une phrase couvrent chacun le passage depuis le précédent', () => {
+    const citations = extractCitations('Rust est rapide [1] et Go est simple [2].');
+    assert.deepEqual(citations.map(citation => citation.text), ['Rust est rapide', 'et Go est simple']);
+  });
+
+  test('une réponse sans marqueur ne produit aucune citation', () => {
+    assert.deepEqual(extractCitations('Aucune source citée ici.'), []);
+  });
+});
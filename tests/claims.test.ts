@@ -0,0 +1,47 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { splitClaims } from '../utils/claims';
+
+describe('splitClaims', () => {
+  test('une affirmation par phrase, avec ses marqueurs et sa position', () => {
+    const answer = 'Rust garantit la sécurité mémoire [1]. Le compilateur vérifie les emprunts [1][2]! Go reste plus simple à apprendre.';
+    const claims = splitClaims(answer);
+
+    assert.deepEqual(claims.map(claim => [claim.text, claim.markers]), [
+      ['Rust garantit la sécurité mémoire.', [1]],
+      ['Le compilateur vérifie les emprunts!', [1, 2]],
+      ['Go reste plus simple à apprendre.', []]
+    ]);
+    assert.equal(answer.slice(claims[0].start, claims[0].end), 'Rust garantit la sécurité mémoire [1].');
+  });
+
+  test('ignore titres, tableaux, blocs de code, questions, introductions et phrases courtes', () => {
+    const answer = [
+      '## Performances comparées des langages',
+      '| Langage | Vitesse |',
+      '```',
+      'fn main() { println!("Ceci est du code Rust."); }',
+      '```',
+      'Voici les points principaux à retenir :',
+      'Pourquoi Rust est-il si rapide en pratique ?',
+      'En bref.',
+      'Rust compile vers du code natif optimisé [1].'
+    ].join('\n');
+
+    assert.deepEqual(splitClaims(answer).map(claim => claim.text), ['Rust compile vers du code natif optimisé.']);
+  });
+
+  test('retire puces et mise en forme du texte de l\'affirmation', () => {
+    const claims = splitClaims('- **Rust** est compilé en `code` natif [2]\n1. Go dispose d\'un ramasse-miettes intégré');
+
+    assert.deepEqual(claims.map(claim => [claim.text, claim.markers]), [
+      ['Rust est compilé en code natif', [2]],
+      ['Go dispose d\'un ramasse-miettes intégré', []]
+    ]);
+    assert.ok(!claims[0].text.startsWith('-'));
+  });
+
+  test('les marqueurs dupliqués ne sont comptés qu\'une fois', () => {
+    assert.deepEqual(splitClaims('Rust est sûr et rapide [1] selon [1] les tests [2].')[0].markers, [1, 2]);
+  });
+});
@@ -0,0 +1,63 @@
+import { after, afterEach, before, beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RAGService } from '../services/rag.service';
+import { FakeOllama, startFakeOllama } from './fakeOllama';
+
+describe('Collections', () => {
+  let ollama: FakeOllama;
+  let dir: string;
+  let rag: RAGService;
+
+  before(async () => {
+    ollama = await startFakeOllama({ embedDelay: 50 });
+  });
+
+  after(async () => {
+    await ollama.close();
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'collections-'));
+    rag = new RAGService({
+      ollama: { baseUrl: ollama.baseUrl, model: 'llama3.2:latest' },
+      vectorStore: { similarity: 'cosine', persistPath: path.join(dir, 'store') },
+      chunking: { maxChunkSize: 1000, overlap: 0 },
+      retrieval: { topK: 2, threshold: 0 },
+      embeddingCache: { enabled: false }
+    });
+    await rag.initialize();
+  });
+
+  afterEach(async () => {
+    await rag.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('la suppression attend la fin des écritures en cours sur la collection', async () => {
+    await rag.createCollection('notes');
+    await fs.access(path.join(dir, 'store', 'collections', 'notes'));
+    const events: string[] = [];
+
+    const adding = rag.addDocuments([
+      { id: 'rust', content: 'Rust garantit la sécurité mémoire.', metadata: { source: 'manual', title: 'Rust', timestamp: new Date() } }
+    ], 'notes').then(() => events.push('ajout'));
+    const deleting = rag.deleteCollection('notes').then(() => events.push('suppression'));
+    await Promise.all([adding, deleting]);
+
+    assert.deepEqual(events, ['ajout', 'suppression']);
+    assert.deepEqual((await rag.listCollections()).map(collection => collection.name), ['default']);
+    await assert.rejects(fs.access(path.join(dir, 'store', 'collections', 'notes')));
+  });
+
+  test('une seconde suppression concurrente échoue proprement', async () => {
+    await rag.createCollection('notes');
+
+    const [first, second] = await Promise.allSettled([rag.deleteCollection('notes'), rag.deleteCollection('notes')]);
+    assert.equal(first.status, 'fulfilled');
+    assert.equal(second.status, 'rejected');
+    assert.match((second as PromiseRejectedResult).reason.message, /Collection inconnue: notes/);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OllamaConfig } from '../types/rag';
+import { OllamaService } from '../services/ollama.service';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { FakeOllamaOptions, fakeEmbedding, startFakeOllama } from './fakeOllama';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  test('respecte la limite et conserve l\'ordre des résultats', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, index) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(ms);
+      running--;
+      return index * 10;
+    });
+
+    assert.deepEqual(results, [0, 10, 20, 30, 40]);
+    assert.equal(maxRunning, 2);
+  });
+
+  test('au premier échec, aucune nouvelle tâche n\'est lancée', async () => {
+    const started: number[] = [];
+
+    await assert.rejects(mapWithConcurrency([1, 2, 3, 4, 5], 1, async item => {
+      started.push(item);
+      if (item === 2) throw new Error('échec');
+      return item;
+    }), /échec/);
+
+    assert.deepEqual(started, [1, 2]);
+  });
+
+  test('liste vide', async () => {
+    assert.deepEqual(await mapWithConcurrency([], 4, async item => item), []);
+  });
+});
+
+describe('OllamaService.generateEmbeddings', () => {
+  const texts = Array.from({ length: 10 }, (_, index) => `Texte numéro ${index}`);
+
+  const withOllama = async (
+    options: FakeOllamaOptions,
+    config: Partial<OllamaConfig>,
+    run: (service: OllamaService, requests: string[], maxConcurrent: () => number) => Promise<void>
+  ) => {
+    const ollama = await startFakeOllama(options);
+    try {
+      const service = new OllamaService({ baseUrl: ollama.baseUrl, model: 'llama3.2', retryDelay: 1, ...config });
+      await run(service, ollama.requests, () => ollama.maxConcurrentEmbeds);
+    } finally {
+      await ollama.close();
+    }
+  };
+
+  test('envoie des lots de embeddingBatchSize textes, au plus embeddingConcurrency à la fois', async () => {
+    await withOllama({ embedDelay: 20 }, { embeddingBatchSize: 3, embeddingConcurrency: 2 }, async (service, requests, maxConcurrent) => {
+      const progress: number[] = [];
+      const embeddings = await service.generateEmbeddings(texts, undefined, done => progress.push(done));
+
+      assert.deepEqual(embeddings, texts.map(text => fakeEmbedding(text)));
+      assert.equal(requests.filter(url => url === '/api/embed').length, 4);
+      assert.equal(maxConcurrent(), 2);
+      assert.equal(progress.length, 4);
+      assert.equal(progress[progress.length - 1], texts.length);
+    });
+  });
+
+  test('retente un lot après une erreur serveur', async () => {
+    await withOllama({ embedFailures: [503, 500] }, { embeddingBatchSize: 10, retryAttempts: 3 }, async (service, requests) => {
+      const embeddings = await service.generateEmbeddings(texts);
+      assert.equal(embeddings.length, texts.length);
+      assert.equal(requests.filter(url => url === '/api/embed').length, 3);
+    });
+  });
+
+  test('échoue après retryAttempts tentatives', async () => {
+    await withOllama({ embedFailures: [500, 500, 500] }, { embeddingBatchSize: 10, retryAttempts: 2 }, async (service, requests) => {
+      await assert.rejects(service.generateEmbeddings(texts), /500/);
+      assert.equal(requests.filter(url => url === '/api/embed').length, 2);
+    });
+  });
+
+  test('une erreur client n\'est pas retentée', async () => {
+    await withOllama({ embedFailures: [400] }, { embeddingBatchSize: 10, retryAttempts: 3 }, async (service, requests) => {
+      await assert.rejects(service.generateEmbeddings(texts), /400/);
+      assert.equal(requests.filter(url => url === '/api/embed').length, 1);
+    });
+  });
+
+  test('repli sur /api/embeddings quand /api/embed n\'existe pas', async () => {
+    await withOllama({ legacy: true }, { embeddingBatchSize: 4 }, async (service, requests) => {
+      const embeddings = await service.generateEmbeddings(texts.slice(0, 3));
+      assert.deepEqual(embeddings, texts.slice(0, 3).map(text => fakeEmbedding(text)));
+      assert.equal(requests.filter(url => url === '/api/embeddings').length, 3);
+    });
+  });
+});
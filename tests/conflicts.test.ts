@@ -0,0 +1,71 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { detectConflicts } from '../utils/conflicts';
+
+describe('detectConflicts', () => {
+  test('signale des chiffres incompatibles sur le même sujet', () => {
+    const conflicts = detectConflicts([
+      { key: 'a', content: 'La population de Lyon atteint 520000 habitants selon le recensement.' },
+      { key: 'b', content: 'La population de Lyon atteint 480000 habitants selon le recensement.' }
+    ]);
+
+    assert.equal(conflicts.length, 1);
+    assert.equal(conflicts[0].kind, 'numeric');
+    assert.deepEqual(conflicts[0].sourceIndices, [0, 1]);
+    assert.deepEqual(conflicts[0].values, ['520000', '480000']);
+  });
+
+  test('tolère arrondis et échelles équivalentes', () => {
+    assert.deepEqual(detectConflicts([
+      { key: 'a', content: 'La ville de Lyon compte 2,1 millions habitants dans son aire urbaine.' },
+      { key: 'b', content: 'La ville de Lyon compte 2.1 million habitants dans son aire urbaine.' }
+    ]), []);
+    assert.deepEqual(detectConflicts([
+      { key: 'a', content: 'Le taux de chômage national atteint 7,3 % de la population active.' },
+      { key: 'b', content: 'Le taux de chômage national atteint 7,4 % de la population active.' }
+    ]), []);
+  });
+
+  test('des années différentes désignent des périodes différentes', () => {
+    assert.deepEqual(detectConflicts([
+      { key: 'a', content: 'En 2020, le taux de chômage national atteignait 8 % de la population active.' },
+      { key: 'b', content: 'En 2023, le taux de chômage national atteignait 7 % de la population active.' }
+    ]), []);
+  });
+
+  test('signale deux dates différentes pour le même fait', () => {
+    const [conflict] = detectConflicts([
+      { key: 'a', content: 'La tour Eiffel a été inaugurée en 1889 pour l\'exposition universelle.' },
+      { key: 'b', content: 'La tour Eiffel a été inaugurée en 1887 pour l\'exposition universelle.' }
+    ]);
+    assert.deepEqual(conflict.values, ['1889', '1887']);
+  });
+
+  test('signale une affirmation et sa négation', () => {
+    const [conflict] = detectConflicts([
+      { key: 'a', content: 'Le vaccin provoque des effets secondaires graves chez les enfants.' },
+      { key: 'b', content: 'Le vaccin ne provoque pas des effets secondaires graves chez les enfants.' }
+    ]);
+    assert.equal(conflict.kind, 'negation');
+  });
+
+  test('ne compare pas deux chunks du même document ni des phrases sans rapport', () => {
+    assert.deepEqual(detectConflicts([
+      { key: 'doc', content: 'La population de Lyon atteint 520000 habitants selon le recensement.' },
+      { key: 'doc', content: 'La population de Lyon atteint 480000 habitants selon le recensement.' }
+    ]), []);
+    assert.deepEqual(detectConflicts([
+      { key: 'a', content: 'La population de Lyon atteint 520000 habitants selon le recensement.' },
+      { key: 'b', content: 'Le budget annuel du musée dépasse 3 millions euros cette année.' }
+    ]), []);
+  });
+
+  test('limite le nombre de désaccords retournés', () => {
+    const sources = [520000, 480000, 450000].map((value, index) => ({
+      key: String(index),
+      content: `La population de Lyon atteint ${value} habitants selon le recensement.`
+    }));
+    assert.equal(detectConflicts(sources).length, 3);
+    assert.equal(detectConflicts(sources, { maxConflicts: 1 }).length, 1);
+  });
+});
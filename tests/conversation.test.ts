@@ -0,0 +1,125 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RAGConfig } from '../types/rag';
+import { ChatMessage } from '../types/provider';
+import { RAGService } from '../services/rag.service';
+import { buildCondenseMessages } from '../utils/prompts';
+import { FakeOllama, startFakeOllama } from './fakeOllama';
+
+const isCondense = (messages: ChatMessage[]) => messages[0].content.startsWith('Rewrite the follow-up question');
+
+describe('buildCondenseMessages', () => {
+  test('transmet l\'historique tronqué et la question de suivi', () => {
+    const history: ChatMessage[] = [
+      { role: 'user', content: 'Parle-moi de Rust.' },
+      { role: 'assistant', content: 'x'.repeat(30) }
+    ];
+    const [system, user] = buildCondenseMessages(history, 'Et sa gestion mémoire ?', 20);
+
+    assert.equal(system.role, 'system');
+    assert.equal(user.content, `Conversation:
+User: Parle-moi de Rust.
+Assistant: xxxxxxxxxxxxxxxxxxxx...
+
+Follow-up question: Et sa gestion mémoire ?
+
+Standalone question:`);
+  });
+});
+
+describe('RAGService.converse', () => {
+  let ollama: FakeOllama;
+  let dir: string;
+
+  const createService = async (conversation?: RAGConfig['conversation']): Promise<RAGService> => {
+    const rag = new RAGService({
+      ollama: { baseUrl: ollama.baseUrl, model: 'llama3.2:latest' },
+      vectorStore: { similarity: 'cosine', persistPath: path.join(dir, 'store') },
+      chunking: { maxChunkSize: 1000, overlap: 0 },
+      retrieval: { topK: 2, threshold: 0 },
+      embeddingCache: { enabled: false },
+      conversation
+    });
+    await rag.initialize();
+    return rag;
+  };
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'conversation-'));
+    ollama = await startFakeOllama({
+      // Le modèle entoure sa reformulation de guillemets et ajoute une explication
+      respond: messages => isCondense(messages)
+        ? '« Comment Rust gère-t-il la mémoire ? »\nJ\'ai remplacé « il » par Rust.'
+        : `Réponse ${messages.filter(message => message.role === 'user').length}.`
+    });
+
+    const rag = await createService();
+    await rag.addDocuments([
+      { id: 'rust', content: 'Rust gère la mémoire sans ramasse-miettes grâce à la possession.', metadata: { source: 'manual', title: 'Rust', timestamp: new Date() } },
+      { id: 'go', content: 'Go utilise un ramasse-miettes concurrent.', metadata: { source: 'manual', title: 'Go', timestamp: new Date() } }
+    ]);
+    await rag.close();
+  });
+
+  after(async () => {
+    await ollama.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('la question de suivi est reformulée pour la recherche et répondue à la suite de l\'historique', async () => {
+    const rag = await createService();
+    ollama.chats.length = 0;
+
+    const first = await rag.converse('c1', 'Parle-moi de Rust.');
+    assert.equal(first.standaloneQuery, 'Parle-moi de Rust.');
+    assert.equal(ollama.chats.filter(isCondense).length, 0);
+
+    const second = await rag.converse('c1', 'Et comment gère-t-il la mémoire ?');
+    assert.equal(second.conversationId, 'c1');
+    assert.equal(second.standaloneQuery, 'Comment Rust gère-t-il la mémoire ?');
+    assert.equal(second.query, 'Et comment gère-t-il la mémoire ?');
+    assert.equal(second.sources[0].metadata.title, 'Rust');
+
+    const [condense, answer] = ollama.chats.slice(-2);
+    assert.ok(isCondense(condense));
+    assert.match(condense[1].content, /User: Parle-moi de Rust\.\nAssistant: Réponse 1\./);
+    assert.deepEqual(answer.slice(1, 3), [
+      { role: 'user', content: 'Parle-moi de Rust.' },
+      { role: 'assistant', content: 'Réponse 1.' }
+    ]);
+    assert.match(answer[3].content, /Question: Et comment gère-t-il la mémoire \?/);
+  });
+
+  test('l\'historique est limité et les conversations survivent au redémarrage', async () => {
+    const rag = await createService({ historyTurns: 1 });
+    await rag.converse('c2', 'Première question');
+    await rag.converse('c2', 'Deuxième question');
+    await rag.converse('c2', 'Troisième question');
+
+    const answer = ollama.chats[ollama.chats.length - 1];
+    assert.deepEqual(answer.slice(1, -1).map(message => message.content), ['Deuxième question', 'Réponse 2.']);
+    await rag.close();
+
+    const restarted = await createService();
+    const conversation = restarted.getConversation('c2')!;
+    assert.deepEqual(conversation.turns.map(turn => turn.question), ['Première question', 'Deuxième question', 'Troisième question']);
+    assert.ok(conversation.turns[0].timestamp instanceof Date);
+    assert.ok(restarted.listConversations().some(summary => summary.id === 'c2' && summary.title === 'Première question'));
+
+    assert.equal(await restarted.deleteConversation('c2'), true);
+    assert.equal(restarted.getConversation('c2'), undefined);
+  });
+
+  test('sans reformulation, la question de suivi est recherchée telle quelle', async () => {
+    const rag = await createService({ condenseQuery: false });
+    await rag.converse('c3', 'Parle-moi de Go.');
+    const chats = ollama.chats.length;
+
+    const response = await rag.converse('c3', 'Et de Rust ?');
+    assert.equal(response.standaloneQuery, 'Et de Rust ?');
+    assert.equal(ollama.chats.length, chats + 1);
+  });
+});
@@ -0,0 +1,103 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { RAGConfig } from '../types/rag';
+import { RAGService } from '../services/rag.service';
+import { scoreCredibility } from '../utils/credibility';
+import { FakeOllama, startFakeOllama } from './fakeOllama';
+
+const PROSE = 'Le rapport annuel détaille la production, la consommation et les importations d\'énergie de la région. '.repeat(40);
+
+function page(url: string, overrides: Partial<Parameters<typeof scoreCredibility>[0]> = {}) {
+  return { url, content: PROSE, headings: ['Production', 'Consommation'], links: [], metadata: {}, ...overrides };
+}
+
+describe('scoreCredibility', () => {
+  test('retient la réputation du domaine le plus spécifique', () => {
+    assert.equal(scoreCredibility(page('https://fr.wikipedia.org/wiki/Energie')).signals.domain, 0.8);
+    assert.equal(scoreCredibility(page('https://data.gov/jeu')).signals.domain, 0.9);
+    assert.equal(scoreCredibility(page('https://inconnu.example/x')).signals.domain, 0.5);
+    assert.equal(
+      scoreCredibility(page('https://blog.inconnu.example/x'), { 'inconnu.example': 0.2, 'blog.inconnu.example': 0.95 }).signals.domain,
+      0.95
+    );
+  });
+
+  test('HTTPS, auteur et date de publication valide comptent', () => {
+    const bare = scoreCredibility(page('http://inconnu.example/x'));
+    const complete = scoreCredibility(page('https://inconnu.example/x', { metadata: { author: 'A. Martin', publishDate: '2024-03-01' } }));
+
+    assert.deepEqual([bare.signals.https, bare.signals.author, bare.signals.publishDate], [0, 0, 0]);
+    assert.deepEqual([complete.signals.https, complete.signals.author, complete.signals.publishDate], [1, 1, 1]);
+    assert.ok(Math.abs(complete.score - bare.score - 0.3) < 0.011);
+    assert.equal(scoreCredibility(page('https://inconnu.example/x', { metadata: { publishDate: 'hier' } })).signals.publishDate, 0);
+  });
+
+  test('la longueur progresse de 50 à 1500 mots', () => {
+    const words = (count: number) => Array(count).fill('mot').join(' ') + '.';
+    assert.equal(scoreCredibility(page('https://inconnu.example', { content: words(40) })).signals.length, 0);
+    assert.equal(scoreCredibility(page('https://inconnu.example', { content: words(2000) })).signals.length, 1);
+    const middle = scoreCredibility(page('https://inconnu.example', { content: words(300) })).signals.length;
+    assert.ok(middle > 0.4 && middle < 0.7);
+  });
+
+  test('pénalise le texte crié et saturé de liens', () => {
+    const spam = scoreCredibility(page('http://promo.example', {
+      content: 'MEILLEURES OFFRES MAINTENANT!!! Cliquez ICI! INCROYABLE! '.repeat(30),
+      headings: [],
+      links: Array(60).fill('https://promo.example/lien')
+    }));
+    const article = scoreCredibility(page('https://promo.example'));
+
+    assert.ok(spam.signals.quality < 0.4);
+    assert.ok(article.signals.quality > 0.9);
+    assert.ok(spam.score < 0.35);
+  });
+
+  test('un score entre 0 et 1 arrondi au centième', () => {
+    const { score } = scoreCredibility(page('https://www.nature.com/articles/x', { metadata: { author: 'X', publishDate: '2023-01-01' } }));
+    assert.ok(score > 0.85 && score <= 1);
+    assert.equal(score, Math.round(score * 100) / 100);
+  });
+});
+
+describe('A priori de crédibilité', () => {
+  const CONTENT = 'La production d\'énergie solaire de la région a doublé en deux ans.';
+  let ollama: FakeOllama;
+
+  const search = async (credibility: RAGConfig['credibility'], threshold: number) => {
+    const rag = new RAGService({
+      ollama: { baseUrl: ollama.baseUrl, model: 'llama3.2:latest' },
+      vectorStore: { similarity: 'cosine' },
+      chunking: { maxChunkSize: 1000, overlap: 0 },
+      retrieval: { topK: 5, threshold },
+      embeddingCache: { enabled: false },
+      deduplication: { enabled: false },
+      credibility
+    });
+    await rag.initialize();
+    await rag.addDocuments([
+      { id: 'douteux', content: CONTENT, metadata: { source: 'websearch', url: 'https://douteux.example', title: 'Douteux', timestamp: new Date(), credibility: 0.2 } },
+      { id: 'fiable', content: CONTENT, metadata: { source: 'websearch', url: 'https://fiable.example', title: 'Fiable', timestamp: new Date(), credibility: 0.9 } }
+    ]);
+    const { sources } = await rag.search({ query: CONTENT });
+    return sources.map((source): [string, number] => [source.metadata.title ?? '', Math.round(source.similarity! * 1000) / 1000]);
+  };
+
+  before(async () => {
+    ollama = await startFakeOllama();
+  });
+
+  after(async () => {
+    await ollama.close();
+  });
+
+  test('désactivé par défaut, il pondère la similarité avant le seuil', async () => {
+    const [[, raw], [, same]] = await search(undefined, 0.5);
+    assert.equal(same, raw);
+
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    assert.deepEqual(await search({ weight: 0.5 }, 0), [['Fiable', round(raw * 0.95)], ['Douteux', round(raw * 0.6)]]);
+    // Au-dessus du seuil brut, la source douteuse passe sous le seuil une fois pondérée
+    assert.deepEqual(await search({ weight: 0.5 }, raw * 0.8), [['Fiable', round(raw * 0.95)]]);
+  });
+});
@@ -0,0 +1,107 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Document, RAGConfig } from '../types/rag';
+import { RAGService } from '../services/rag.service';
+import { FAKE_DIMENSIONS, FakeOllama, startFakeOllama } from './fakeOllama';
+
+const ORIGINAL = 'Le compilateur Rust vérifie les emprunts et les durées de vie à la compilation, ce qui évite les erreurs mémoire sans ramasse-miettes.';
+const NEAR = 'Le compilateur Rust vérifie les emprunts et les durées de vie à la compilation, ce qui évite les fuites mémoire sans ramasse-miettes.';
+
+function document(id: string, content: string, url: string, tags?: string[]): Document {
+  return { id, content, metadata: { source: 'websearch', url, title: id, tags, timestamp: new Date('2024-05-01T00:00:00Z') } };
+}
+
+describe('Déduplication à l\'ingestion', () => {
+  let ollama: FakeOllama;
+
+  const createService = async (deduplication: RAGConfig['deduplication']): Promise<RAGService> => {
+    const rag = new RAGService({
+      ollama: { baseUrl: ollama.baseUrl, model: 'llama3.2:latest' },
+      vectorStore: { dimensions: FAKE_DIMENSIONS, similarity: 'cosine' },
+      chunking: { maxChunkSize: 1000, overlap: 0 },
+      retrieval: { topK: 5, threshold: 0.5 },
+      deduplication: { nearDuplicateThreshold: 0.9, ...deduplication }
+    });
+    await rag.initialize();
+    return rag;
+  };
+
+  const stored = async (rag: RAGService) =>
+    (await rag.search({ query: 'compilateur Rust emprunts', topK: 10, threshold: -1 })).sources;
+
+  before(async () => {
+    ollama = await startFakeOllama();
+  });
+
+  after(async () => {
+    await ollama.close();
+  });
+
+  test('skip: un doublon exact est ignoré sans appel au modèle d\'embedding', async () => {
+    const rag = await createService({});
+    await rag.addDocuments([document('a', ORIGINAL, 'https://a.example')]);
+    const embeddedBefore = ollama.embedded.length;
+
+    const report = await rag.addDocuments([document('b', `  ${ORIGINAL.toUpperCase()}\n`, 'https://b.example')]);
+
+    assert.deepEqual(report, { policy: 'skip', chunksAdded: 0, exactDuplicates: 1, nearDuplicates: 0 });
+    assert.equal(ollama.embedded.length, embeddedBefore);
+    assert.equal((await rag.getStats()).vectorStore.totalChunks, 1);
+  });
+
+  test('skip: un quasi-doublon est détecté par similarité d\'embedding', async () => {
+    const rag = await createService({});
+    await rag.addDocuments([document('a', ORIGINAL, 'https://a.example')]);
+
+    const report = await rag.addDocuments([
+      document('b', NEAR, 'https://b.example'),
+      document('c', 'La ratatouille se prépare avec des courgettes, des aubergines et des tomates.', 'https://c.example')
+    ]);
+
+    assert.deepEqual(report, { policy: 'skip', chunksAdded: 1, exactDuplicates: 0, nearDuplicates: 1 });
+    assert.equal((await rag.getStats()).vectorStore.totalChunks, 2);
+  });
+
+  test('les doublons à l\'intérieur d\'un même lot sont détectés', async () => {
+    const rag = await createService({});
+    const report = await rag.addDocuments([
+      document('a', ORIGINAL, 'https://a.example'),
+      document('b', ORIGINAL, 'https://b.example'),
+      document('c', NEAR, 'https://c.example')
+    ]);
+
+    assert.deepEqual(report, { policy: 'skip', chunksAdded: 1, exactDuplicates: 1, nearDuplicates: 1 });
+  });
+
+  test('merge: tags réunis et source du doublon ajoutée aux alias', async () => {
+    const rag = await createService({ policy: 'merge' });
+    await rag.addDocuments([document('a', ORIGINAL, 'https://a.example', ['rust'])]);
+    const report = await rag.addDocuments([document('b', ORIGINAL, 'https://b.example', ['langage'])]);
+
+    assert.equal(report.chunksAdded, 0);
+    const [chunk] = await stored(rag);
+    assert.equal(chunk.metadata.url, 'https://a.example');
+    assert.deepEqual(chunk.metadata.tags, ['rust', 'langage']);
+    assert.deepEqual(chunk.metadata.aliases, ['https://b.example']);
+  });
+
+  test('replace: le nouveau chunk remplace l\'existant', async () => {
+    const rag = await createService({ policy: 'replace' });
+    await rag.addDocuments([document('a', ORIGINAL, 'https://a.example')]);
+    const report = await rag.addDocuments([document('b', NEAR, 'https://b.example')]);
+
+    assert.deepEqual(report, { policy: 'replace', chunksAdded: 1, exactDuplicates: 0, nearDuplicates: 1 });
+    const chunks = await stored(rag);
+    assert.deepEqual(chunks.map(chunk => chunk.metadata.url), ['https://b.example']);
+    assert.equal(chunks[0].content, NEAR);
+  });
+
+  test('désactivée, les doublons sont tous écrits', async () => {
+    const rag = await createService({ enabled: false });
+    await rag.addDocuments([document('a', ORIGINAL, 'https://a.example')]);
+    const report = await rag.addDocuments([document('b', ORIGINAL, 'https://b.example')]);
+
+    assert.equal(report.chunksAdded, 1);
+    assert.equal((await rag.getStats()).vectorStore.totalChunks, 2);
+  });
+});
@@ -0,0 +1,110 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CachedEmbeddingProvider, EmbeddingCache } from '../services/embeddingCache.service';
+import { OllamaService } from '../services/ollama.service';
+import { FakeOllama, startFakeOllama } from './fakeOllama';
+
+const MODEL = 'nomic-embed-text';
+
+describe('EmbeddingCache', () => {
+  test('clé (modèle, texte normalisé) et vecteurs restitués en float32', () => {
+    const cache = new EmbeddingCache({ path: ':memory:', maxEntries: 10 });
+    cache.set(MODEL, ['Texte A'], [[0.1, 0.2, 0.3]]);
+
+    const [hit, miss] = cache.get(MODEL, ['  texte   a ', 'Texte B']);
+    assert.deepEqual(hit, Array.from(Float32Array.from([0.1, 0.2, 0.3])));
+    assert.equal(miss, undefined);
+    assert.deepEqual(cache.get('mxbai-embed-large', ['Texte A']), [undefined]);
+    cache.close();
+  });
+
+  test('évince les entrées les moins récemment utilisées', () => {
+    const cache = new EmbeddingCache({ path: ':memory:', maxEntries: 3 });
+    cache.set(MODEL, ['a', 'b', 'c'], [[1], [2], [3]]);
+    cache.get(MODEL, ['a']);
+    cache.set(MODEL, ['d'], [[4]]);
+
+    assert.deepEqual(cache.get(MODEL, ['a', 'b', 'c', 'd']), [[1], undefined, [3], [4]]);
+    const stats = cache.getStats();
+    assert.equal(stats.entries, 3);
+    assert.equal(stats.evictions, 1);
+    cache.close();
+  });
+
+  test('compte succès, échecs et taille', () => {
+    const cache = new EmbeddingCache({ path: ':memory:', maxEntries: 10 });
+    cache.set(MODEL, ['a', 'b'], [[1, 2], [3, 4]]);
+    cache.get(MODEL, ['a', 'b', 'c', 'd']);
+
+    assert.deepEqual(cache.getStats(), {
+      entries: 2,
+      maxEntries: 10,
+      sizeBytes: 16,
+      hits: 2,
+      misses: 2,
+      hitRate: 0.5,
+      evictions: 0
+    });
+    cache.close();
+  });
+
+  test('le contenu et l\'ordre LRU survivent à la réouverture du fichier', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'embedding-cache-'));
+    const file = path.join(dir, 'cache.sqlite');
+    try {
+      const first = new EmbeddingCache({ path: file, maxEntries: 2 });
+      first.set(MODEL, ['a', 'b'], [[1], [2]]);
+      first.get(MODEL, ['a']);
+      first.close();
+
+      const reopened = new EmbeddingCache({ path: file, maxEntries: 2 });
+      reopened.set(MODEL, ['c'], [[3]]);
+      assert.deepEqual(reopened.get(MODEL, ['a', 'b', 'c']), [[1], undefined, [3]]);
+      reopened.close();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('CachedEmbeddingProvider', () => {
+  let ollama: FakeOllama;
+
+  before(async () => {
+    ollama = await startFakeOllama();
+  });
+
+  after(async () => {
+    await ollama.close();
+  });
+
+  test('seuls les textes absents du cache sont envoyés à Ollama', async () => {
+    const cache = new EmbeddingCache({ path: ':memory:', maxEntries: 100 });
+    const service = new CachedEmbeddingProvider(new OllamaService({ baseUrl: ollama.baseUrl, model: 'llama3.2' }), cache);
+
+    const first = await service.generateEmbeddings(['un', 'deux']);
+    ollama.embedded.length = 0;
+    const progress: number[] = [];
+    const second = await service.generateEmbeddings(['deux', 'trois', 'un'], undefined, done => progress.push(done));
+
+    assert.deepEqual(ollama.embedded, ['trois']);
+    assert.deepEqual(second[0], first[1]);
+    assert.deepEqual(second[2], first[0]);
+    assert.deepEqual(progress, [3]);
+    assert.equal(cache.getStats().hits, 2);
+    cache.close();
+  });
+
+  test('l\'embedding de test contourne le cache', async () => {
+    const cache = new EmbeddingCache({ path: ':memory:', maxEntries: 100 });
+    const service = new CachedEmbeddingProvider(new OllamaService({ baseUrl: ollama.baseUrl, model: 'llama3.2' }), cache);
+
+    await service.testEmbedding();
+    await service.testEmbedding();
+    assert.equal(cache.getStats().entries, 0);
+    cache.close();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { EvidenceStance, FactCheckEvidence } from '../types/factCheck';
+import { aggregateEvidence } from '../utils/factCheck';
+
+function evidence(stance: EvidenceStance, similarity: number): FactCheckEvidence {
+  return { stance, similarity, content: `Extrait ${stance}`, origin: 'local' };
+}
+
+describe('aggregateEvidence', () => {
+  test('sans preuve décisive, l\'affirmation n\'est pas établie', () => {
+    const insufficient = { verdict: 'insufficient', confidence: 0, confidenceLevel: 'low' };
+    assert.deepEqual(aggregateEvidence([]), insufficient);
+    assert.deepEqual(aggregateEvidence([evidence('neutral', 0.9), evidence('neutral', 0.8)]), insufficient);
+  });
+
+  test('des preuves concordantes confirment ou réfutent, la confiance croît avec leur nombre', () => {
+    assert.deepEqual(aggregateEvidence([evidence('supporting', 0.8), evidence('supporting', 0.7), evidence('supporting', 0.6)]), {
+      verdict: 'supported',
+      confidence: 1,
+      confidenceLevel: 'high'
+    });
+    assert.deepEqual(aggregateEvidence([evidence('supporting', 0.8), evidence('neutral', 0.9)]), {
+      verdict: 'supported',
+      confidence: 0.33,
+      confidenceLevel: 'low'
+    });
+  });
+
+  test('les preuves pèsent leur similarité: le camp dominant l\'emporte', () => {
+    assert.deepEqual(aggregateEvidence([evidence('refuting', 0.9), evidence('refuting', 0.8), evidence('supporting', 0.3)]), {
+      verdict: 'refuted',
+      confidence: 0.7,
+      confidenceLevel: 'high'
+    });
+  });
+
+  test('des preuves équilibrées dans les deux sens rendent l\'affirmation contestée', () => {
+    assert.deepEqual(aggregateEvidence([evidence('supporting', 0.8), evidence('refuting', 0.7)]), {
+      verdict: 'disputed',
+      confidence: 0.62,
+      confidenceLevel: 'medium'
+    });
+  });
+
+  test('une similarité négative ne compte pas', () => {
+    assert.deepEqual(aggregateEvidence([evidence('supporting', -0.5), evidence('refuting', 0.6)]), {
+      verdict: 'refuted',
+      confidence: 0.67,
+      confidenceLevel: 'medium'
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ChatMessage } from '../types/provider';
+
+export const FAKE_DIMENSIONS = 64;
+
+export interface FakeOllamaOptions {
+  /** Modèles installés (noms complets avec tag) */
+  models?: string[];
+  /** Dimensions des embeddings par modèle d'embedding (FAKE_DIMENSIONS par défaut) */
+  dimensions?: Record<string, number>;
+  /** Réponse du modèle de génération à partir des messages reçus */
+  respond?: (messages: ChatMessage[]) => string;
+  /** Ollama antérieur à /api/embed: seule la route /api/embeddings existe */
+  legacy?: boolean;
+  /** Statuts HTTP d'erreur renvoyés, dans l'ordre, par les premiers appels à /api/embed */
+  embedFailures?: number[];
+  /** Durée de traitement d'un appel à /api/embed, en ms */
+  embedDelay?: number;
+  /** Erreur renvoyée dans le flux de /api/pull (le téléchargement réussit sinon) */
+  pullError?: string;
+}
+
+export interface FakeOllama {
+  baseUrl: string;
+  /** Chemins appelés, dans l'ordre */
+  requests: string[];
+  /** Textes envoyés au modèle d'embedding */
+  embedded: string[];
+  /** Messages envoyés au modèle de génération, un tableau par appel à /api/chat */
+  chats: ChatMessage[][];
+  /** Statuts d'erreur restant à renvoyer par /api/embed, modifiables en cours de test */
+  embedFailures: number[];
+  /** Nombre maximum d'appels à /api/embed traités simultanément */
+  maxConcurrentEmbeds: number;
+  close(): Promise<void>;
+}
+
+/**
+ * Embedding déterministe par sac de mots haché: deux textes proches ont des vecteurs proches
+ */
+export function fakeEmbedding(text: string, dimensions: number = FAKE_DIMENSIONS): number[] {
+  const vector = new Array(dimensions).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    let hash = 2166136261;
+    for (let i = 0; i < word.length; i++) {
+      hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+    }
+    vector[(hash >>> 0) % dimensions] += 1;
+  }
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / length);
+}
+
+/**
+ * Serveur HTTP local imitant l'API Ollama, pour tester les services sans modèle réel
+ */
+export async function startFakeOllama(options: FakeOllamaOptions = {}): Promise<FakeOllama> {
+  const models = [...options.models ?? ['llama3.2:latest', 'nomic-embed-text:latest']];
+  const tagged = (name: string) => name.includes(':') ? name : `${name}:latest`;
+  const respond = options.respond ?? (() => 'Réponse.');
+  const dimensionsOf = (model: string) => options.dimensions?.[model] ?? FAKE_DIMENSIONS;
+  const requests: string[] = [];
+  const embedded: string[] = [];
+  const chats: ChatMessage[][] = [];
+  const embedFailures = [...options.embedFailures ?? []];
+  let concurrentEmbeds = 0;
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', data => raw += data);
+    req.on('end', async () => {
+      requests.push(req.url ?? '');
+      const body = raw ? JSON.parse(raw) : {};
+      res.setHeader('Content-Type', 'application/json');
+
+      switch (req.url) {
+        case '/api/tags':
+          res.end(JSON.stringify({ models: models.map(name => ({ name })) }));
+          return;
+        case '/api/embed': {
+          if (options.legacy) break;
+          concurrentEmbeds++;
+          fake.maxConcurrentEmbeds = Math.max(fake.maxConcurrentEmbeds, concurrentEmbeds);
+          await new Promise(resolve => setTimeout(resolve, options.embedDelay ?? 0));
+          concurrentEmbeds--;
+
+          const failure = embedFailures.shift();
+          if (failure) {
+            res.statusCode = failure;
+            res.end(JSON.stringify({ error: `erreur simulée ${failure}` }));
+            return;
+          }
+          embedded.push(...body.input);
+          res.end(JSON.stringify({ embeddings: body.input.map((text: string) => fakeEmbedding(text, dimensionsOf(body.model))) }));
+          return;
+        }
+        case '/api/embeddings':
+          embedded.push(body.prompt);
+          res.end(JSON.stringify({ embedding: fakeEmbedding(body.prompt, dimensionsOf(body.model)) }));
+          return;
+        case '/api/chat': {
+          chats.push(body.messages);
+          const content = respond(body.messages);
+          if (!body.stream) {
+            res.end(JSON.stringify({ message: { role: 'assistant', content }, done: true }));
+            return;
+          }
+          // Streaming NDJSON: un token par ligne puis un message final vide
+          res.setHeader('Content-Type', 'application/x-ndjson');
+          for (const token of content.split(/(?= )/)) {
+            res.write(`${JSON.stringify({ message: { role: 'assistant', content: token }, done: false })}\n`);
+          }
+          res.end(`${JSON.stringify({ message: { role: 'assistant', content: '' }, done: true })}\n`);
+          return;
+        }
+        case '/api/pull': {
+          // Flux NDJSON: manifeste, deux couches dont l'une progresse en deux étapes, puis succès
+          res.setHeader('Content-Type', 'application/x-ndjson');
+          const lines: object[] = [
+            { status: 'pulling manifest' },
+            { status: 'pulling a', digest: 'a', total: 100, completed: 50 },
+            { status: 'pulling a', digest: 'a', total: 100, completed: 100 },
+            { status: 'pulling b', digest: 'b', total: 50, completed: 50 }
+          ];
+          lines.push(options.pullError ? { error: options.pullError } : { status: 'success' });
+          for (const line of lines) {
+            res.write(`${JSON.stringify(line)}\n`);
+          }
+          if (!options.pullError && !models.includes(tagged(body.model))) {
+            models.push(tagged(body.model));
+          }
+          res.end();
+          return;
+        }
+        case '/api/delete':
+        case '/api/show': {
+          const index = models.indexOf(tagged(body.model));
+          if (index < 0) {
+            res.statusCode = 404;
+            res.end(JSON.stringify({ error: `model '${body.model}' not found` }));
+            return;
+          }
+          if (req.url === '/api/delete') {
+            models.splice(index, 1);
+            res.end();
+            return;
+          }
+          res.end(JSON.stringify({
+            details: { family: 'llama', format: 'gguf', parameter_size: '3.2B', quantization_level: 'Q4_K_M' },
+            model_info: { 'llama.context_length': 131072, 'llama.embedding_length': 3072 },
+            modified_at: '2026-01-01T00:00:00Z'
+          }));
+          return;
+        }
+      }
+
+      // Route inconnue: Ollama répond en texte brut
+      res.statusCode = 404;
+      res.setHeader('Content-Type', 'text/plain');
+      res.end('404 page not found');
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const fake: FakeOllama = {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    embedded,
+    chats,
+    embedFailures,
+    maxConcurrentEmbeds: 0,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+  return fake;
+}
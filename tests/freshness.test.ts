@@ -0,0 +1,42 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { isStale, ttlFor } from '../utils/freshness';
+import { Document, DocumentRecord } from '../types/rag';
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = new Date('2024-06-10T12:00:00Z');
+
+function metadata(overrides: Partial<Document['metadata']> = {}): Document['metadata'] {
+  return { source: 'websearch', url: 'https://www.lemonde.fr/article', timestamp: new Date(NOW.getTime() - 10 * HOUR_MS), ...overrides };
+}
+
+function record(overrides: Partial<Document['metadata']> = {}): DocumentRecord {
+  return { id: 'doc', metadata: metadata(overrides), chunkIds: [], contentHash: 'h', ingestedAt: NOW };
+}
+
+describe('ttlFor', () => {
+  test('TTL par défaut, ou celui du domaine le plus spécifique', () => {
+    const policy = { ttlHours: 24, domains: { 'lemonde.fr': 6, 'sport.lemonde.fr': 2 } };
+    assert.equal(ttlFor(metadata(), policy), 6 * HOUR_MS);
+    assert.equal(ttlFor(metadata({ url: 'https://sport.lemonde.fr/x' }), policy), 2 * HOUR_MS);
+    assert.equal(ttlFor(metadata({ url: 'https://exemple.com/x' }), policy), 24 * HOUR_MS);
+  });
+
+  test('pas d\'expiration hors web, sans URL ou sans TTL configuré', () => {
+    assert.equal(ttlFor(metadata({ source: 'upload' }), { ttlHours: 1 }), null);
+    assert.equal(ttlFor(metadata({ url: undefined }), { ttlHours: 1 }), null);
+    assert.equal(ttlFor(metadata(), {}), null);
+  });
+});
+
+describe('isStale', () => {
+  test('compare l\'âge depuis la dernière récupération au TTL', () => {
+    assert.equal(isStale(record(), { ttlHours: 24 }, NOW), false);
+    assert.equal(isStale(record(), { ttlHours: 8 }, NOW), true);
+    assert.equal(isStale(record({ timestamp: '2024-06-10T11:00:00Z' as unknown as Date }), { ttlHours: 8 }, NOW), false);
+  });
+
+  test('un document manuel n\'expire jamais', () => {
+    assert.equal(isStale(record({ source: 'manual' }), { ttlHours: 0 }, NOW), false);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { reciprocalRankFusion, weightedScoreFusion } from '../utils/fusion';
+
+const vector = [{ id: 'a', score: 0.9 }, { id: 'b', score: 0.8 }, { id: 'c', score: 0.1 }];
+const lexical = [{ id: 'c', score: 12 }, { id: 'a', score: 3 }];
+
+describe('reciprocalRankFusion', () => {
+  test('somme 1 / (k + rang) sur les classements', () => {
+    const fused = reciprocalRankFusion([vector, lexical], 60);
+
+    assert.deepEqual(fused.map(item => item.id), ['a', 'c', 'b']);
+    assert.ok(Math.abs(fused[0].score - (1 / 61 + 1 / 62)) < 1e-12);
+    assert.ok(Math.abs(fused[1].score - (1 / 63 + 1 / 61)) < 1e-12);
+    assert.ok(Math.abs(fused[2].score - 1 / 62) < 1e-12);
+  });
+
+  test('ne dépend que des rangs, pas de l\'échelle des scores', () => {
+    const scaled = lexical.map(item => ({ ...item, score: item.score * 1000 }));
+    assert.deepEqual(reciprocalRankFusion([vector, scaled]), reciprocalRankFusion([vector, lexical]));
+  });
+
+  test('pondère chaque classement', () => {
+    const fused = reciprocalRankFusion([vector, lexical], 60, [1, 3]);
+    assert.equal(fused[0].id, 'c');
+    assert.ok(Math.abs(fused[0].score - (1 / 63 + 3 / 61)) < 1e-12);
+  });
+
+  test('classements vides', () => {
+    assert.deepEqual(reciprocalRankFusion([[], []]), []);
+  });
+});
+
+describe('weightedScoreFusion', () => {
+  test('combine les scores normalisés min-max de chaque classement', () => {
+    const fused = weightedScoreFusion([vector, lexical], [0.5, 0.5]);
+    const scores = Object.fromEntries(fused.map(item => [item.id, item.score]));
+
+    assert.deepEqual(fused.map(item => item.id), ['a', 'c', 'b']);
+    assert.ok(Math.abs(scores.a - 0.5) < 1e-12);
+    assert.ok(Math.abs(scores.b - 0.5 * (0.7 / 0.8)) < 1e-12);
+    assert.ok(Math.abs(scores.c - 0.5) < 1e-12);
+  });
+
+  test('un classement de scores identiques vaut 1 pour chaque élément', () => {
+    const fused = weightedScoreFusion([[{ id: 'x', score: 4 }, { id: 'y', score: 4 }]], [2]);
+    assert.deepEqual(fused.map(item => item.score), [2, 2]);
+  });
+
+  test('ignore les classements vides et applique un poids de 1 par défaut', () => {
+    assert.deepEqual(weightedScoreFusion([[], lexical], []), [{ id: 'c', score: 1 }, { id: 'a', score: 0 }]);
+  });
+});
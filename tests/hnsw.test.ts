@@ -0,0 +1,60 @@
+import { before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Chunk } from '../types/rag';
+import { VectorStore } from '../services/vector.service';
+import { random } from './random';
+
+const DIMENSIONS = 16;
+
+const next = random(42);
+const vector = (): number[] => Array.from({ length: DIMENSIONS }, () => next() * 2 - 1);
+
+function chunk(id: string): Chunk {
+  return { id, content: id, embedding: vector(), metadata: { source: 'manual', timestamp: new Date() } };
+}
+
+describe('Index HNSW', () => {
+  const store = new VectorStore({
+    dimensions: DIMENSIONS,
+    similarity: 'cosine',
+    index: { type: 'hnsw', m: 12, efConstruction: 100, efSearch: 64, minSize: 100 }
+  });
+  const queries = Array.from({ length: 20 }, vector);
+
+  before(async () => {
+    await store.addChunks(Array.from({ length: 800 }, (_, index) => chunk(`c${index}`)));
+  });
+
+  test('le rappel moyen au top 10 reste proche de la recherche exacte', async () => {
+    const recalls = await Promise.all(queries.map(query => store.measureRecall(query, 10)));
+    const average = recalls.reduce((sum, recall) => sum + recall, 0) / recalls.length;
+    assert.ok(average >= 0.9, `rappel moyen ${average}`);
+  });
+
+  test('les similarités retournées sont exactes et triées', async () => {
+    const approximate = await store.search(queries[0], 5, -1);
+    const exact = await store.search(queries[0], 50, -1, { exact: true });
+    const exactById = new Map(exact.map(result => [result.id, result.similarity]));
+
+    assert.equal(approximate.length, 5);
+    approximate.forEach((result, index) => {
+      if (exactById.has(result.id)) assert.equal(result.similarity, exactById.get(result.id));
+      if (index > 0) assert.ok(approximate[index - 1].similarity >= result.similarity);
+    });
+  });
+
+  test('un chunk supprimé n\'est plus retourné par l\'index', async () => {
+    const [best] = await store.search(queries[1], 1, -1);
+    await store.removeChunks([best.id]);
+
+    const results = await store.search(queries[1], 10, -1);
+    assert.ok(results.every(result => result.id !== best.id));
+    assert.equal(results.length, 10);
+  });
+
+  test('sous minSize, la recherche reste exacte', async () => {
+    const small = new VectorStore({ dimensions: DIMENSIONS, similarity: 'cosine', index: { type: 'hnsw' } });
+    await small.addChunks(Array.from({ length: 30 }, (_, index) => chunk(`s${index}`)));
+    assert.equal(await small.measureRecall(queries[2], 10), 1);
+  });
+});
@@ -0,0 +1,153 @@
+import { after, afterEach, before, beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Chunk, ReembedStatus } from '../types/rag';
+import { EmbeddingMigration } from '../services/migration.service';
+import { RAGService } from '../services/rag.service';
+import { VectorStore } from '../services/vector.service';
+import { FakeOllama, fakeEmbedding, startFakeOllama } from './fakeOllama';
+
+function chunk(id: string, content: string = `Contenu ${id}`): Chunk {
+  return { id, content, embedding: fakeEmbedding(content, 8), metadata: { source: 'manual', title: id, timestamp: new Date() } };
+}
+
+describe('EmbeddingMigration', () => {
+  const to = { model: 'mxbai-embed-large', dimensions: 4 };
+  let source: VectorStore;
+  let target: VectorStore;
+  let embedded: string[];
+
+  const embed = async (texts: string[]) => {
+    embedded.push(...texts);
+    return texts.map(text => fakeEmbedding(text, to.dimensions));
+  };
+
+  beforeEach(async () => {
+    source = new VectorStore({ dimensions: 8, similarity: 'cosine' });
+    target = new VectorStore({ dimensions: to.dimensions, similarity: 'cosine' });
+    embedded = [];
+    await source.addChunks(['a', 'b', 'c', 'd', 'e'].map(id => chunk(id)));
+  });
+
+  test('recopie chaque chunk avec un embedding du nouveau modèle', async () => {
+    const progress: Array<[number, number]> = [];
+    const copied = await new EmbeddingMigration(source, target, to, embed, 2).sync((processed, total) => progress.push([processed, total]));
+
+    assert.equal(copied, 5);
+    assert.deepEqual(progress, [[0, 5], [2, 5], [4, 5], [5, 5]]);
+    const chunks = await target.listChunks();
+    assert.equal(chunks.length, 5);
+    assert.ok(chunks.every(item => item.embedding?.length === to.dimensions && item.metadata.embeddingModel === to.model));
+  });
+
+  test('une migration interrompue reprend sans recalculer les chunks déjà migrés', async () => {
+    let calls = 0;
+    const failing = async (texts: string[]) => {
+      if (++calls === 2) throw new Error('Ollama indisponible');
+      return embed(texts);
+    };
+
+    await assert.rejects(new EmbeddingMigration(source, target, to, failing, 2).sync(), /indisponible/);
+    assert.equal((await target.listChunks()).length, 2);
+
+    embedded = [];
+    const copied = await new EmbeddingMigration(source, target, to, embed, 2).sync();
+    assert.equal(copied, 3);
+    assert.equal(embedded.length, 3);
+    assert.equal((await target.listChunks()).length, 5);
+  });
+
+  test('rattrape les ajouts, suppressions et changements de métadonnées de la source', async () => {
+    const migration = new EmbeddingMigration(source, target, to, embed, 2);
+    await migration.sync();
+
+    await source.removeChunks(['a']);
+    await source.addChunks([chunk('f'), { ...chunk('b'), metadata: { ...chunk('b').metadata, tags: ['nouveau'] } }]);
+    embedded = [];
+
+    assert.equal(await migration.sync(), 1);
+    assert.deepEqual(embedded, ['Contenu f']);
+    assert.deepEqual((await target.listChunks()).map(item => item.id).sort(), ['b', 'c', 'd', 'e', 'f']);
+    assert.deepEqual((await target.getChunk('b'))?.metadata.tags, ['nouveau']);
+  });
+});
+
+describe('RAGService.reembed', () => {
+  let ollama: FakeOllama;
+  let dir: string;
+
+  const createService = async (): Promise<RAGService> => {
+    const rag = new RAGService({
+      ollama: { baseUrl: ollama.baseUrl, model: 'llama3.2:latest' },
+      vectorStore: { similarity: 'cosine', persistPath: path.join(dir, 'store') },
+      chunking: { maxChunkSize: 1000, overlap: 0 },
+      retrieval: { topK: 5, threshold: 0 }
+    });
+    await rag.initialize();
+    return rag;
+  };
+
+  const waitFor = async (rag: RAGService): Promise<ReembedStatus> => {
+    for (let attempt = 0; attempt < 200; attempt++) {
+      const status = rag.getReembedStatus()!;
+      if (status.state !== 'running') return status;
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error('Migration toujours en cours');
+  };
+
+  before(async () => {
+    ollama = await startFakeOllama({
+      models: ['llama3.2:latest', 'nomic-embed-text:latest', 'mxbai-embed-large:latest'],
+      dimensions: { 'mxbai-embed-large': 32 }
+    });
+  });
+
+  after(async () => {
+    await ollama.close();
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'reembed-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('migre la collection vers un modèle d\'une autre dimension puis bascule', async () => {
+    const rag = await createService();
+    await rag.addDocuments([
+      { id: 'rust', content: 'Rust garantit la sécurité mémoire.', metadata: { source: 'manual', title: 'Rust', timestamp: new Date() } },
+      { id: 'go', content: 'Go privilégie la simplicité et la concurrence.', metadata: { source: 'manual', title: 'Go', timestamp: new Date() } }
+    ]);
+
+    const started = await rag.reembed('mxbai-embed-large');
+    assert.equal(started.from.dimensions, 64);
+    assert.deepEqual(started.to, { model: 'mxbai-embed-large', dimensions: 32 });
+
+    const status = await waitFor(rag);
+    assert.equal(status.state, 'completed');
+    assert.equal(status.processed, 2);
+
+    const stats = await rag.getStats();
+    assert.equal(stats.vectorStore.dimensions, 32);
+    assert.equal(stats.vectorStore.totalChunks, 2);
+    assert.ok((await fs.readdir(path.join(dir, 'store'))).includes('generation-1'));
+    await assert.rejects(rag.reembed('mxbai-embed-large'), /utilise déjà/);
+
+    // Au redémarrage, la collection est rechargée depuis la nouvelle génération
+    await rag.close();
+    const restarted = await createService();
+    const [collection] = await restarted.listCollections();
+    assert.deepEqual(collection.embedding, { model: 'mxbai-embed-large', dimensions: 32 });
+    assert.equal((await restarted.getStats()).vectorStore.totalChunks, 2);
+  });
+
+  test('refuse un modèle d\'embedding non installé', async () => {
+    const rag = await createService();
+    await assert.rejects(rag.reembed('inconnu'), /indisponible/);
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ModelPullStatus } from '../types/rag';
+import { RAGService } from '../services/rag.service';
+import { sameModel, withModelTag } from '../utils/models';
+import { FakeOllama, FakeOllamaOptions, startFakeOllama } from './fakeOllama';
+
+describe('withModelTag', () => {
+  test('complète un nom sans étiquette par :latest', () => {
+    assert.equal(withModelTag('llama3'), 'llama3:latest');
+    assert.equal(withModelTag('llama3:8b'), 'llama3:8b');
+    assert.equal(withModelTag('registry.local:5000/equipe/modele'), 'registry.local:5000/equipe/modele:latest');
+    assert.equal(withModelTag('hf.co/org/modele:Q4_K_M'), 'hf.co/org/modele:Q4_K_M');
+  });
+});
+
+describe('sameModel', () => {
+  test('un nom sans étiquette désigne :latest et aucune autre étiquette', () => {
+    assert.ok(sameModel('llama3', 'llama3:latest'));
+    assert.ok(sameModel('llama3:8b', 'llama3:8b'));
+    assert.ok(!sameModel('llama3', 'llama3:8b'));
+    assert.ok(!sameModel('llama3', 'llama3.2'));
+  });
+});
+
+describe('RAGService: gestion des modèles', () => {
+  let ollama: FakeOllama;
+
+  const createService = async (options: FakeOllamaOptions = {}, autoPull = false, onPullProgress?: (status: ModelPullStatus) => void) => {
+    ollama = await startFakeOllama(options);
+    const rag = new RAGService({
+      ollama: { baseUrl: ollama.baseUrl, model: 'llama3.2', embeddingModel: 'nomic-embed-text' },
+      vectorStore: { similarity: 'cosine' },
+      chunking: { maxChunkSize: 1000, overlap: 0 },
+      retrieval: { topK: 2, threshold: 0 },
+      embeddingCache: { enabled: false },
+      models: { autoPull }
+    });
+    await rag.initialize(onPullProgress);
+    return rag;
+  };
+
+  afterEach(async () => {
+    await ollama.close();
+  });
+
+  test('le téléchargement cumule l\'avancement des couches et reste consultable', async () => {
+    const rag = await createService();
+    const progress: Array<[string, number, number]> = [];
+
+    const status = await rag.pullModel('mistral', update => {
+      assert.equal(rag.getPullStatus('mistral')?.state, 'running');
+      progress.push([update.status, update.completed, update.total]);
+    });
+
+    assert.deepEqual(progress, [
+      ['pulling manifest', 0, 0],
+      ['pulling a', 50, 100],
+      ['pulling a', 100, 100],
+      ['pulling b', 150, 150],
+      ['success', 150, 150]
+    ]);
+    assert.equal(status.state, 'completed');
+    assert.ok(status.finishedAt);
+    assert.equal(rag.getPullStatus('mistral'), status);
+    assert.equal(rag.getPullStatus('mistral:latest'), status);
+    assert.ok((await rag.listAvailableModels()).includes('mistral:latest'));
+  });
+
+  test('un téléchargement en erreur est marqué en échec', async () => {
+    const rag = await createService({ pullError: 'pull model manifest: file does not exist' });
+
+    await assert.rejects(rag.pullModel('inexistant'), /Erreur téléchargement inexistant: pull model manifest/);
+    const status = rag.getPullStatus('inexistant')!;
+    assert.equal(status.state, 'failed');
+    assert.match(status.error!, /file does not exist/);
+    assert.equal(rag.getPullStatus('autre'), undefined);
+  });
+
+  test('avec autoPull, les modèles absents sont téléchargés au démarrage', async () => {
+    const pulled: string[] = [];
+    const rag = await createService({ models: ['llama3.2:latest'] }, true, status => pulled.push(status.model));
+
+    assert.deepEqual(Array.from(new Set(pulled)), ['nomic-embed-text']);
+    assert.equal(ollama.requests.filter(url => url === '/api/pull').length, 1);
+    assert.equal(rag.getPullStatus('nomic-embed-text')?.state, 'completed');
+  });
+
+  test('un modèle utilisé par le service ne peut pas être supprimé, même nommé avec :latest', async () => {
+    const rag = await createService({ models: ['llama3.2:latest', 'nomic-embed-text:latest', 'mistral:latest'] });
+
+    await assert.rejects(rag.deleteModel('llama3.2:latest'), /utilisé par le service/);
+    await assert.rejects(rag.deleteModel('nomic-embed-text'), /utilisé par le service/);
+    await assert.rejects(rag.deleteModel('inconnu'), /modèle introuvable/);
+
+    assert.equal(await rag.hasModel('mistral'), true);
+    await rag.deleteModel('mistral');
+    assert.equal(await rag.hasModel('mistral'), false);
+    assert.deepEqual(await rag.listAvailableModels(), ['llama3.2:latest', 'nomic-embed-text:latest']);
+  });
+
+  test('détails d\'un modèle installé', async () => {
+    const rag = await createService();
+    const details = await rag.showModel('llama3.2');
+
+    assert.deepEqual(details, {
+      name: 'llama3.2',
+      family: 'llama',
+      format: 'gguf',
+      parameterSize: '3.2B',
+      quantization: 'Q4_K_M',
+      contextLength: 131072,
+      embeddingLength: 3072,
+      modifiedAt: new Date('2026-01-01T00:00:00Z'),
+      license: undefined,
+      parameters: undefined
+    });
+    await assert.rejects(rag.showModel('inconnu'), /modèle introuvable/);
+  });
+});
@@ -0,0 +1,189 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ChatMessage } from '../types/provider';
+import { OpenAICompatibleService } from '../services/openai.service';
+import { createProvider, resolveProviderConfig } from '../services/provider.factory';
+import { OllamaService } from '../services/ollama.service';
+import { RAGService } from '../services/rag.service';
+import { fakeEmbedding } from './fakeOllama';
+
+const API_KEY = 'sk-test';
+
+interface FakeServer {
+  baseUrl: string;
+  close(): Promise<void>;
+  /** Corps des requêtes reçues par route */
+  bodies: Record<string, any[]>;
+}
+
+/**
+ * Serveur compatible OpenAI minimal: /v1/models, /v1/embeddings (résultats dans le désordre)
+ * et /v1/chat/completions, avec ou sans streaming SSE
+ */
+async function startFakeServer(): Promise<FakeServer> {
+  const bodies: Record<string, any[]> = {};
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', data => raw += data);
+    req.on('end', () => {
+      if (req.headers.authorization !== `Bearer ${API_KEY}`) {
+        res.statusCode = 401;
+        res.end(JSON.stringify({ error: { message: 'clé invalide' } }));
+        return;
+      }
+
+      const body = raw ? JSON.parse(raw) : {};
+      (bodies[req.url!] ??= []).push(body);
+
+      switch (req.url) {
+        case '/v1/models':
+          res.end(JSON.stringify({ data: [{ id: 'qwen2.5' }, { id: 'bge-small' }] }));
+          return;
+        case '/v1/embeddings': {
+          const data = body.input.map((text: string, index: number) => ({ index, embedding: fakeEmbedding(text) }));
+          res.end(JSON.stringify({ data: data.reverse() }));
+          return;
+        }
+        case '/v1/chat/completions': {
+          const question = body.messages[body.messages.length - 1].content.split('Question: ')[1]?.split('\n')[0];
+          const answer = `Réponse à « ${question} »`;
+          if (!body.stream) {
+            res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: answer } }] }));
+            return;
+          }
+          res.setHeader('Content-Type', 'text/event-stream');
+          for (const token of answer.split(/(?= )/)) {
+            res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: token } }] })}\n\n`);
+          }
+          res.end('data: [DONE]\n\n');
+          return;
+        }
+      }
+
+      res.statusCode = 404;
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    bodies,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
+
+describe('OpenAICompatibleService', () => {
+  let server: FakeServer;
+  let service: OpenAICompatibleService;
+
+  before(async () => {
+    server = await startFakeServer();
+    service = new OpenAICompatibleService({
+      baseUrl: `${server.baseUrl}/`,
+      apiKey: API_KEY,
+      model: 'qwen2.5',
+      embeddingModel: 'bge-small',
+      embeddingBatchSize: 2,
+      retryDelay: 1
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('embeddings par lots, remis dans l\'ordre des index', async () => {
+    const texts = ['un', 'deux', 'trois'];
+    assert.deepEqual(await service.generateEmbeddings(texts), texts.map(text => fakeEmbedding(text)));
+    assert.deepEqual(server.bodies['/v1/embeddings'].map(body => body.input), [['un', 'deux'], ['trois']]);
+    assert.equal(server.bodies['/v1/embeddings'][0].model, 'bge-small');
+  });
+
+  test('génération et streaming via /chat/completions', async () => {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: 'Consignes' },
+      { role: 'user', content: 'Question: Quelle heure ?' }
+    ];
+    assert.equal(await service.generateResponse(messages), 'Réponse à « Quelle heure ? »');
+
+    const tokens: string[] = [];
+    for await (const token of service.generateResponseStream(messages)) {
+      tokens.push(token);
+    }
+    assert.ok(tokens.length > 1);
+    assert.equal(tokens.join(''), 'Réponse à « Quelle heure ? »');
+
+    const [request, streamed] = server.bodies['/v1/chat/completions'];
+    assert.deepEqual(request.messages, messages);
+    assert.equal(request.model, 'qwen2.5');
+    assert.equal(streamed.stream, true);
+  });
+
+  test('disponibilité, modèles et dimensions', async () => {
+    assert.equal(await service.isAvailable(), true);
+    assert.deepEqual(await service.listModels(), ['qwen2.5', 'bge-small']);
+    assert.deepEqual(await service.testEmbedding(), { success: true, dimensions: fakeEmbedding('').length });
+  });
+
+  test('une clé invalide est une erreur non retentée', async () => {
+    const unauthorized = new OpenAICompatibleService({ baseUrl: server.baseUrl, apiKey: 'mauvaise', embeddingModel: 'bge-small' });
+    const before = server.bodies['/v1/embeddings'].length;
+
+    await assert.rejects(unauthorized.generateEmbeddings(['un']), /401/);
+    assert.equal(await unauthorized.isAvailable(), false);
+    assert.equal(server.bodies['/v1/embeddings'].length, before);
+  });
+
+  test('un modèle manquant est signalé avant tout appel', async () => {
+    const incomplete = new OpenAICompatibleService({ baseUrl: server.baseUrl, apiKey: API_KEY });
+    await assert.rejects(incomplete.generateEmbeddings(['un']), /embeddingModel/);
+    await assert.rejects(incomplete.generateResponse([{ role: 'user', content: 'question' }]), /model/);
+  });
+
+  test('RAGService fonctionne entièrement sur le fournisseur compatible OpenAI', async () => {
+    const provider = { type: 'openai' as const, baseUrl: server.baseUrl, apiKey: API_KEY, model: 'qwen2.5', embeddingModel: 'bge-small' };
+    const rag = new RAGService({
+      providers: { generation: provider, embedding: provider },
+      vectorStore: { similarity: 'cosine' },
+      chunking: { maxChunkSize: 1000, overlap: 0 },
+      retrieval: { topK: 2, threshold: 0 },
+      embeddingCache: { enabled: false }
+    });
+    await rag.initialize();
+    await rag.addDocuments([{ id: 'midi', content: 'Il est midi à Paris.', metadata: { source: 'manual', title: 'Heure', timestamp: new Date() } }]);
+
+    const response = await rag.search({ query: 'Quelle heure est-il à Paris ?' });
+    assert.equal(response.answer, 'Réponse à « Quelle heure est-il à Paris ? »');
+    assert.equal(response.sources[0].metadata.title, 'Heure');
+
+    const stats = await rag.getStats();
+    assert.deepEqual(stats.providers, { generation: 'openai', embedding: 'openai' });
+    assert.equal(stats.vectorStore.dimensions, fakeEmbedding('').length);
+  });
+});
+
+describe('Configuration des fournisseurs', () => {
+  test('la section ollama sert de repli pour chaque rôle', () => {
+    const config = {
+      ollama: { model: 'llama3.2' },
+      providers: { embedding: { type: 'openai' as const, embeddingModel: 'bge-small' } },
+      vectorStore: { similarity: 'cosine' as const },
+      chunking: { maxChunkSize: 1000, overlap: 0 },
+      retrieval: { topK: 2, threshold: 0 }
+    };
+
+    assert.deepEqual(resolveProviderConfig(config, 'generation'), { type: 'ollama', model: 'llama3.2' });
+    assert.ok(createProvider(resolveProviderConfig(config, 'generation')) instanceof OllamaService);
+    assert.ok(createProvider(resolveProviderConfig(config, 'embedding')) instanceof OpenAICompatibleService);
+    assert.throws(() => resolveProviderConfig({ ...config, ollama: undefined }, 'generation'), /Aucun fournisseur/);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Chunk, VectorStoreConfig } from '../types/rag';
+import { VectorPersistence } from '../services/persistence.service';
+import { VectorStore } from '../services/vector.service';
+
+function chunk(id: string, embedding: number[] = [1, 0, 0]): Chunk {
+  return {
+    id,
+    content: `Contenu ${id}`,
+    embedding,
+    metadata: { source: 'manual', timestamp: new Date('2024-03-01T12:00:00Z') }
+  };
+}
+
+describe('Persistance du VectorStore', () => {
+  let dir: string;
+  let config: VectorStoreConfig;
+
+  const open = async (): Promise<VectorStore> => {
+    const store = new VectorStore(config);
+    await store.load();
+    return store;
+  };
+
+  const ids = async (store: VectorStore): Promise<string[]> =>
+    (await store.listChunks()).map(item => item.id).sort();
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'persistence-'));
+    config = { dimensions: 3, similarity: 'cosine', persistPath: path.join(dir, 'store'), compactionThreshold: 3 };
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('ajouts et suppressions sont rechargés, avant et après compaction', async () => {
+    const store = await open();
+    await store.addChunks([chunk('a')]);
+    await store.addChunks([chunk('b', [0, 1, 0])]);
+    await store.removeChunks(['a']);
+    await store.addChunks([chunk('c', [0, 0, 1])]);
+
+    const snapshot = JSON.parse(await fs.readFile(path.join(config.persistPath!, 'snapshot.json'), 'utf-8'));
+    assert.equal(snapshot.generation, 1);
+
+    const reloaded = await open();
+    assert.deepEqual(await ids(reloaded), ['b', 'c']);
+    const restored = await reloaded.getChunk('b');
+    assert.ok(restored?.metadata.timestamp instanceof Date);
+    assert.equal(restored.metadata.timestamp.toISOString(), '2024-03-01T12:00:00.000Z');
+  });
+
+  test('une dernière ligne tronquée du journal est ignorée et le journal réparé', async () => {
+    const store = await open();
+    await store.addChunks([chunk('a')]);
+    await store.addChunks([chunk('b')]);
+    const journal = path.join(config.persistPath!, 'journal.jsonl');
+    await fs.appendFile(journal, '{"gen":0,"op":"add","chunks":[{"id":"c","con');
+
+    const reloaded = await open();
+    assert.deepEqual(await ids(reloaded), ['a', 'b']);
+    assert.ok((await fs.readFile(journal, 'utf-8')).endsWith('\n'));
+
+    await reloaded.addChunks([chunk('d')]);
+    assert.deepEqual(await ids(await open()), ['a', 'b', 'd']);
+  });
+
+  test('les entrées d\'une génération antérieure au snapshot ne sont pas rejouées', async () => {
+    const persistence = new VectorPersistence(config.persistPath!);
+    await persistence.load();
+    await persistence.append({ op: 'add', chunks: [chunk('a')] });
+    const journal = path.join(config.persistPath!, 'journal.jsonl');
+    const beforeCompaction = await fs.readFile(journal, 'utf-8');
+
+    // Crash simulé entre l'écriture du snapshot et la troncature du journal
+    await persistence.compact([]);
+    await fs.writeFile(journal, beforeCompaction, 'utf-8');
+
+    assert.deepEqual(await new VectorPersistence(config.persistPath!).load(), []);
+  });
+
+  test('clear est persisté', async () => {
+    const store = await open();
+    await store.addChunks([chunk('a'), chunk('b')]);
+    await store.clear();
+    assert.deepEqual(await ids(await open()), []);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PromptLibrary } from '../services/prompt.service';
+import { SOURCE_INSTRUCTIONS, formatContext, parseJudgement, renderTemplate, responseLanguage } from '../utils/prompts';
+
+describe('renderTemplate', () => {
+  test('remplace les placeholders connus et laisse les autres tels quels', () => {
+    assert.equal(
+      renderTemplate('{{ question }} / {{language}} / {{inconnu}}', { question: 'Q', language: 'French' }),
+      'Q / French / {{inconnu}}'
+    );
+  });
+
+  test('numérote les extraits du contexte', () => {
+    assert.equal(formatContext(['a', 'b']), '[Source 1]\na\n\n---\n\n[Source 2]\nb');
+  });
+});
+
+describe('responseLanguage', () => {
+  test('détecte la langue de la question', () => {
+    assert.equal(responseLanguage('Comment fonctionne la gestion de la mémoire dans Rust ?'), 'French');
+    assert.equal(responseLanguage('How does the borrow checker work in Rust?'), 'English');
+    assert.equal(responseLanguage('Rust ?'), 'the same language as the question');
+  });
+
+  test('une langue imposée l\'emporte, par code ou par nom', () => {
+    assert.equal(responseLanguage('How does it work?', 'FR'), 'French');
+    assert.equal(responseLanguage('How does it work?', 'German'), 'German');
+  });
+});
+
+describe('PromptLibrary', () => {
+  test('construit consignes et consignes de citation, historique puis question avec le profil demandé', async () => {
+    const library = new PromptLibrary({
+      profiles: { court: { system: 'Réponds en {{language}}.', user: '{{question}}\n{{context}}' } }
+    });
+    await library.load();
+
+    const messages = library.buildMessages('Quelle heure est-il ?', ['Il est midi.'], {
+      profile: 'court',
+      history: [{ role: 'user', content: 'Bonjour' }, { role: 'assistant', content: 'Bonjour !' }]
+    });
+    assert.deepEqual(messages, [
+      { role: 'system', content: `Réponds en French.\n\n${SOURCE_INSTRUCTIONS}` },
+      { role: 'user', content: 'Bonjour' },
+      { role: 'assistant', content: 'Bonjour !' },
+      { role: 'user', content: 'Quelle heure est-il ?\n[Source 1]\nIl est midi.' }
+    ]);
+    assert.match(messages[0].content, /If the sources disagree, present each position/);
+    assert.match(library.buildMessages('Q', [])[0].content, /^You are an assistant specialized/);
+  });
+
+  test('les profils du dossier remplacent ceux du même nom', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompts-'));
+    try {
+      await fs.writeFile(path.join(dir, 'formal.json'), JSON.stringify({ system: 'Formel.', user: '{{question}}' }));
+      await fs.writeFile(path.join(dir, 'notes.txt'), 'ignoré');
+
+      const library = new PromptLibrary({ directory: dir, defaultProfile: 'formal' });
+      await library.load();
+      assert.equal(library.get().system, 'Formel.');
+      assert.deepEqual(library.list().map(profile => profile.name), ['default', 'formal', 'casual']);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('un profil par défaut inconnu ou un profil incomplet échoue au chargement', async () => {
+    await assert.rejects(new PromptLibrary({ defaultProfile: 'absent' }).load(), /Profil de prompt inconnu: absent/);
+    await assert.rejects(
+      new PromptLibrary({ profiles: { vide: { system: 'Consignes' } as any } }).load(),
+      /Profil de prompt invalide: vide/
+    );
+  });
+});
+
+describe('parseJudgement', () => {
+  test('lit le verdict en première ligne et la justification en seconde', () => {
+    assert.deepEqual(parseJudgement('SUPPORTED\nLe passage 1 l\'affirme.'), {
+      verdict: 'supported',
+      explanation: 'Le passage 1 l\'affirme.'
+    });
+    assert.deepEqual(parseJudgement('CONTRADICTED\n\nLe passage dit le contraire.'), {
+      verdict: 'contradicted',
+      explanation: 'Le passage dit le contraire.'
+    });
+    assert.equal(parseJudgement('UNSUPPORTED').verdict, 'unsupported');
+  });
+
+  test('tolère mise en forme, préfixe « Verdict: » et justification sur la même ligne', () => {
+    assert.equal(parseJudgement('**SUPPORTED**\nOk.').verdict, 'supported');
+    assert.equal(parseJudgement('Verdict: CONTRADICTED').verdict, 'contradicted');
+    assert.deepEqual(parseJudgement('SUPPORTED - le passage 2 le confirme'), {
+      verdict: 'supported',
+      explanation: 'le passage 2 le confirme'
+    });
+  });
+
+  test('une négation ou un verdict en minuscules vaut « non étayée »', () => {
+    assert.equal(parseJudgement('The claim is not supported by the passages.').verdict, 'unsupported');
+    assert.equal(parseJudgement('NOT SUPPORTED').verdict, 'unsupported');
+    assert.equal(parseJudgement('supported\nLe passage le dit.').verdict, 'unsupported');
+  });
+
+  test('le verdict n\'est cherché que sur la première ligne', () => {
+    assert.equal(parseJudgement('Je ne peux pas conclure.\nSUPPORTED').verdict, 'unsupported');
+    assert.equal(parseJudgement('').verdict, 'unsupported');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Chunk } from '../types/rag';
+import { VectorStore } from '../services/vector.service';
+import { dot, dotInt8, quantizeInt8, toFloat32 } from '../utils/vectors';
+import { random } from './random';
+
+const DIMENSIONS = 32;
+
+const next = random(7);
+const vector = (): number[] => Array.from({ length: DIMENSIONS }, () => next() * 2 - 1);
+
+function chunk(id: string): Chunk {
+  return { id, content: id, embedding: vector(), metadata: { source: 'manual', timestamp: new Date() } };
+}
+
+describe('quantizeInt8', () => {
+  test('reconstruit chaque composante à une demi-échelle près', () => {
+    const original = toFloat32(vector());
+    const { codes, scale } = quantizeInt8(original);
+
+    assert.ok(codes.every(code => code >= -127 && code <= 127));
+    original.forEach((value, index) => assert.ok(Math.abs(codes[index] * scale - value) <= scale / 2 + 1e-7));
+  });
+
+  test('dotInt8 approche le produit scalaire en pleine précision', () => {
+    const a = toFloat32(vector());
+    const b = toFloat32(vector());
+    assert.ok(Math.abs(dotInt8(quantizeInt8(a), quantizeInt8(b)) - dot(a, b)) < 0.05);
+  });
+
+  test('un vecteur nul reste nul', () => {
+    const { codes, scale } = quantizeInt8(new Float32Array(4));
+    assert.deepEqual(Array.from(codes), [0, 0, 0, 0]);
+    assert.equal(scale, 1);
+  });
+});
+
+describe('VectorStore en int8', () => {
+  const chunks = Array.from({ length: 300 }, (_, index) => chunk(`c${index}`));
+  const queries = Array.from({ length: 10 }, vector);
+
+  test('le re-scoring en pleine précision donne les mêmes résultats qu\'en float32', async () => {
+    const float = new VectorStore({ dimensions: DIMENSIONS, similarity: 'cosine' });
+    const int8 = new VectorStore({ dimensions: DIMENSIONS, similarity: 'cosine', quantization: 'int8' });
+    await float.addChunks(chunks);
+    await int8.addChunks(chunks);
+
+    for (const query of queries) {
+      const expected = await float.search(query, 5, -1);
+      const actual = await int8.search(query, 5, -1);
+      assert.deepEqual(actual.map(result => result.id), expected.map(result => result.id));
+      assert.deepEqual(actual.map(result => result.similarity), expected.map(result => result.similarity));
+    }
+  });
+
+  test('le seuil s\'applique aux similarités re-scorées', async () => {
+    const int8 = new VectorStore({ dimensions: DIMENSIONS, similarity: 'cosine', quantization: 'int8' });
+    await int8.addChunks(chunks);
+
+    const [best] = await int8.search(queries[0], 1, -1);
+    const results = await int8.search(queries[0], 5, best.similarity);
+    assert.deepEqual(results.map(result => result.id), [best.id]);
+  });
+
+  test('les codes int8 occupent un quart de la taille des vecteurs', async () => {
+    const int8 = new VectorStore({ dimensions: DIMENSIONS, similarity: 'cosine', quantization: 'int8' });
+    await int8.addChunks(chunks);
+
+    const { memory } = await int8.getStats();
+    assert.equal(memory.vectorBytes, chunks.length * (DIMENSIONS * 4 + 8));
+    assert.equal(memory.quantizedBytes, chunks.length * (DIMENSIONS + 8));
+  });
+});
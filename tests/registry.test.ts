@@ -0,0 +1,101 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Document, RAGConfig } from '../types/rag';
+import { RAGService } from '../services/rag.service';
+import { FakeOllama, startFakeOllama } from './fakeOllama';
+
+function document(id: string, content: string): Document {
+  return { id, content, metadata: { source: 'manual', title: id, timestamp: new Date('2024-05-01T00:00:00Z') } };
+}
+
+describe('Registre des documents', () => {
+  let ollama: FakeOllama;
+
+  const createService = async (deduplication?: RAGConfig['deduplication']): Promise<RAGService> => {
+    const rag = new RAGService({
+      ollama: { baseUrl: ollama.baseUrl, model: 'llama3.2:latest', retryAttempts: 1 },
+      vectorStore: { similarity: 'cosine' },
+      chunking: { maxChunkSize: 1000, overlap: 0 },
+      retrieval: { topK: 5, threshold: 0 },
+      embeddingCache: { enabled: false },
+      deduplication
+    });
+    await rag.initialize();
+    return rag;
+  };
+
+  const contents = async (rag: RAGService, id: string) =>
+    (await rag.search({ query: 'Rust', topK: 10, threshold: -1 })).sources
+      .filter(source => source.metadata.documentId === id)
+      .map(source => source.content);
+
+  before(async () => {
+    ollama = await startFakeOllama();
+  });
+
+  after(async () => {
+    await ollama.close();
+  });
+
+  test('une nouvelle version remplace les chunks de la précédente', async () => {
+    const rag = await createService();
+    await rag.addDocuments([document('rust', 'Rust garantit la sécurité mémoire.')]);
+
+    const record = await rag.updateDocument('rust', { content: 'Rust compile vers du code natif.' });
+    assert.deepEqual(record.chunkIds, ['rust_chunk_0']);
+    assert.ok(record.updatedAt);
+    assert.deepEqual(await contents(rag, 'rust'), ['Rust compile vers du code natif.']);
+    assert.equal((await rag.getStats()).vectorStore.totalChunks, 1);
+  });
+
+  test('ré-ingérer un document inchangé le conserve', async () => {
+    for (const policy of ['skip', 'merge', 'replace'] as const) {
+      const rag = await createService({ policy });
+      await rag.addDocuments([document('rust', 'Rust garantit la sécurité mémoire.')]);
+      await rag.addDocuments([document('rust', 'Rust garantit la sécurité mémoire.')]);
+
+      assert.deepEqual(rag.getDocument('rust')?.chunkIds, ['rust_chunk_0'], policy);
+      assert.equal((await rag.getStats()).vectorStore.totalChunks, 1, policy);
+    }
+  });
+
+  test('un échec d\'embedding de la nouvelle version conserve l\'ancienne', async () => {
+    const rag = await createService();
+    await rag.addDocuments([document('rust', 'Rust garantit la sécurité mémoire.')]);
+
+    ollama.embedFailures.push(500);
+    await assert.rejects(rag.updateDocument('rust', { content: 'Rust compile vers du code natif.' }), /500/);
+
+    assert.deepEqual(rag.getDocument('rust')?.chunkIds, ['rust_chunk_0']);
+    assert.deepEqual(await contents(rag, 'rust'), ['Rust garantit la sécurité mémoire.']);
+  });
+
+  test('un document entièrement dédupliqué n\'est pas enregistré', async () => {
+    for (const policy of ['skip', 'merge'] as const) {
+      const rag = await createService({ policy });
+      await rag.addDocuments([document('rust', 'Rust garantit la sécurité mémoire.')]);
+      await rag.addDocuments([document('copie', 'Rust garantit la sécurité mémoire.')]);
+
+      assert.equal(rag.getDocument('copie'), undefined, policy);
+      assert.deepEqual(rag.listDocuments().map(record => record.id), ['rust'], policy);
+      assert.equal((await rag.getStats()).documents, 1, policy);
+    }
+  });
+
+  test('replace: le document dont le chunk est remplacé par un doublon est retiré', async () => {
+    const rag = await createService({ policy: 'replace' });
+    await rag.addDocuments([document('rust', 'Rust garantit la sécurité mémoire.')]);
+    await rag.addDocuments([document('copie', 'Rust garantit la sécurité mémoire.')]);
+
+    assert.deepEqual(rag.listDocuments().map(record => record.id), ['copie']);
+  });
+
+  test('une mise à jour vers le contenu d\'un autre document retire le document', async () => {
+    const rag = await createService();
+    await rag.addDocuments([document('rust', 'Rust garantit la sécurité mémoire.'), document('go', 'Go privilégie la simplicité.')]);
+
+    await assert.rejects(rag.updateDocument('go', { content: 'Rust garantit la sécurité mémoire.' }), /Document go retiré/);
+    assert.deepEqual(rag.listDocuments().map(record => record.id), ['rust']);
+    assert.equal((await rag.getStats()).vectorStore.totalChunks, 1);
+  });
+});
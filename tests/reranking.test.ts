@@ -0,0 +1,69 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ScoredChunk } from '../types/vectorStore';
+import { rerankForDiversity, sourceKey } from '../utils/reranking';
+
+function scored(id: string, similarity: number, embedding: number[], url?: string): ScoredChunk {
+  return {
+    id,
+    content: id,
+    embedding,
+    similarity,
+    metadata: { source: url ? 'websearch' : 'manual', url, timestamp: new Date() }
+  };
+}
+
+// a et a-bis sont quasi identiques; b est moins pertinent mais différent
+const candidates = [
+  scored('a', 0.95, [1, 0, 0], 'https://a.example/1'),
+  scored('a-bis', 0.94, [0.99, 0.05, 0], 'https://a.example/2'),
+  scored('b', 0.80, [0, 1, 0], 'https://b.example/1'),
+  scored('c', 0.70, [0, 0, 1], 'https://a.example/1')
+];
+
+describe('rerankForDiversity', () => {
+  test('sans option, conserve l\'ordre de pertinence', () => {
+    const ranked = rerankForDiversity(candidates, 3, {});
+    assert.deepEqual(ranked.map(chunk => chunk.id), ['a', 'a-bis', 'b']);
+  });
+
+  test('lambda = 1 équivaut au classement par pertinence', () => {
+    const ranked = rerankForDiversity(candidates, 3, { lambda: 1 });
+    assert.deepEqual(ranked.map(chunk => chunk.id), ['a', 'a-bis', 'b']);
+  });
+
+  test('MMR écarte un quasi-doublon au profit d\'un chunk différent', () => {
+    const ranked = rerankForDiversity(candidates, 3, { lambda: 0.5 });
+    assert.deepEqual(ranked.map(chunk => chunk.id), ['a', 'b', 'c']);
+
+    const balanced = rerankForDiversity(candidates, 2, { lambda: 0.7 });
+    assert.deepEqual(balanced.map(chunk => chunk.id), ['a', 'b']);
+  });
+
+  test('le plafond par source limite les chunks d\'une même url', () => {
+    const ranked = rerankForDiversity(candidates, 4, { maxPerSource: 1 });
+    assert.deepEqual(ranked.map(chunk => chunk.id), ['a', 'a-bis', 'b']);
+  });
+
+  test('plafond et MMR se combinent', () => {
+    const ranked = rerankForDiversity(candidates, 4, { lambda: 0.5, maxPerSource: 1 });
+    assert.equal(ranked.filter(chunk => chunk.metadata.url === 'https://a.example/1').length, 1);
+    assert.ok(ranked.every(chunk => chunk.id !== 'c'));
+  });
+
+  test('les chunks sans embedding ne sont pas pénalisés', () => {
+    const ranked = rerankForDiversity([
+      { ...candidates[0], embedding: undefined },
+      { ...candidates[1], embedding: undefined }
+    ], 2, { lambda: 0.5 });
+    assert.deepEqual(ranked.map(chunk => chunk.id), ['a', 'a-bis']);
+  });
+});
+
+describe('sourceKey', () => {
+  test('url, sinon titre, sinon unknown', () => {
+    assert.equal(sourceKey({ source: 'websearch', url: 'https://x.example', title: 'X', timestamp: new Date() }), 'https://x.example');
+    assert.equal(sourceKey({ source: 'upload', title: 'notes.md', timestamp: new Date() }), 'notes.md');
+    assert.equal(sourceKey({ source: 'manual', timestamp: new Date() }), 'unknown');
+  });
+});
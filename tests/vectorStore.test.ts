@@ -0,0 +1,220 @@
+import { after, before, beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Chunk, VectorStoreConfig } from '../types/rag';
+import { VectorStoreBackend } from '../types/vectorStore';
+import { createVectorStore } from '../services/vector.factory';
+
+/**
+ * Suite de conformité de VectorStoreBackend: chaque backend (et chaque variante de
+ * configuration) doit se comporter de la même manière
+ */
+const BACKENDS: Array<{ name: string; config: Omit<VectorStoreConfig, 'dimensions' | 'similarity'>; persistent: boolean }> = [
+  { name: 'memory', config: {}, persistent: false },
+  { name: 'memory + persistPath', config: { persistPath: 'store' }, persistent: true },
+  { name: 'memory + hnsw', config: { index: { type: 'hnsw', minSize: 0 } }, persistent: false },
+  { name: 'memory + int8', config: { quantization: 'int8' }, persistent: false },
+  { name: 'memory + persistPath + hnsw + int8', config: { persistPath: 'store', index: { type: 'hnsw', minSize: 0 }, quantization: 'int8' }, persistent: true },
+  { name: 'sqlite (en mémoire)', config: { backend: 'sqlite' }, persistent: false },
+  { name: 'sqlite', config: { backend: 'sqlite', persistPath: 'store' }, persistent: true }
+];
+
+const DIMENSIONS = 4;
+
+function chunk(id: string, embedding: number[], content: string, metadata: Partial<Chunk['metadata']> = {}): Chunk {
+  return {
+    id,
+    content,
+    embedding,
+    metadata: { source: 'manual', timestamp: new Date('2024-06-01T00:00:00Z'), ...metadata }
+  };
+}
+
+const CHUNKS: Chunk[] = [
+  chunk('rust-1', [1, 0, 0, 0], 'Rust garantit la sécurité mémoire sans ramasse-miettes.', {
+    source: 'websearch', url: 'https://rust.example/a', title: 'Rust', contentHash: 'h-rust-1', tags: ['langage', 'systeme'],
+    timestamp: new Date('2024-01-15T00:00:00Z')
+  }),
+  chunk('rust-2', [0.9, 0.1, 0, 0], 'Le compilateur Rust vérifie les emprunts à la compilation.', {
+    source: 'websearch', url: 'https://rust.example/a', title: 'Rust', contentHash: 'h-rust-2', tags: ['langage'],
+    timestamp: new Date('2024-01-15T00:00:00Z')
+  }),
+  chunk('python-1', [0, 1, 0, 0], 'Python est un langage interprété apprécié en science des données.', {
+    source: 'upload', title: 'python.md', contentHash: 'h-python-1', tags: ['langage'],
+    timestamp: new Date('2024-09-01T00:00:00Z')
+  }),
+  chunk('cuisine-1', [0, 0, 1, 0], 'La ratatouille se prépare avec des courgettes et des aubergines.', {
+    source: 'manual', title: 'Recettes', contentHash: 'h-cuisine-1'
+  })
+];
+
+for (const backend of BACKENDS) {
+  describe(`VectorStoreBackend: ${backend.name}`, () => {
+    let dir: string;
+    let store: VectorStoreBackend;
+
+    const open = async (): Promise<VectorStoreBackend> => {
+      const config: VectorStoreConfig = { ...backend.config, dimensions: DIMENSIONS, similarity: 'cosine' };
+      if (config.persistPath) {
+        config.persistPath = path.join(dir, config.persistPath);
+      }
+      const opened = createVectorStore(config);
+      await opened.load();
+      return opened;
+    };
+
+    before(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'vector-store-'));
+    });
+
+    after(async () => {
+      await store?.close();
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    beforeEach(async () => {
+      await store?.close();
+      await fs.rm(path.join(dir, 'store'), { recursive: true, force: true });
+      store = await open();
+      await store.addChunks(CHUNKS);
+    });
+
+    test('addChunks et getChunk conservent contenu, embedding et métadonnées', async () => {
+      const stored = await store.getChunk('rust-1');
+      assert.ok(stored);
+      assert.equal(stored.content, CHUNKS[0].content);
+      assert.equal(stored.metadata.url, 'https://rust.example/a');
+      assert.deepEqual(stored.metadata.tags, ['langage', 'systeme']);
+      assert.equal(stored.embedding?.length, DIMENSIONS);
+      stored.embedding!.forEach((value, index) => assert.ok(Math.abs(value - CHUNKS[0].embedding![index]) < 1e-6));
+      assert.equal(await store.getChunk('inconnu'), undefined);
+    });
+
+    test('addChunks rejette un chunk sans embedding ou de mauvaise dimension', async () => {
+      await assert.rejects(store.addChunks([{ ...CHUNKS[0], id: 'sans', embedding: undefined }]));
+      await assert.rejects(store.addChunks([chunk('court', [1, 0], 'Dimension incorrecte')]));
+      assert.equal((await store.getStats()).totalChunks, CHUNKS.length);
+    });
+
+    test('addChunks remplace un chunk de même id', async () => {
+      await store.addChunks([chunk('python-1', [0, 1, 0, 0], 'Contenu mis à jour')]);
+      assert.equal((await store.getChunk('python-1'))?.content, 'Contenu mis à jour');
+      assert.equal((await store.getStats()).totalChunks, CHUNKS.length);
+    });
+
+    test('search classe par similarité décroissante, respecte topK et le seuil', async () => {
+      const results = await store.search([1, 0.05, 0, 0], 2, 0);
+      assert.deepEqual(results.map(result => result.id), ['rust-1', 'rust-2']);
+      assert.ok(results[0].similarity >= results[1].similarity);
+      assert.ok(results[0].similarity > 0.99);
+
+      const strict = await store.search([1, 0, 0, 0], 10, 0.8);
+      assert.deepEqual(strict.map(result => result.id).sort(), ['rust-1', 'rust-2']);
+
+      await assert.rejects(store.search([1, 0], 2, 0));
+    });
+
+    test('search applique les filtres de métadonnées', async () => {
+      const bySource = await store.search([1, 1, 1, 0], 10, -1, { filter: { source: 'upload' } });
+      assert.deepEqual(bySource.map(result => result.id), ['python-1']);
+
+      const byDate = await store.search([1, 1, 1, 0], 10, -1, { filter: { timestamp: { gte: '2024-05-01' } } });
+      assert.deepEqual(byDate.map(result => result.id).sort(), ['cuisine-1', 'python-1']);
+
+      const byTags = await store.search([1, 1, 1, 0], 10, -1, { filter: { tags: { all: ['langage', 'systeme'] } } });
+      assert.deepEqual(byTags.map(result => result.id), ['rust-1']);
+
+      const byDomain = await store.search([1, 1, 1, 0], 10, -1, { filter: { domain: 'rust.example' } });
+      assert.deepEqual(byDomain.map(result => result.id).sort(), ['rust-1', 'rust-2']);
+    });
+
+    test('lexicalSearch retrouve les termes et normalise le meilleur score à 1', async () => {
+      const results = await store.lexicalSearch('ratatouille courgettes', 5);
+      assert.equal(results[0].id, 'cuisine-1');
+      assert.ok(Math.abs(results[0].similarity - 1) < 1e-9);
+
+      const filtered = await store.lexicalSearch('langage', 5, { filter: { source: 'upload' } });
+      assert.deepEqual(filtered.map(result => result.id), ['python-1']);
+
+      assert.deepEqual(await store.lexicalSearch('inexistantissime', 5), []);
+    });
+
+    test('removeChunks supprime des recherches vectorielle et lexicale', async () => {
+      await store.removeChunks(['cuisine-1', 'inconnu']);
+      assert.equal(await store.getChunk('cuisine-1'), undefined);
+      assert.deepEqual(await store.lexicalSearch('ratatouille', 5), []);
+      const results = await store.search([0, 0, 1, 0], 10, 0.5);
+      assert.ok(results.every(result => result.id !== 'cuisine-1'));
+    });
+
+    test('removeBySource supprime par url ou par titre', async () => {
+      await store.removeBySource('https://rust.example/a');
+      assert.deepEqual((await store.listChunks()).map(item => item.id).sort(), ['cuisine-1', 'python-1']);
+
+      await store.removeBySource('Recettes');
+      assert.deepEqual((await store.listChunks()).map(item => item.id), ['python-1']);
+    });
+
+    test('findByContentHash retourne les chunks correspondants', async () => {
+      const found = await store.findByContentHash(['h-rust-2', 'h-cuisine-1', 'h-absent']);
+      assert.deepEqual(found.map(item => item.id).sort(), ['cuisine-1', 'rust-2']);
+      assert.deepEqual(await store.findByContentHash([]), []);
+    });
+
+    test('listChunks retourne tous les chunks avec leurs embeddings', async () => {
+      const chunks = await store.listChunks();
+      assert.deepEqual(chunks.map(item => item.id).sort(), CHUNKS.map(item => item.id).sort());
+      assert.ok(chunks.every(item => item.embedding?.length === DIMENSIONS));
+    });
+
+    test('getStats compte les chunks par source', async () => {
+      const stats = await store.getStats();
+      assert.equal(stats.totalChunks, 4);
+      assert.equal(stats.dimensions, DIMENSIONS);
+      assert.deepEqual(
+        stats.sources.map(source => [source.source, source.count]).sort(),
+        [['Recettes', 1], ['https://rust.example/a', 2], ['python.md', 1]]
+      );
+      assert.ok(stats.memory.vectorBytes > 0);
+      assert.ok(stats.memory.totalBytes >= stats.memory.vectorBytes + stats.memory.contentBytes);
+    });
+
+    test('clear vide le store', async () => {
+      await store.clear();
+      assert.equal((await store.getStats()).totalChunks, 0);
+      assert.deepEqual(await store.search([1, 0, 0, 0], 5, -1), []);
+      assert.deepEqual(await store.lexicalSearch('rust', 5), []);
+    });
+
+    if (backend.persistent) {
+      test('le contenu est rechargé depuis le disque', async () => {
+        await store.removeChunks(['rust-2']);
+        await store.addChunks([chunk('go-1', [0, 0, 0, 1], 'Go privilégie la simplicité et la concurrence.', { title: 'Go' })]);
+        await store.close();
+
+        store = await open();
+        assert.deepEqual(
+          (await store.listChunks()).map(item => item.id).sort(),
+          ['cuisine-1', 'go-1', 'python-1', 'rust-1']
+        );
+        assert.equal((await store.search([0, 0, 0, 1], 1, 0))[0].id, 'go-1');
+        assert.equal((await store.lexicalSearch('concurrence', 1))[0].id, 'go-1');
+        assert.deepEqual((await store.findByContentHash(['h-python-1'])).map(item => item.id), ['python-1']);
+
+        const reloaded = await store.getChunk('rust-1');
+        assert.equal(reloaded?.metadata.url, 'https://rust.example/a');
+        assert.equal(new Date(reloaded!.metadata.timestamp).toISOString(), '2024-01-15T00:00:00.000Z');
+      });
+
+      test('clear est persisté', async () => {
+        await store.clear();
+        await store.close();
+
+        store = await open();
+        assert.equal((await store.getStats()).totalChunks, 0);
+      });
+    }
+  });
+}
@@ -0,0 +1,53 @@
+import { Document, DocumentRecord, VectorStoreConfig } from './rag';
+
+/**
+ * Format d'échange d'une base de connaissances: JSONL versionné, une ligne d'en-tête
+ * suivie des documents puis des chunks
+ */
+export const ARCHIVE_FORMAT = 'rag-knowledge-base';
+export const ARCHIVE_VERSION = 1;
+
+export interface ArchiveHeader {
+  type: 'header';
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  collection: string;
+  embedding: {
+    model: string;
+    dimensions: number;
+    similarity: VectorStoreConfig['similarity'];
+    /** Encodage des vecteurs dans les lignes chunk */
+    encoding: 'float32-base64';
+  };
+  documents: number;
+  chunks: number;
+}
+
+export type ArchiveDocument = { type: 'document' } & DocumentRecord;
+
+export interface ArchiveChunk {
+  type: 'chunk';
+  id: string;
+  content: string;
+  metadata: Document['metadata'];
+  embedding: string;
+}
+
+export type ArchiveLine = ArchiveHeader | ArchiveDocument | ArchiveChunk;
+
+export interface ImportOptions {
+  /** Collection de destination (collection active par défaut) */
+  collection?: string;
+  /** Modèle ou dimensions différents: refuser l'import (défaut) ou recalculer les embeddings */
+  onEmbeddingMismatch?: 'refuse' | 'reembed';
+  /** Vide la collection avant l'import */
+  replace?: boolean;
+}
+
+export interface ImportReport {
+  collection: string;
+  documents: number;
+  chunksImported: number;
+  reembedded: boolean;
+}
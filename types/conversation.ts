@@ -0,0 +1,28 @@
+/** Un échange d'une conversation: question posée, question autonome recherchée, réponse */
+export interface ConversationTurn {
+  question: string;
+  /** Question reformulée sans dépendre de l'historique, utilisée pour la recherche */
+  standaloneQuery: string;
+  answer: string;
+  /** Sources citées, sans leur contenu */
+  sources: Array<{ title?: string; url?: string; similarity?: number }>;
+  timestamp: Date;
+}
+
+export interface Conversation {
+  id: string;
+  turns: ConversationTurn[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Résumé d'une conversation pour les listes */
+export interface ConversationSummary {
+  id: string;
+  turns: number;
+  /** Première question posée */
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
@@ -0,0 +1,48 @@
+/** Position d'un élément de preuve vis-à-vis de l'affirmation vérifiée */
+export type EvidenceStance = 'supporting' | 'refuting' | 'neutral';
+
+/**
+ * Verdict d'une vérification: affirmation confirmée, réfutée, contestée (preuves dans les
+ * deux sens) ou non établie faute de preuve pertinente
+ */
+export type FactCheckVerdict = 'supported' | 'refuted' | 'disputed' | 'insufficient';
+
+/** Extrait d'une source locale ou web, classé par rapport à l'affirmation */
+export interface FactCheckEvidence {
+  stance: EvidenceStance;
+  content: string;
+  origin: 'local' | 'web';
+  title?: string;
+  url?: string;
+  /** Crédibilité de la page web d'origine (0 à 1) */
+  credibility?: number;
+  /** Similarité cosinus entre l'affirmation et l'extrait */
+  similarity: number;
+  /** Justification courte du classement */
+  explanation?: string;
+}
+
+export interface FactCheckOptions {
+  /** Collection interrogée (collection active par défaut) */
+  collection?: string;
+  /** Recherche de preuves sur le web en plus de la base locale (activée par défaut) */
+  includeWebSearch?: boolean;
+  /** Pages web consultées (5 par défaut) */
+  webResults?: number;
+  /** Extraits classés par le modèle (8 par défaut) */
+  maxEvidence?: number;
+}
+
+export interface FactCheckResult {
+  claim: string;
+  verdict: FactCheckVerdict;
+  /** Confiance dans le verdict, entre 0 et 1 */
+  confidence: number;
+  confidenceLevel: 'low' | 'medium' | 'high';
+  /** Preuves classées, les plus pertinentes d'abord */
+  evidence: FactCheckEvidence[];
+  /** Requêtes de recherche dérivées de l'affirmation */
+  queries: string[];
+  timestamp: Date;
+  durationMs: number;
+}
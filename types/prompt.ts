@@ -0,0 +1,10 @@
+/**
+ * Profil de prompt: consignes système et message utilisateur. Les placeholders
+ * {{context}}, {{question}} et {{language}} sont remplacés à chaque requête.
+ */
+export interface PromptProfile {
+  name: string;
+  description?: string;
+  system: string;
+  user: string;
+}
@@ -0,0 +1,77 @@
+import { ProgressCallback } from './rag';
+
+/** Message d'un échange avec un modèle de chat */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Fonctions communes à tout fournisseur de modèles (Ollama, serveur compatible OpenAI)
+ */
+export interface ModelProvider {
+  /** Type de fournisseur, pour les messages et les statistiques */
+  readonly name: string;
+  isAvailable(): Promise<boolean>;
+  listModels(): Promise<string[]>;
+}
+
+/**
+ * Contrat d'un fournisseur de génération de réponses
+ */
+export interface GenerationProvider extends ModelProvider {
+  readonly modelName: string;
+  /** Réponse du modèle à une suite de messages (consignes, historique, question) */
+  generateResponse(messages: ChatMessage[]): Promise<string>;
+  /** Produit les tokens au fil de la génération; interrompre l'itération annule la requête */
+  generateResponseStream(messages: ChatMessage[]): AsyncGenerator<string>;
+}
+
+/**
+ * Contrat d'un fournisseur d'embeddings
+ */
+export interface EmbeddingProvider extends ModelProvider {
+  readonly embeddingModelName: string;
+  generateEmbedding(text: string, model?: string): Promise<number[]>;
+  generateEmbeddings(texts: string[], model?: string, onProgress?: ProgressCallback): Promise<number[][]>;
+  /** Embedding de test, toujours calculé par le fournisseur (jamais servi par un cache) */
+  testEmbedding(model?: string): Promise<{ success: boolean; error?: string; dimensions?: number }>;
+}
+
+/** Avancement d'un téléchargement de modèle, en octets sur l'ensemble des couches annoncées */
+export interface ModelPullProgress {
+  /** Dernière étape annoncée (manifeste, couche, vérification, écriture) */
+  status: string;
+  completed: number;
+  total: number;
+}
+
+export type PullProgressCallback = (progress: ModelPullProgress) => void;
+
+/** Caractéristiques d'un modèle installé */
+export interface ModelDetails {
+  name: string;
+  family?: string;
+  format?: string;
+  parameterSize?: string;
+  quantization?: string;
+  /** Fenêtre de contexte en tokens */
+  contextLength?: number;
+  /** Dimensions des vecteurs produits */
+  embeddingLength?: number;
+  modifiedAt?: Date;
+  license?: string;
+  /** Paramètres par défaut du modelfile (un par ligne) */
+  parameters?: string;
+}
+
+/**
+ * Gestion des modèles d'un fournisseur qui les héberge localement (Ollama):
+ * téléchargement, suppression et inspection
+ */
+export interface ModelManager {
+  hasModel(model: string): Promise<boolean>;
+  pullModel(model: string, onProgress?: PullProgressCallback): Promise<void>;
+  deleteModel(model: string): Promise<void>;
+  showModel(model: string): Promise<ModelDetails>;
+}
@@ -1,3 +1,5 @@
+import { PromptProfile } from './prompt';
+
 export interface Document {
   id: string;
   content: string;
@@ -8,9 +10,40 @@ export interface Document {
     timestamp: Date;
     chunkIndex?: number;
     totalChunks?: number;
+    tags?: string[];
+    /** Document d'origine d'un chunk */
+    documentId?: string;
+    /** Empreinte SHA-256 du contenu normalisé, renseignée à l'ingestion */
+    contentHash?: string;
+    /** Modèle ayant calculé l'embedding du chunk */
+    embeddingModel?: string;
+    /** Crédibilité de la page web d'origine (0 à 1), calculée à l'extraction */
+    credibility?: number;
+    /** Champs libres définis par l'utilisateur, utilisables dans les filtres */
+    [key: string]: unknown;
   };
 }
 
+/**
+ * Entrée du registre des documents: un document ingéré et les chunks qui en sont issus
+ */
+export interface DocumentRecord {
+  id: string;
+  metadata: Document['metadata'];
+  /** Chunks présents dans le store (peut être vide si tout le contenu était dupliqué) */
+  chunkIds: string[];
+  /** Empreinte SHA-256 du contenu normalisé du document */
+  contentHash: string;
+  ingestedAt: Date;
+  updatedAt?: Date;
+}
+
+/** Modification d'un document: un nouveau contenu entraîne un nouveau chunking */
+export interface DocumentUpdate {
+  content?: string;
+  metadata?: Partial<Document['metadata']>;
+}
+
 export interface Chunk {
   id: string;
   content: string;
@@ -18,12 +51,52 @@ export interface Chunk {
   metadata: Document['metadata'];
 }
 
+export type MetadataValue = string | number | boolean | Date;
+
+export interface FilterOperators {
+  eq?: MetadataValue;
+  in?: MetadataValue[];
+  /** Pour les champs multi-valués (tags): toutes les valeurs doivent être présentes */
+  all?: MetadataValue[];
+  gt?: MetadataValue;
+  gte?: MetadataValue;
+  lt?: MetadataValue;
+  lte?: MetadataValue;
+  prefix?: string;
+}
+
+/** Valeur simple (égalité) ou opérateurs */
+export type FilterCondition = MetadataValue | FilterOperators;
+
+/**
+ * Filtre sur les métadonnées des chunks: chaque clé est un champ de metadata
+ * (source, url, timestamp, tags, champs libres...) ou le champ virtuel `domain`
+ */
+export type SearchFilter = Record<string, FilterCondition | undefined>;
+
+export type RetrievalMode = 'vector' | 'lexical' | 'hybrid';
+
 export interface SearchQuery {
   query: string;
   topK?: number;
   threshold?: number;
   includeWebSearch?: boolean;
   webSearchResults?: number;
+  filter?: SearchFilter;
+  /** Mode de recherche, surcharge retrieval.mode */
+  mode?: RetrievalMode;
+  /** Lambda MMR (0 = diversité, 1 = pertinence), surcharge retrieval.mmr.lambda */
+  mmrLambda?: number;
+  /** Plafond de chunks par source, surcharge retrieval.maxChunksPerSource */
+  maxChunksPerSource?: number;
+  /** Collection interrogée (collection active par défaut) */
+  collection?: string;
+  /** Profil de prompt (prompts.defaultProfile par défaut) */
+  profile?: string;
+  /** Langue de la réponse, détectée depuis la question si absente */
+  language?: string;
+  /** Vérification des affirmations de la réponse, surcharge verification.enabled */
+  verify?: boolean;
 }
 
 export interface RAGResponse {
@@ -35,24 +108,192 @@ export interface RAGResponse {
   }>;
   query: string;
   timestamp: Date;
+  /** Passages de la réponse reliés aux sources citées par leurs marqueurs [n] */
+  citations: Citation[];
+  /** Désaccords détectés entre les sources retenues */
+  conflicts: SourceConflict[];
+  /** Verdict de chaque affirmation de la réponse, si la vérification a eu lieu */
+  claims?: ClaimVerification[];
+  /** Tour de conversation: conversation concernée */
+  conversationId?: string;
+  /** Tour de conversation: question autonome utilisée pour la recherche */
+  standaloneQuery?: string;
+}
+
+/**
+ * Citation d'une source dans la réponse: le marqueur [marker] suit le passage
+ * answer.slice(start, end), appuyé par sources[sourceIndex]
+ */
+export interface Citation {
+  marker: number;
+  sourceIndex: number;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Désaccord entre deux sources sur un même sujet: chiffres ou dates incompatibles
+ * (numeric), ou affirmation et négation (negation)
+ */
+export interface SourceConflict {
+  /** Sources en désaccord (index dans sources) */
+  sourceIndices: [number, number];
+  kind: 'numeric' | 'negation';
+  /** Termes communs aux deux phrases */
+  topic: string;
+  /** Phrase de chaque source */
+  statements: [string, string];
+  /** Valeurs divergentes, telles qu'écrites (désaccord numérique) */
+  values?: [string, string];
+}
+
+/**
+ * Verdict d'une affirmation confrontée aux sources: appuyée, non étayée (aucune source
+ * ne l'établit) ou contredite par une source
+ */
+export type ClaimVerdict = 'supported' | 'unsupported' | 'contradicted';
+
+/**
+ * Affirmation de la réponse (answer.slice(start, end)) et son verdict
+ */
+export interface ClaimVerification {
+  claim: string;
+  verdict: ClaimVerdict;
+  start: number;
+  end: number;
+  /** Sources confrontées à l'affirmation (index dans sources): sources citées, puis les plus proches */
+  sourceIndices: number[];
+  /** Meilleure similarité cosinus entre l'affirmation et une source */
+  similarity: number;
+  /** Justification courte du verdict */
+  explanation?: string;
 }
 
+/**
+ * Événements d'une recherche en streaming: les sources d'abord, puis les tokens
+ * de la réponse, la vérification éventuelle des affirmations, enfin la réponse complète
+ */
+export type RAGStreamEvent =
+  | { type: 'sources'; sources: RAGResponse['sources'] }
+  | { type: 'token'; token: string }
+  | { type: 'verifying'; claims: number }
+  | { type: 'done'; response: RAGResponse; durationMs: number };
+
 export interface OllamaConfig {
   baseUrl?: string;
   model: string;
   embeddingModel?: string;
   temperature?: number;
   maxTokens?: number;
+  /** Textes envoyés par appel à /api/embed (32 par défaut) */
+  embeddingBatchSize?: number;
+  /** Lots d'embeddings traités simultanément (2 par défaut) */
+  embeddingConcurrency?: number;
+  /** Tentatives par lot d'embeddings avant échec (3 par défaut) */
+  retryAttempts?: number;
+  /** Délai de base entre deux tentatives en ms, multiplié par le numéro de tentative */
+  retryDelay?: number;
+}
+
+/**
+ * Serveur exposant l'API compatible OpenAI (llama.cpp, vLLM...):
+ * /chat/completions, /embeddings et /models sous baseUrl
+ */
+export interface OpenAICompatibleConfig {
+  /** URL de base incluant le préfixe de version (défaut: http://localhost:8000/v1) */
+  baseUrl?: string;
+  /** Envoyée en en-tête Authorization: Bearer */
+  apiKey?: string;
+  /** Modèle de génération (requis pour la génération) */
+  model?: string;
+  /** Modèle d'embedding (requis pour les embeddings) */
+  embeddingModel?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Textes envoyés par appel à /embeddings (32 par défaut) */
+  embeddingBatchSize?: number;
+  /** Lots d'embeddings traités simultanément (2 par défaut) */
+  embeddingConcurrency?: number;
+  /** Tentatives par requête avant échec (3 par défaut) */
+  retryAttempts?: number;
+  /** Délai de base entre deux tentatives en ms, multiplié par le numéro de tentative */
+  retryDelay?: number;
 }
 
+/** Fournisseur de modèles et sa configuration */
+export type ProviderConfig =
+  | ({ type: 'ollama' } & OllamaConfig)
+  | ({ type: 'openai' } & OpenAICompatibleConfig);
+
+/** Avancement d'un traitement par lots (embeddings générés sur le total) */
+export type ProgressCallback = (done: number, total: number) => void;
+
 export interface VectorStoreConfig {
   dimensions: number;
   similarity: 'cosine' | 'euclidean' | 'dot';
+  /** Backend de stockage: 'memory' (défaut) ou 'sqlite' */
+  backend?: 'memory' | 'sqlite';
+  /** Fichier de la base SQLite (défaut: <persistPath>/store.sqlite, sinon en mémoire) */
+  sqlitePath?: string;
+  /** Dossier de persistance (snapshot + journal). Store en mémoire uniquement si absent */
+  persistPath?: string;
+  /** Nombre d'entrées du journal avant réécriture du snapshot */
+  compactionThreshold?: number;
+  /** Index de recherche approximative (recherche exacte par défaut) */
+  index?: {
+    type: 'exact' | 'hnsw';
+    /** Voisins par nœud HNSW: plus élevé = meilleur rappel, plus de mémoire */
+    m?: number;
+    /** Candidats explorés à l'insertion: plus élevé = meilleur graphe, insertion plus lente */
+    efConstruction?: number;
+    /** Candidats explorés à la recherche: compromis rappel / latence */
+    efSearch?: number;
+    /** Nombre de chunks en dessous duquel la recherche exacte reste utilisée */
+    minSize?: number;
+  };
+  /**
+   * Quantification scalaire des vecteurs: 'int8' ajoute une copie compacte pour un
+   * premier passage rapide, les meilleurs candidats sont re-scorés en pleine précision
+   */
+  quantization?: 'none' | 'int8';
+  /** Candidats re-scorés en pleine précision = topK * rescoreMultiplier (int8 uniquement) */
+  rescoreMultiplier?: number;
+}
+
+/**
+ * Traitement d'un doublon détecté à l'ingestion: 'skip' ignore le nouveau chunk,
+ * 'merge' fusionne ses métadonnées dans le chunk existant, 'replace' remplace l'existant
+ */
+export type DeduplicationPolicy = 'skip' | 'merge' | 'replace';
+
+export interface DeduplicationReport {
+  policy: DeduplicationPolicy;
+  /** Chunks réellement écrits (nouveaux ou remplaçants) */
+  chunksAdded: number;
+  /** Doublons au contenu normalisé identique */
+  exactDuplicates: number;
+  /** Quasi-doublons détectés par similarité d'embedding */
+  nearDuplicates: number;
 }
 
 export interface RAGConfig {
-  ollama: OllamaConfig;
-  vectorStore: VectorStoreConfig;
+  /** Fournisseur par défaut, utilisé pour tout rôle absent de `providers` */
+  ollama?: OllamaConfig;
+  /** Fournisseurs choisis séparément pour la génération et pour les embeddings */
+  providers?: {
+    generation?: ProviderConfig;
+    embedding?: ProviderConfig;
+  };
+  /** Gestion des modèles des fournisseurs qui les hébergent (Ollama) */
+  models?: {
+    /** Télécharge au démarrage les modèles de génération et d'embedding absents (désactivé par défaut) */
+    autoPull?: boolean;
+  };
+  vectorStore: Omit<VectorStoreConfig, 'dimensions'> & {
+    /** Détectées au démarrage via le modèle d'embedding; valeur de repli si la détection échoue */
+    dimensions?: number;
+  };
   chunking: {
     maxChunkSize: number;
     overlap: number;
@@ -60,5 +301,178 @@ export interface RAGConfig {
   retrieval: {
     topK: number;
     threshold: number;
+    /** Mode de recherche par défaut ('vector' si absent) */
+    mode?: RetrievalMode;
+    /** Fusion des scores en mode hybride */
+    hybrid?: {
+      /** 'rrf' (Reciprocal Rank Fusion) ou 'weighted' (combinaison des scores normalisés) */
+      fusion: 'rrf' | 'weighted';
+      /** Poids de la recherche vectorielle entre 0 et 1, le lexical reçoit le complément */
+      vectorWeight?: number;
+      /** Constante k de la RRF */
+      rrfK?: number;
+    };
+    /** Reranking Maximal Marginal Relevance pour limiter les chunks redondants */
+    mmr?: {
+      enabled: boolean;
+      /** 0 = diversité maximale, 1 = pertinence seule */
+      lambda: number;
+      /** Candidats récupérés avant reranking = topK * fetchMultiplier */
+      fetchMultiplier?: number;
+    };
+    /** Nombre maximum de chunks d'une même source dans le contexte */
+    maxChunksPerSource?: number;
+  };
+  /** Détection des doublons à l'ingestion (activée par défaut, politique 'skip') */
+  deduplication?: {
+    enabled?: boolean;
+    policy?: DeduplicationPolicy;
+    /** Similarité cosinus à partir de laquelle deux chunks sont des quasi-doublons */
+    nearDuplicateThreshold?: number;
+  };
+  /** Durée de validité des documents issus de la recherche web (aucune expiration si absent) */
+  freshness?: FreshnessPolicy;
+  /** Profils de prompt, en plus des profils intégrés (default, formal, casual) */
+  prompts?: {
+    /** Dossier de profils: un fichier <nom>.json { description?, system, user } par profil */
+    directory?: string;
+    profiles?: Record<string, Omit<PromptProfile, 'name'>>;
+    /** Profil utilisé quand la requête n'en précise pas ('default' par défaut) */
+    defaultProfile?: string;
+  };
+  /** Conversations multi-tours */
+  conversation?: {
+    /** Échanges précédents transmis au modèle (5 par défaut) */
+    historyTurns?: number;
+    /** Reformulation des questions de suivi avant la recherche (activée par défaut) */
+    condenseQuery?: boolean;
+  };
+  /** Crédibilité des pages web, calculée à l'extraction et utilisée comme a priori au classement */
+  credibility?: {
+    /** Réputation par domaine entre 0 et 1 (sous-domaines inclus), complète la liste intégrée */
+    domains?: Record<string, number>;
+    /** Poids de l'a priori: un chunk de crédibilité c voit son score multiplié par 1 - weight * (1 - c) (0 par défaut: a priori désactivé) */
+    weight?: number;
   };
-}
\ No newline at end of file
+  /** Détection des désaccords entre sources, signalés au modèle et dans la réponse (activée par défaut) */
+  conflicts?: {
+    enabled?: boolean;
+    /** Part de termes communs pour que deux phrases portent sur le même sujet (0.6 par défaut) */
+    minOverlap?: number;
+    /** Désaccords signalés au plus (5 par défaut) */
+    maxConflicts?: number;
+  };
+  /** Vérification des réponses: chaque affirmation est confrontée aux sources */
+  verification?: {
+    /** Vérification de chaque réponse (désactivée par défaut, SearchQuery.verify la demande au cas par cas) */
+    enabled?: boolean;
+    /** Similarité en dessous de laquelle une affirmation est non étayée sans interroger le modèle (0.5 par défaut) */
+    minSimilarity?: number;
+    /** Sources les plus proches soumises au modèle pour chaque affirmation (3 par défaut) */
+    evidenceCount?: number;
+    /** Affirmations vérifiées simultanément (2 par défaut) */
+    concurrency?: number;
+  };
+  /** Cache des embeddings (activé par défaut) */
+  embeddingCache?: {
+    enabled?: boolean;
+    /** Fichier SQLite du cache (défaut: <persistPath>/embedding-cache.sqlite, sinon en mémoire) */
+    path?: string;
+    /** Nombre maximum d'embeddings conservés (50000 par défaut), éviction LRU au-delà */
+    maxEntries?: number;
+  };
+}
+
+/**
+ * Politique de fraîcheur des documents web: un document dont la dernière récupération
+ * (metadata.timestamp) dépasse son TTL est périmé et peut être rafraîchi
+ */
+export interface FreshnessPolicy {
+  /** TTL par défaut, en heures */
+  ttlHours?: number;
+  /** TTL par domaine en heures (sous-domaines inclus), prioritaire sur ttlHours */
+  domains?: Record<string, number>;
+  /** Rafraîchissement automatique des documents périmés, toutes les N minutes */
+  refreshIntervalMinutes?: number;
+}
+
+/** Résultat d'un rafraîchissement des documents web périmés */
+export interface RefreshReport {
+  collection: string;
+  /** Documents dont l'URL a été récupérée à nouveau */
+  checked: number;
+  /** Documents dont le contenu a changé, re-découpés et re-vectorisés */
+  updated: number;
+  /** Documents inchangés, seule leur date de récupération est mise à jour */
+  unchanged: number;
+  failed: Array<{ id: string; url: string; error: string }>;
+}
+
+export interface EmbeddingCacheStats {
+  entries: number;
+  maxEntries: number;
+  /** Taille des vecteurs stockés, en octets */
+  sizeBytes: number;
+  hits: number;
+  misses: number;
+  /** Part des embeddings servis par le cache, entre 0 et 1 */
+  hitRate: number;
+  evictions: number;
+}
+
+export interface FreshnessStats {
+  webDocuments: number;
+  staleDocuments: number;
+  staleChunks: number;
+}
+/** Surcharges de configuration propres à une collection */
+export interface CollectionOverrides {
+  chunking?: Partial<RAGConfig['chunking']>;
+  retrieval?: Partial<RAGConfig['retrieval']>;
+  deduplication?: RAGConfig['deduplication'];
+  freshness?: Omit<FreshnessPolicy, 'refreshIntervalMinutes'>;
+}
+
+/** Modèle d'embedding avec lequel le store d'une collection a été construit */
+export interface EmbeddingInfo {
+  model: string;
+  dimensions: number;
+}
+
+/** Avancement de la migration d'une collection vers un nouveau modèle d'embedding */
+export interface ReembedStatus {
+  collection: string;
+  state: 'running' | 'completed' | 'failed';
+  from: EmbeddingInfo;
+  to: EmbeddingInfo;
+  /** Chunks déjà présents dans le nouveau store */
+  processed: number;
+  total: number;
+  startedAt: Date;
+  finishedAt?: Date;
+  error?: string;
+}
+
+/** Téléchargement d'un modèle lancé par le service (démarrage ou à la demande) */
+export interface ModelPullStatus {
+  model: string;
+  state: 'running' | 'completed' | 'failed';
+  /** Dernière étape annoncée par le fournisseur */
+  status: string;
+  /** Octets téléchargés sur le total des couches annoncées */
+  completed: number;
+  total: number;
+  startedAt: Date;
+  finishedAt?: Date;
+  error?: string;
+}
+
+export interface CollectionInfo {
+  name: string;
+  active: boolean;
+  overrides: CollectionOverrides;
+  createdAt: Date;
+  totalChunks: number;
+  embedding: EmbeddingInfo;
+  reembed?: ReembedStatus;
+}
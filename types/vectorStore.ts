@@ -0,0 +1,45 @@
+import { Chunk, SearchFilter } from './rag';
+
+export type ScoredChunk = Chunk & { similarity: number };
+
+export interface VectorSearchOptions {
+  /** Force la recherche exacte (linéaire), utile pour vérifier l'index ANN */
+  exact?: boolean;
+  /** Surcharge ponctuelle de efSearch */
+  efSearch?: number;
+  /** Filtre sur les métadonnées, appliqué avant le calcul de similarité */
+  filter?: SearchFilter;
+}
+
+export interface VectorStoreStats {
+  totalChunks: number;
+  sources: Array<{ source: string; count: number }>;
+  dimensions: number;
+  memory: {
+    vectorBytes: number;
+    quantizedBytes: number;
+    contentBytes: number;
+    totalBytes: number;
+  };
+}
+
+/**
+ * Contrat commun à tous les backends de stockage vectoriel
+ */
+export interface VectorStoreBackend {
+  /** Charge ou ouvre le stockage sous-jacent */
+  load(): Promise<void>;
+  addChunks(chunks: Chunk[]): Promise<void>;
+  search(queryEmbedding: number[], topK?: number, threshold?: number, options?: VectorSearchOptions): Promise<ScoredChunk[]>;
+  lexicalSearch(query: string, topK?: number, options?: Pick<VectorSearchOptions, 'filter'>): Promise<ScoredChunk[]>;
+  removeChunks(chunkIds: string[]): Promise<void>;
+  removeBySource(source: string): Promise<void>;
+  getChunk(id: string): Promise<Chunk | undefined>;
+  /** Chunks dont metadata.contentHash figure parmi les empreintes données */
+  findByContentHash(hashes: string[]): Promise<Chunk[]>;
+  listChunks(): Promise<Chunk[]>;
+  getStats(): Promise<VectorStoreStats>;
+  clear(): Promise<void>;
+  /** Libère les ressources (fichiers, connexions) */
+  close(): Promise<void>;
+}
@@ -0,0 +1,107 @@
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  ArchiveChunk,
+  ArchiveDocument,
+  ArchiveHeader,
+  ArchiveLine
+} from '../types/archive';
+import { Chunk, DocumentRecord } from '../types/rag';
+import { toFloat32 } from './vectors';
+
+export function encodeVector(vector: number[]): string {
+  const values = toFloat32(vector);
+  return Buffer.from(values.buffer, values.byteOffset, values.byteLength).toString('base64');
+}
+
+export function decodeVector(encoded: string): number[] {
+  const bytes = Buffer.from(encoded, 'base64');
+  return Array.from(new Float32Array(Uint8Array.from(bytes).buffer));
+}
+
+/**
+ * Sérialise une collection (registre des documents et chunks) en lignes JSONL
+ */
+export function buildArchive(
+  header: Omit<ArchiveHeader, 'type' | 'format' | 'version' | 'exportedAt' | 'documents' | 'chunks'>,
+  documents: DocumentRecord[],
+  chunks: Chunk[]
+): string[] {
+  const documentLines: ArchiveDocument[] = documents.map(record => ({ type: 'document', ...record }));
+
+  const fullHeader: ArchiveHeader = {
+    type: 'header',
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...header,
+    documents: documents.length,
+    chunks: chunks.length
+  };
+
+  const chunkLines: ArchiveChunk[] = chunks.map(chunk => ({
+    type: 'chunk',
+    id: chunk.id,
+    content: chunk.content,
+    metadata: chunk.metadata,
+    embedding: encodeVector(chunk.embedding ?? [])
+  }));
+
+  return [fullHeader, ...documentLines, ...chunkLines].map(line => JSON.stringify(line));
+}
+
+/**
+ * Lit une archive JSONL et reconstruit les chunks. Lève une erreur si le format,
+ * la version ou le contenu sont invalides.
+ */
+export function parseArchive(text: string): { header: ArchiveHeader; documents: DocumentRecord[]; chunks: Chunk[] } {
+  const lines = text.split('\n').filter(line => line.trim().length > 0);
+  if (lines.length === 0) {
+    throw new Error('Archive vide');
+  }
+
+  const parsed = lines.map((line, index) => {
+    try {
+      return JSON.parse(line) as ArchiveLine;
+    } catch {
+      throw new Error(`Ligne ${index + 1} invalide dans l'archive`);
+    }
+  });
+
+  const [header, ...entries] = parsed;
+  if (header.type !== 'header' || header.format !== ARCHIVE_FORMAT) {
+    throw new Error('Format d\'archive non reconnu');
+  }
+  if (header.version > ARCHIVE_VERSION) {
+    throw new Error(`Version d'archive ${header.version} non supportée (max ${ARCHIVE_VERSION})`);
+  }
+
+  const documents: DocumentRecord[] = [];
+  const chunks: Chunk[] = [];
+
+  for (const entry of entries) {
+    if (entry.type === 'document') {
+      const { type: _type, ...record } = entry;
+      documents.push({
+        ...record,
+        metadata: { ...record.metadata, timestamp: new Date(record.metadata.timestamp) },
+        ingestedAt: new Date(record.ingestedAt),
+        updatedAt: record.updatedAt ? new Date(record.updatedAt) : undefined
+      });
+    } else if (entry.type === 'chunk') {
+      const embedding = decodeVector(entry.embedding);
+      chunks.push({
+        id: entry.id,
+        content: entry.content,
+        metadata: { ...entry.metadata, timestamp: new Date(entry.metadata.timestamp) },
+        embedding: embedding.length > 0 ? embedding : undefined
+      });
+    }
+  }
+
+  if (chunks.length !== header.chunks) {
+    throw new Error(`Archive incomplète: ${chunks.length} chunks lus, ${header.chunks} annoncés`);
+  }
+
+  return { header, documents, chunks };
+}
@@ -0,0 +1,107 @@
+import { tokenize } from './stopwords';
+
+export interface BM25Options {
+  /** Saturation de la fréquence des termes */
+  k1?: number;
+  /** Normalisation par la longueur du document (0 = aucune, 1 = complète) */
+  b?: number;
+}
+
+/**
+ * Index inversé avec scoring BM25, tenu à jour à côté des vecteurs
+ */
+export class BM25Index {
+  private readonly k1: number;
+  private readonly b: number;
+  private postings: Map<string, Map<string, number>> = new Map();
+  private docTerms: Map<string, string[]> = new Map();
+  private docLengths: Map<string, number> = new Map();
+  private totalLength = 0;
+
+  constructor(options: BM25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  get size(): number {
+    return this.docTerms.size;
+  }
+
+  add(id: string, text: string): void {
+    if (this.docTerms.has(id)) {
+      this.remove(id);
+    }
+
+    const terms = tokenize(text);
+    const frequencies = new Map<string, number>();
+    terms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+
+    for (const [term, frequency] of frequencies.entries()) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+      }
+      this.postings.get(term)!.set(id, frequency);
+    }
+
+    this.docTerms.set(id, Array.from(frequencies.keys()));
+    this.totalLength += terms.length;
+    this.docLengths.set(id, terms.length);
+  }
+
+  remove(id: string): void {
+    const terms = this.docTerms.get(id);
+    if (!terms) return;
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting && posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= this.docLengths.get(id) || 0;
+    this.docLengths.delete(id);
+    this.docTerms.delete(id);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.docTerms.clear();
+    this.docLengths.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Retourne les documents les mieux notés pour la requête, scores décroissants
+   */
+  search(query: string, topK: number, predicate?: (id: string) => boolean): Array<{ id: string; score: number }> {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const documentCount = this.docTerms.size;
+    if (queryTerms.length === 0 || documentCount === 0) return [];
+
+    const averageLength = this.totalLength / documentCount || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of queryTerms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+
+      for (const [id, frequency] of posting.entries()) {
+        if (predicate && !predicate(id)) continue;
+
+        const length = this.docLengths.get(id) || 0;
+        const normalization = this.k1 * (1 - this.b + this.b * (length / averageLength));
+        const termScore = idf * (frequency * (this.k1 + 1)) / (frequency + normalization);
+        scores.set(id, (scores.get(id) || 0) + termScore);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+}
@@ -25,6 +25,7 @@ export class TextChunker {
       content: content.trim(),
       metadata: {
         ...document.metadata,
+        documentId: document.id,
         chunkIndex: index,
         totalChunks: chunks.length
       }
@@ -0,0 +1,130 @@
+import { Citation } from '../types/rag';
+
+/**
+ * Marqueur de citation: [1], [1, 3], [Source 2], [Sources 1; 2]. Les espaces qui
+ * précèdent sont inclus pour disparaître avec un marqueur invalide. Les indices (a[0])
+ * et les liens markdown ([1](url)) ne sont pas des marqueurs.
+ */
+const MARKER_PATTERN = /(\s*)(?<!\w)\[(?:sources?\s*)?(\d+(?:\s*[,;]\s*(?:sources?\s*)?\d+)*)\](?!\()/gi;
+
+/** Au-delà, un crochet ouvrant sans fermeture n'est plus considéré comme un marqueur en cours */
+const MAX_MARKER_LENGTH = 40;
+
+/**
+ * Réécrit les marqueurs sous la forme [n][m] en ne gardant que les numéros de sources
+ * existantes (1 à sourceCount); un marqueur sans numéro valide est supprimé
+ */
+export function cleanCitationMarkers(text: string, sourceCount: number): string {
+  return replaceMarkers(text, sourceCount);
+}
+
+/**
+ * Nettoyage des marqueurs au fil d'un flux de tokens: le texte qui pourrait encore faire
+ * partie d'un marqueur (crochet ouvert, marqueur final suivi d'un lien, espaces de fin)
+ * est retenu jusqu'au token suivant
+ */
+export function createCitationFilter(sourceCount: number): { push(token: string): string; flush(): string } {
+  let pending = '';
+  // Dernier caractère émis (jamais un espace), nécessaire pour reconnaître a[0]
+  let previous = '';
+
+  const release = (text: string): string => {
+    const cleaned = replaceMarkers(previous + text, sourceCount, previous.length).slice(previous.length);
+    previous = cleaned.slice(-1) || previous;
+    return cleaned;
+  };
+
+  return {
+    push(token: string): string {
+      pending += token;
+
+      let hold = pending.trimEnd().length;
+      const open = pending.lastIndexOf('[');
+      const before = open > 0 ? pending[open - 1] : previous;
+      if (open >= 0 && !/\w/.test(before) && !pending.includes('\n', open) && pending.length - open <= MAX_MARKER_LENGTH) {
+        const close = pending.indexOf(']', open);
+        if (close < 0 || close === pending.length - 1) {
+          hold = pending.slice(0, open).trimEnd().length;
+        }
+      }
+
+      const ready = pending.slice(0, hold);
+      pending = pending.slice(hold);
+      return ready ? release(ready) : '';
+    },
+    flush(): string {
+      const rest = pending ? release(pending) : '';
+      pending = '';
+      return rest;
+    }
+  };
+}
+
+/**
+ * Citations d'une réponse dont les marqueurs sont déjà nettoyés: chaque numéro cité est
+ * relié au passage qui le précède (depuis le début de la phrase)
+ */
+export function extractCitations(answer: string): Citation[] {
+  const citations: Citation[] = [];
+  let floor = 0;
+
+  for (const match of answer.matchAll(/(?:\[\d+\])+/g)) {
+    const markerStart = match.index!;
+    const { start, end } = spanBefore(answer, markerStart, floor);
+    floor = markerStart + match[0].length;
+
+    if (end <= start) continue;
+
+    for (const number of parseMarkerNumbers(match[0].replace(/\]\[/g, ','))) {
+      citations.push({
+        marker: number,
+        sourceIndex: number - 1,
+        text: answer.slice(start, end),
+        start,
+        end
+      });
+    }
+  }
+
+  return citations;
+}
+
+/**
+ * Remplace les marqueurs commençant à partir de la position from (le texte qui précède
+ * ne sert qu'au contexte)
+ */
+function replaceMarkers(text: string, sourceCount: number, from: number = 0): string {
+  return text.replace(MARKER_PATTERN, (marker: string, spaces: string, numbers: string, offset: number) => {
+    if (offset < from) return marker;
+    const valid = parseMarkerNumbers(numbers).filter(number => number >= 1 && number <= sourceCount);
+    return valid.length > 0 ? `${spaces}${valid.map(number => `[${number}]`).join('')}` : '';
+  });
+}
+
+function parseMarkerNumbers(numbers: string): number[] {
+  const parsed = (numbers.match(/\d+/g) ?? []).map(Number);
+  return parsed.filter((number, index) => parsed.indexOf(number) === index);
+}
+
+/**
+ * Passage couvert par un marqueur: du début de la phrase (ou de la fin du marqueur
+ * précédent) jusqu'au marqueur, ponctuation finale comprise
+ */
+function spanBefore(answer: string, markerStart: number, floor: number): { start: number; end: number } {
+  const end = answer.slice(0, markerStart).trimEnd().length;
+  // Le dernier caractère est ignoré: un marqueur placé après le point cite la phrase qui se termine
+  const before = answer.slice(floor, Math.max(floor, end - 1));
+  const boundary = Math.max(
+    before.lastIndexOf('. '),
+    before.lastIndexOf('! '),
+    before.lastIndexOf('? '),
+    before.lastIndexOf('\n')
+  );
+
+  let start = boundary >= 0 ? floor + boundary + 1 : floor;
+  // Espaces, puces et numéros de liste ne font pas partie du passage
+  const prefix = /^\s*(?:(?:[>*+-]|\d+\.)\s+)*/.exec(answer.slice(start, end));
+  start += prefix ? prefix[0].length : 0;
+
+  return { start, end };
+}
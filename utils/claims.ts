@@ -0,0 +1,72 @@
+/**
+ * Affirmation extraite d'une réponse: une phrase, débarrassée de sa mise en forme
+ */
+export interface AnswerClaim {
+  text: string;
+  /** Position de la phrase dans la réponse (marqueurs de citation compris) */
+  start: number;
+  end: number;
+  /** Numéros des sources citées par la phrase ([n]) */
+  markers: number[];
+}
+
+/** Fin de phrase: ponctuation, marqueurs de citation éventuels, puis espace ou fin de ligne */
+const SENTENCE_END = /[.!?]+(?:\s*\[\d+\])*(?=\s|$)/g;
+
+/** En dessous, une phrase (titre, transition) n'est pas une affirmation vérifiable */
+const MIN_CLAIM_WORDS = 4;
+
+/**
+ * Découpe une réponse markdown en affirmations vérifiables: une par phrase, hors titres,
+ * tableaux, blocs de code, questions et phrases d'introduction (terminées par « : »)
+ */
+export function splitClaims(answer: string): AnswerClaim[] {
+  const claims: AnswerClaim[] = [];
+  let inCode = false;
+  let lineStart = 0;
+
+  for (const line of answer.split('\n')) {
+    const offset = lineStart;
+    lineStart += line.length + 1;
+
+    if (/^\s*```/.test(line)) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode || /^\s*[#|]/.test(line)) continue;
+
+    const ends = Array.from(line.matchAll(SENTENCE_END), match => match.index! + match[0].length);
+    if (ends.length === 0 || ends[ends.length - 1] < line.trimEnd().length) {
+      ends.push(line.trimEnd().length);
+    }
+
+    let sentenceStart = 0;
+    for (const end of ends) {
+      const claim = toClaim(answer, offset + sentenceStart, offset + end);
+      if (claim) claims.push(claim);
+      sentenceStart = end;
+    }
+  }
+
+  return claims;
+}
+
+function toClaim(answer: string, start: number, end: number): AnswerClaim | null {
+  // Espaces, puces et numéros de liste ne font pas partie de l'affirmation
+  const prefix = /^\s*(?:(?:[>*+-]|\d+\.)\s+)*/.exec(answer.slice(start, end));
+  start += prefix ? prefix[0].length : 0;
+
+  const sentence = answer.slice(start, end);
+  const markers = Array.from(sentence.matchAll(/\[(\d+)\]/g), match => Number(match[1]));
+  const text = sentence
+    .replace(/\s*\[\d+\]/g, '')
+    .replace(/\*\*|__|`/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (text.split(' ').length < MIN_CLAIM_WORDS || /[?:]$/.test(text)) {
+    return null;
+  }
+
+  return { text, start, end, markers: markers.filter((marker, index) => markers.indexOf(marker) === index) };
+}
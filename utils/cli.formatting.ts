@@ -89,3 +89,88 @@ export const formatMarkdown = (text: string): string => {
 
     return formatted;
 };
+
+/**
+ * Lien cliquable (séquence OSC 8) dans les terminaux qui les gèrent, texte seul sinon
+ */
+export const hyperlink = (text: string, url: string): string =>
+    process.stdout.isTTY ? `\x1b]8;;${url}\x1b\\${text}\x1b]8;;\x1b\\` : text;
+
+/**
+ * Marqueurs de citation [n] -> numéro coloré, cliquable vers l'URL de la source n
+ */
+export const formatCitations = (text: string, urls: Array<string | undefined>): string =>
+    text.replace(/(?<!\w)\[(\d+)\](?!\()/g, (marker, num) => {
+        const url = urls[Number(num) - 1];
+        const label = colorize(marker, colors.cyan);
+        return url ? hyperlink(label, url) : label;
+    });
+
+/**
+ * Crédibilité d'une source web (0 à 1) en pourcentage coloré; vide si elle n'est pas connue
+ */
+export const credibilityBadge = (credibility: unknown): string => {
+    if (typeof credibility !== 'number') return '';
+    const color = credibility >= 0.7 ? colors.green : credibility >= 0.5 ? colors.yellow : colors.red;
+    return colorize(`crédibilité ${Math.round(credibility * 100)}%`, color);
+};
+
+/**
+ * Taille lisible en unités décimales (ko, Mo, Go)
+ */
+export const formatBytes = (bytes: number): string => {
+    const units = ['o', 'ko', 'Mo', 'Go'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1000 && unit < units.length - 1) {
+        value /= 1000;
+        unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
+
+// Codes couleur ANSI et liens OSC 8, sans largeur à l'affichage
+const ANSI_PATTERN = /\x1b\[[0-9;]*m|\x1b\]8;;[^\x1b]*\x1b\\/g;
+
+/**
+ * Découpe les lignes trop longues en respectant les mots (codes couleur ANSI et liens ignorés)
+ */
+export const wrapLines = (lines: string[], maxWidth: number = 80): string[] => {
+    const splittedLines: string[] = [];
+
+    lines.forEach((line) => {
+        // Enlever les codes couleur ANSI pour calculer la vraie longueur
+        const cleanLine = line.replace(ANSI_PATTERN, '');
+
+        if (cleanLine.length <= maxWidth) {
+            splittedLines.push(line);
+        } else {
+            // Découper la ligne en respectant les mots
+            const words = line.split(' ');
+            let currentLine = '';
+            let currentCleanLine = '';
+
+            for (const word of words) {
+                const cleanWord = word.replace(ANSI_PATTERN, '');
+                const testCleanLine = currentCleanLine + (currentCleanLine ? ' ' : '') + cleanWord;
+
+                if (testCleanLine.length <= maxWidth) {
+                    currentLine += (currentLine ? ' ' : '') + word;
+                    currentCleanLine = testCleanLine;
+                } else {
+                    if (currentLine) {
+                        splittedLines.push(currentLine);
+                    }
+                    currentLine = word;
+                    currentCleanLine = cleanWord;
+                }
+            }
+
+            if (currentLine) {
+                splittedLines.push(currentLine);
+            }
+        }
+    });
+
+    return splittedLines;
+};
@@ -0,0 +1,56 @@
+/**
+ * Applique une tâche asynchrone à chaque élément avec au plus `limit` exécutions
+ * simultanées. L'ordre des résultats suit celui des éléments; au premier échec,
+ * aucune nouvelle tâche n'est lancée et l'erreur est propagée.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+/**
+ * Relance une tâche en échec jusqu'à `attempts` tentatives, avec un délai de
+ * `delay * tentative` ms; une erreur pour laquelle `retryable` renvoie false est propagée aussitôt
+ */
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  attempts: number,
+  delay: number,
+  retryable: (error: any) => boolean = () => true
+): Promise<T> {
+  let lastError: any;
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      return await task();
+    } catch (error: any) {
+      lastError = error;
+      if (!retryable(error) || attempt === attempts) break;
+
+      await new Promise(resolve => setTimeout(resolve, delay * attempt));
+    }
+  }
+
+  throw lastError;
+}
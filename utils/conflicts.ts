@@ -0,0 +1,164 @@
+import { SourceConflict } from '../types/rag';
+import { tokenize } from './stopwords';
+
+/** Source comparée: son texte et l'identité du document (deux chunks d'un même document ne se contredisent pas) */
+export interface ConflictSource {
+  content: string;
+  key: string;
+}
+
+export interface ConflictOptions {
+  /** Part de termes communs (rapportée à la phrase la plus courte) pour considérer qu'elles parlent de la même chose */
+  minOverlap?: number;
+  /** Désaccords retournés au plus, les plus nets d'abord */
+  maxConflicts?: number;
+}
+
+interface NumberMention {
+  raw: string;
+  value: number;
+  /** Catégorie comparable: pourcentage, montant ou simple quantité */
+  unit: 'percent' | 'currency' | 'count';
+  year: boolean;
+}
+
+interface Statement {
+  text: string;
+  terms: Set<string>;
+  numbers: NumberMention[];
+  negated: boolean;
+}
+
+/** Écart relatif en dessous duquel deux valeurs sont considérées identiques (arrondis) */
+const NUMERIC_TOLERANCE = 0.05;
+/** Une négation ne change le sens que de phrases presque identiques */
+const NEGATION_OVERLAP = 0.8;
+const MIN_SHARED_TERMS = 2;
+
+const NUMBER_PATTERN = /(\d+(?:[.,]\d+)*)\s*(%|€|\$|£|(?:million|milliard|billion|thousand|mille)s?\b|k\b|bn\b)?\s*(%|€|\$|£|euros?\b|dollars?\b)?/gi;
+const NEGATION_PATTERN = /\b(?:not|no|never|none|cannot|pas|jamais|aucun|aucune|non|ni)\b|n't/i;
+const SCALES: Record<string, number> = {
+  k: 1e3, thousand: 1e3, mille: 1e3, million: 1e6, milliard: 1e9, billion: 1e9, bn: 1e9
+};
+
+/**
+ * Désaccords entre sources: phrases de sources différentes qui portent sur les mêmes termes
+ * mais avancent des chiffres ou des dates incompatibles, ou dont l'une est la négation de l'autre
+ */
+export function detectConflicts(sources: ConflictSource[], options: ConflictOptions = {}): SourceConflict[] {
+  const { minOverlap = 0.6, maxConflicts = 5 } = options;
+  const statements = sources.map(source => splitStatements(source.content));
+  const found: Array<SourceConflict & { overlap: number }> = [];
+
+  for (let i = 0; i < sources.length; i++) {
+    for (let j = i + 1; j < sources.length; j++) {
+      if (sources[i].key === sources[j].key) continue;
+
+      const candidates: Array<SourceConflict & { overlap: number }> = [];
+      for (const a of statements[i]) {
+        for (const b of statements[j]) {
+          const shared = Array.from(a.terms).filter(term => b.terms.has(term));
+          const overlap = shared.length / Math.min(a.terms.size, b.terms.size);
+          if (shared.length < MIN_SHARED_TERMS || overlap < minOverlap) continue;
+
+          const conflict = compareStatements(a, b, overlap);
+          if (conflict) {
+            candidates.push({ ...conflict, sourceIndices: [i, j], topic: shared.slice(0, 4).join(' '), statements: [a.text, b.text], overlap });
+          }
+        }
+      }
+
+      // Une phrase ne participe qu'à un désaccord par paire de sources, le plus net
+      const used = new Set<string>();
+      for (const candidate of candidates.sort((a, b) => b.overlap - a.overlap)) {
+        if (candidate.statements.some(statement => used.has(statement))) continue;
+        candidate.statements.forEach(statement => used.add(statement));
+        found.push(candidate);
+      }
+    }
+  }
+
+  return found
+    .sort((a, b) => b.overlap - a.overlap)
+    .slice(0, maxConflicts)
+    .map(({ overlap: _overlap, ...conflict }) => conflict);
+}
+
+function compareStatements(a: Statement, b: Statement, overlap: number): Pick<SourceConflict, 'kind' | 'values'> | null {
+  const yearsA = a.numbers.filter(number => number.year);
+  const yearsB = b.numbers.filter(number => number.year);
+  const sameYears = yearsA.some(year => yearsB.some(other => other.value === year.value));
+
+  for (const unit of ['percent', 'currency', 'count'] as const) {
+    const valuesA = a.numbers.filter(number => !number.year && number.unit === unit);
+    const valuesB = b.numbers.filter(number => !number.year && number.unit === unit);
+    if (valuesA.length === 0 || valuesB.length === 0) continue;
+
+    // Des années différentes désignent des périodes différentes, pas un désaccord
+    if (yearsA.length > 0 && yearsB.length > 0 && !sameYears) return null;
+
+    if (!valuesA.some(value => valuesB.some(other => sameValue(value.value, other.value)))) {
+      return { kind: 'numeric', values: [valuesA[0].raw, valuesB[0].raw] };
+    }
+    return null;
+  }
+
+  // Seules des dates sont avancées: deux dates différentes pour le même fait
+  if (yearsA.length > 0 && yearsB.length > 0 && a.numbers.length === yearsA.length && b.numbers.length === yearsB.length && !sameYears) {
+    return { kind: 'numeric', values: [yearsA[0].raw, yearsB[0].raw] };
+  }
+
+  if (a.negated !== b.negated && overlap >= NEGATION_OVERLAP) {
+    return { kind: 'negation' };
+  }
+  return null;
+}
+
+function splitStatements(content: string): Statement[] {
+  return content
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length >= 20 && sentence.length <= 400)
+    .map(text => ({
+      text,
+      terms: new Set(tokenize(text, { minWordLength: 3 }).filter(term =>
+        !/^\d/.test(term) && !NEGATION_PATTERN.test(term) && !(term.replace(/s$/, '') in SCALES)
+      )),
+      numbers: parseNumbers(text),
+      negated: NEGATION_PATTERN.test(text)
+    }));
+}
+
+function parseNumbers(text: string): NumberMention[] {
+  const numbers: NumberMention[] = [];
+
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    const [raw, digits, scaleOrUnit = '', currency = ''] = match;
+    const marker = scaleOrUnit.toLowerCase().replace(/s$/, '');
+    const value = parseDigits(digits) * (SCALES[marker] ?? 1);
+    if (Number.isNaN(value)) continue;
+
+    const unit = marker === '%' || currency === '%' ? 'percent'
+      : /[€$£]|euro|dollar/i.test(marker + currency) ? 'currency'
+      : 'count';
+    const year = unit === 'count' && !marker && /^\d{4}$/.test(digits) && value >= 1800 && value <= 2100;
+
+    numbers.push({ raw: raw.trim(), value, unit, year });
+  }
+
+  return numbers;
+}
+
+/**
+ * 1,234,567 et 1.234.567 sont des milliers; 2,5 et 2.5 des décimaux
+ */
+function parseDigits(digits: string): number {
+  if (/^\d{1,3}([.,])\d{3}(\1\d{3})*$/.test(digits) && /[.,]\d{3}[.,]|^\d{1,3},\d{3}$/.test(digits)) {
+    return Number(digits.replace(/[.,]/g, ''));
+  }
+  return Number(digits.replace(',', '.'));
+}
+
+function sameValue(a: number, b: number): boolean {
+  return Math.abs(a - b) <= NUMERIC_TOLERANCE * Math.max(Math.abs(a), Math.abs(b));
+}
@@ -0,0 +1,112 @@
+import { ExtractedContent } from '../types/webSearch';
+import { extractDomain } from './filters';
+
+/**
+ * Réputation intégrée de domaines connus, entre 0 et 1 (sous-domaines inclus); complétée
+ * ou remplacée par credibility.domains
+ */
+export const DEFAULT_DOMAIN_REPUTATION: Record<string, number> = {
+  'gov': 0.9,
+  'gouv.fr': 0.9,
+  'europa.eu': 0.9,
+  'who.int': 0.9,
+  'nature.com': 0.9,
+  'science.org': 0.9,
+  'edu': 0.85,
+  'wikipedia.org': 0.8,
+  'arxiv.org': 0.8,
+  'github.com': 0.7,
+  'stackoverflow.com': 0.7,
+  'medium.com': 0.45,
+  'quora.com': 0.35,
+  'blogspot.com': 0.35,
+  'pinterest.com': 0.2
+};
+
+/** Réputation d'un domaine absent de la liste */
+const NEUTRAL_REPUTATION = 0.5;
+
+const WEIGHTS: Record<keyof CredibilitySignals, number> = {
+  domain: 0.35,
+  https: 0.1,
+  author: 0.1,
+  publishDate: 0.1,
+  length: 0.15,
+  quality: 0.2
+};
+
+/** Signaux de crédibilité d'une page, chacun entre 0 et 1 */
+export interface CredibilitySignals {
+  domain: number;
+  https: number;
+  author: number;
+  publishDate: number;
+  length: number;
+  quality: number;
+}
+
+/**
+ * Crédibilité d'une page web extraite, entre 0 et 1: réputation du domaine, HTTPS, auteur
+ * et date de publication renseignés, longueur du contenu et indices de qualité rédactionnelle
+ */
+export function scoreCredibility(
+  page: Pick<ExtractedContent, 'url' | 'content' | 'headings' | 'links' | 'metadata'>,
+  domains: Record<string, number> = {}
+): { score: number; signals: CredibilitySignals } {
+  const words = page.content.split(/\s+/).filter(Boolean).length;
+
+  const signals: CredibilitySignals = {
+    domain: domainReputation(page.url, { ...DEFAULT_DOMAIN_REPUTATION, ...domains }),
+    https: page.url.startsWith('https://') ? 1 : 0,
+    author: page.metadata.author ? 1 : 0,
+    publishDate: page.metadata.publishDate && !Number.isNaN(Date.parse(page.metadata.publishDate)) ? 1 : 0,
+    // 50 mots ou moins: 0, 1500 mots ou plus: 1, progression logarithmique entre les deux
+    length: clamp(Math.log10(words / 50) / Math.log10(30)),
+    quality: writingQuality(page, words)
+  };
+
+  const score = (Object.keys(WEIGHTS) as Array<keyof CredibilitySignals>)
+    .reduce((sum, signal) => sum + WEIGHTS[signal] * signals[signal], 0);
+
+  return { score: Math.round(score * 100) / 100, signals };
+}
+
+/**
+ * Réputation du domaine le plus spécifique de la liste correspondant à l'URL
+ */
+function domainReputation(url: string, reputation: Record<string, number>): number {
+  const domain = extractDomain(url);
+  if (!domain) return NEUTRAL_REPUTATION;
+
+  const match = Object.keys(reputation)
+    .filter(candidate => domain === candidate || domain.endsWith(`.${candidate}`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? clamp(reputation[match]) : NEUTRAL_REPUTATION;
+}
+
+/**
+ * Indices de qualité: structure en titres, densité de liens raisonnable (les fermes de contenu
+ * en sont saturées), pas de texte crié, phrases de longueur normale
+ */
+function writingQuality(page: Pick<ExtractedContent, 'content' | 'headings' | 'links'>, words: number): number {
+  if (words === 0) return 0;
+
+  const structure = page.headings.length >= 2 ? 1 : page.headings.length === 1 ? 0.7 : 0.4;
+
+  const linksPerThousandWords = (page.links.length / words) * 1000;
+  const linkDensity = clamp(1 - (linksPerThousandWords - 20) / 60);
+
+  const sentences = Math.max(1, (page.content.match(/[.!?](\s|$)/g) ?? []).length);
+  const exclamations = (page.content.match(/!/g) ?? []).length / sentences;
+  const capitalized = (page.content.match(/\b[A-ZÀ-Ý]{4,}\b/g) ?? []).length / words;
+  const tone = clamp(1 - exclamations * 2 - capitalized * 10);
+
+  const wordsPerSentence = words / sentences;
+  const sentenceLength = wordsPerSentence >= 8 && wordsPerSentence <= 35 ? 1 : 0.5;
+
+  return (structure + linkDensity + tone + sentenceLength) / 4;
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
@@ -0,0 +1,46 @@
+import { createHash } from 'crypto';
+import { Chunk } from '../types/rag';
+import { sourceKey } from './reranking';
+import { dot, norm, toFloat32 } from './vectors';
+
+/**
+ * Normalisation avant hachage: casse, espaces et formes Unicode équivalentes
+ * ne doivent pas distinguer deux contenus identiques
+ */
+export function normalizeForHash(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function contentHash(text: string): string {
+  return createHash('sha256').update(normalizeForHash(text)).digest('hex');
+}
+
+/**
+ * Similarité cosinus entre deux embeddings, indépendante de la métrique du store
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  const vectorA = toFloat32(a);
+  const vectorB = toFloat32(b);
+  const denominator = norm(vectorA) * norm(vectorB);
+  return denominator === 0 ? 0 : dot(vectorA, vectorB) / denominator;
+}
+
+/**
+ * Fusionne un doublon dans le chunk conservé: contenu et embedding inchangés,
+ * tags réunis, source du doublon ajoutée aux alias et horodatage le plus récent
+ */
+export function mergeDuplicate(kept: Chunk, duplicate: Chunk): Chunk {
+  const tags = Array.from(new Set([...(kept.metadata.tags ?? []), ...(duplicate.metadata.tags ?? [])]));
+  const aliases = Array.isArray(kept.metadata.aliases) ? kept.metadata.aliases as string[] : [];
+  const alias = sourceKey(duplicate.metadata);
+
+  return {
+    ...kept,
+    metadata: {
+      ...kept.metadata,
+      tags: tags.length > 0 ? tags : undefined,
+      aliases: alias === sourceKey(kept.metadata) || aliases.includes(alias) ? aliases : [...aliases, alias],
+      timestamp: duplicate.metadata.timestamp > kept.metadata.timestamp ? duplicate.metadata.timestamp : kept.metadata.timestamp
+    }
+  };
+}
@@ -0,0 +1,20 @@
+import { Chunk, Document } from '../types/rag';
+
+/** Métadonnées propres à un chunk, absentes des métadonnées d'un document */
+const CHUNK_FIELDS = ['chunkIndex', 'totalChunks', 'contentHash', 'documentId'];
+
+/**
+ * Document d'origine d'un chunk (les chunks antérieurs à documentId sont identifiés par leur ID)
+ */
+export function documentIdOf(chunk: Chunk): string {
+  return chunk.metadata.documentId ?? chunk.id.replace(/_chunk_\d+$/, '');
+}
+
+/**
+ * Retire d'une metadata de chunk les champs propres au chunk
+ */
+export function documentMetadata(metadata: Chunk['metadata']): Document['metadata'] {
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([key]) => !CHUNK_FIELDS.includes(key))
+  ) as Document['metadata'];
+}
@@ -0,0 +1,37 @@
+import { FactCheckEvidence, FactCheckResult } from '../types/factCheck';
+
+/** En dessous de cet écart relatif entre preuves pour et contre, l'affirmation est contestée */
+const DISPUTED_BALANCE = 0.35;
+
+/** Preuves décisives (pour ou contre) nécessaires pour une confiance pleine */
+const FULL_CONFIDENCE_EVIDENCE = 3;
+
+/**
+ * Verdict d'après les preuves classées: chaque preuve pèse sa similarité avec l'affirmation,
+ * les preuves neutres ne comptent pas. La confiance croît avec l'écart entre les deux camps
+ * et le nombre de preuves décisives.
+ */
+export function aggregateEvidence(evidence: FactCheckEvidence[]): Pick<FactCheckResult, 'verdict' | 'confidence' | 'confidenceLevel'> {
+  const weight = (stance: FactCheckEvidence['stance']) => evidence
+    .filter(item => item.stance === stance)
+    .reduce((sum, item) => sum + Math.max(0, item.similarity), 0);
+
+  const support = weight('supporting');
+  const refute = weight('refuting');
+  if (support + refute === 0) {
+    return { verdict: 'insufficient', confidence: 0, confidenceLevel: 'low' };
+  }
+
+  const balance = Math.abs(support - refute) / (support + refute);
+  const decisive = evidence.filter(item => item.stance !== 'neutral').length;
+  const coverage = Math.min(1, decisive / FULL_CONFIDENCE_EVIDENCE);
+
+  const verdict = balance < DISPUTED_BALANCE ? 'disputed' : support > refute ? 'supported' : 'refuted';
+  const confidence = Math.round((verdict === 'disputed' ? 1 - balance : balance) * coverage * 100) / 100;
+
+  return {
+    verdict,
+    confidence,
+    confidenceLevel: confidence >= 0.7 ? 'high' : confidence >= 0.4 ? 'medium' : 'low'
+  };
+}
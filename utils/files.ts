@@ -0,0 +1,28 @@
+import { promises as fs } from 'fs';
+
+/**
+ * Écrit un fichier de façon atomique: fichier temporaire synchronisé puis renommage
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tmpPath = `${filePath}.tmp`;
+  const handle = await fs.open(tmpPath, 'w');
+  try {
+    await handle.writeFile(content, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await fs.rename(tmpPath, filePath);
+}
+
+/**
+ * Lit un fichier JSON, retourne null s'il n'existe pas
+ */
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
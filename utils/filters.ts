@@ -0,0 +1,95 @@
+import { Document, FilterCondition, FilterOperators, MetadataValue, SearchFilter } from '../types/rag';
+
+/**
+ * Vérifie qu'un jeu de métadonnées satisfait toutes les conditions du filtre.
+ * Le champ virtuel `domain` correspond au nom d'hôte de `url` (sans `www.`).
+ */
+export function matchesFilter(metadata: Document['metadata'], filter: SearchFilter): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    if (condition === undefined) return true;
+
+    const value = field === 'domain' ? extractDomain(metadata.url) : metadata[field];
+    return matchesCondition(value, condition);
+  });
+}
+
+/**
+ * Extrait le domaine d'une URL, sans le préfixe `www.`
+ */
+export function extractDomain(url: unknown): string | undefined {
+  if (typeof url !== 'string') return undefined;
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+function matchesCondition(value: unknown, condition: FilterCondition): boolean {
+  const operators: FilterOperators = isOperators(condition) ? condition : { eq: condition };
+
+  // Champs multi-valués (ex: tags): eq = contient, in = au moins un, all = tous
+  if (Array.isArray(value)) {
+    if (operators.eq !== undefined && !value.some(item => isEqual(item, operators.eq!))) return false;
+    if (operators.in && !operators.in.some(expected => value.some(item => isEqual(item, expected)))) return false;
+    if (operators.all && !operators.all.every(expected => value.some(item => isEqual(item, expected)))) return false;
+    return true;
+  }
+
+  if (value === undefined || value === null) {
+    return false;
+  }
+
+  if (operators.eq !== undefined && !isEqual(value, operators.eq)) return false;
+  if (operators.in && !operators.in.some(expected => isEqual(value, expected))) return false;
+  if (operators.all && !operators.all.every(expected => isEqual(value, expected))) return false;
+
+  if (operators.prefix !== undefined) {
+    if (typeof value !== 'string' || !value.startsWith(operators.prefix)) return false;
+  }
+
+  if (operators.gt !== undefined && !(compare(value, operators.gt) > 0)) return false;
+  if (operators.gte !== undefined && !(compare(value, operators.gte) >= 0)) return false;
+  if (operators.lt !== undefined && !(compare(value, operators.lt) < 0)) return false;
+  if (operators.lte !== undefined && !(compare(value, operators.lte) <= 0)) return false;
+
+  return true;
+}
+
+function isOperators(condition: FilterCondition): condition is FilterOperators {
+  return typeof condition === 'object' && condition !== null && !(condition instanceof Date);
+}
+
+function isEqual(value: unknown, expected: MetadataValue): boolean {
+  if (value instanceof Date || expected instanceof Date) {
+    return compare(value, expected) === 0;
+  }
+  if (typeof value === 'string' && typeof expected === 'string') {
+    return value.toLowerCase() === expected.toLowerCase();
+  }
+  return value === expected;
+}
+
+/**
+ * Compare deux valeurs en convertissant les dates (Date ou chaîne ISO) en timestamps
+ */
+function compare(value: unknown, expected: MetadataValue): number {
+  if (value instanceof Date || expected instanceof Date) {
+    const left = toTime(value);
+    const right = toTime(expected);
+    if (Number.isNaN(left) || Number.isNaN(right)) return NaN;
+    return left - right;
+  }
+
+  if (typeof value === 'number' || typeof expected === 'number') {
+    return Number(value) - Number(expected);
+  }
+
+  return String(value).localeCompare(String(expected));
+}
+
+function toTime(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' || typeof value === 'number') return new Date(value).getTime();
+  return NaN;
+}
@@ -0,0 +1,27 @@
+import { Document, DocumentRecord, FreshnessPolicy } from '../types/rag';
+import { extractDomain } from './filters';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * TTL d'un document en millisecondes, ou null s'il n'expire pas (document non web,
+ * aucun TTL configuré). Le domaine le plus spécifique de la politique l'emporte.
+ */
+export function ttlFor(metadata: Document['metadata'], policy: FreshnessPolicy): number | null {
+  if (metadata.source !== 'websearch') return null;
+
+  const domain = extractDomain(metadata.url);
+  if (!domain) return null;
+
+  const match = Object.keys(policy.domains ?? {})
+    .filter(candidate => domain === candidate || domain.endsWith(`.${candidate}`))
+    .sort((a, b) => b.length - a.length)[0];
+  const hours = match ? policy.domains![match] : policy.ttlHours;
+
+  return hours === undefined ? null : hours * HOUR_MS;
+}
+
+export function isStale(record: DocumentRecord, policy: FreshnessPolicy, now: Date = new Date()): boolean {
+  const ttl = ttlFor(record.metadata, policy);
+  return ttl !== null && now.getTime() - new Date(record.metadata.timestamp).getTime() > ttl;
+}
@@ -0,0 +1,57 @@
+/**
+ * Fusion de classements issus de plusieurs méthodes de recherche (vectorielle, lexicale...)
+ */
+
+export interface RankedItem {
+  id: string;
+  score: number;
+}
+
+/**
+ * Reciprocal Rank Fusion: ne dépend que des rangs, robuste aux échelles de score différentes
+ */
+export function reciprocalRankFusion(
+  rankings: RankedItem[][],
+  k: number = 60,
+  weights: number[] = []
+): RankedItem[] {
+  const fused = new Map<string, number>();
+
+  rankings.forEach((ranking, listIndex) => {
+    const weight = weights[listIndex] ?? 1;
+    ranking.forEach((item, rank) => {
+      fused.set(item.id, (fused.get(item.id) || 0) + weight / (k + rank + 1));
+    });
+  });
+
+  return sortScores(fused);
+}
+
+/**
+ * Combinaison linéaire des scores normalisés (min-max) de chaque classement
+ */
+export function weightedScoreFusion(rankings: RankedItem[][], weights: number[]): RankedItem[] {
+  const fused = new Map<string, number>();
+
+  rankings.forEach((ranking, listIndex) => {
+    if (ranking.length === 0) return;
+
+    const weight = weights[listIndex] ?? 1;
+    const scores = ranking.map(item => item.score);
+    const min = Math.min(...scores);
+    const range = Math.max(...scores) - min;
+
+    ranking.forEach(item => {
+      const normalized = range > 0 ? (item.score - min) / range : 1;
+      fused.set(item.id, (fused.get(item.id) || 0) + weight * normalized);
+    });
+  });
+
+  return sortScores(fused);
+}
+
+function sortScores(scores: Map<string, number>): RankedItem[] {
+  return Array.from(scores.entries())
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,233 @@
+/**
+ * Index HNSW (Hierarchical Navigable Small World) pour la recherche approximative
+ * des plus proches voisins. L'index ne stocke que les identifiants: les scores sont
+ * fournis par l'appelant, ce qui le rend indépendant du format des vecteurs.
+ */
+
+export interface HNSWOptions {
+  /** Nombre maximum de voisins par nœud (2*m sur la couche 0) */
+  m: number;
+  /** Taille de la liste de candidats pendant la construction */
+  efConstruction: number;
+  /** Taille de la liste de candidats pendant la recherche */
+  efSearch: number;
+}
+
+interface HNSWNode {
+  level: number;
+  neighbors: string[][];
+}
+
+type Scored = { id: string; score: number };
+
+export class HNSWIndex {
+  private readonly options: HNSWOptions;
+  private readonly similarity: (a: string, b: string) => number;
+  private readonly levelMultiplier: number;
+  private nodes: Map<string, HNSWNode> = new Map();
+  private entryPoint: string | null = null;
+  private maxLevel = -1;
+
+  constructor(options: HNSWOptions, similarity: (a: string, b: string) => number) {
+    this.options = options;
+    this.similarity = similarity;
+    this.levelMultiplier = 1 / Math.log(Math.max(options.m, 2));
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  /**
+   * Insère un identifiant (son vecteur doit déjà être accessible via la fonction de similarité)
+   */
+  add(id: string): void {
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+    const node: HNSWNode = {
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => [])
+    };
+    this.nodes.set(id, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    const score = (other: string) => this.similarity(id, other);
+    let current = this.entryPoint;
+
+    // Descente gloutonne jusqu'au niveau du nouveau nœud
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this._searchLayer(score, [current], 1, layer)[0]?.id ?? current;
+    }
+
+    let entries = [current];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this._searchLayer(score, entries, this.options.efConstruction, layer)
+        .filter(candidate => candidate.id !== id);
+      const selected = candidates.slice(0, this._maxConnections(layer));
+
+      node.neighbors[layer] = selected.map(candidate => candidate.id);
+      for (const neighbor of selected) {
+        this._connect(neighbor.id, id, layer);
+      }
+
+      entries = candidates.length > 0 ? candidates.map(candidate => candidate.id) : entries;
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+    }
+  }
+
+  /**
+   * Retire un identifiant et reconnecte ses voisins entre eux.
+   * Les liens entrants non réciproques sont ignorés au parcours et purgés au prochain élagage.
+   */
+  remove(id: string): void {
+    const node = this.nodes.get(id);
+    if (!node) return;
+
+    this.nodes.delete(id);
+
+    for (let layer = 0; layer <= node.level; layer++) {
+      const orphans = node.neighbors[layer];
+
+      for (const neighborId of orphans) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor || neighbor.neighbors[layer] === undefined) continue;
+
+        const remaining = neighbor.neighbors[layer].filter(other => other !== id);
+        const candidates = new Set([...remaining, ...orphans]);
+        candidates.delete(neighborId);
+        candidates.delete(id);
+
+        neighbor.neighbors[layer] = this._selectNeighbors(neighborId, Array.from(candidates), layer);
+      }
+    }
+
+    if (this.entryPoint === id) {
+      this._electEntryPoint();
+    }
+  }
+
+  /**
+   * Recherche les k identifiants les mieux notés par la fonction de score
+   */
+  search(score: (id: string) => number, k: number, ef: number = this.options.efSearch): Scored[] {
+    if (this.entryPoint === null) return [];
+
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this._searchLayer(score, [current], 1, layer)[0]?.id ?? current;
+    }
+
+    return this._searchLayer(score, [current], Math.max(ef, k), 0).slice(0, k);
+  }
+
+  clear(): void {
+    this.nodes.clear();
+    this.entryPoint = null;
+    this.maxLevel = -1;
+  }
+
+  /**
+   * Parcours best-first d'une couche, retourne les candidats triés par score décroissant
+   */
+  private _searchLayer(score: (id: string) => number, entries: string[], ef: number, layer: number): Scored[] {
+    const visited = new Set<string>();
+    const candidates: Scored[] = [];
+    const results: Scored[] = [];
+
+    for (const id of entries) {
+      if (visited.has(id) || !this.nodes.has(id)) continue;
+      visited.add(id);
+      const scored = { id, score: score(id) };
+      this._insertSorted(candidates, scored);
+      this._insertSorted(results, scored);
+    }
+
+    while (candidates.length > 0) {
+      const best = candidates.shift()!;
+      const worstResult = results[results.length - 1];
+
+      if (results.length >= ef && best.score < worstResult.score) {
+        break;
+      }
+
+      const links = this.nodes.get(best.id)?.neighbors[layer] ?? [];
+      for (const neighborId of links) {
+        if (visited.has(neighborId) || !this.nodes.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const neighborScore = score(neighborId);
+        if (results.length < ef || neighborScore > results[results.length - 1].score) {
+          const scored = { id: neighborId, score: neighborScore };
+          this._insertSorted(candidates, scored);
+          this._insertSorted(results, scored);
+          if (results.length > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private _connect(from: string, to: string, layer: number): void {
+    const node = this.nodes.get(from);
+    if (!node || node.neighbors[layer] === undefined) return;
+
+    const links = node.neighbors[layer];
+    if (links.includes(to)) return;
+
+    links.push(to);
+    if (links.length > this._maxConnections(layer)) {
+      node.neighbors[layer] = this._selectNeighbors(from, links, layer);
+    }
+  }
+
+  private _selectNeighbors(id: string, candidates: string[], layer: number): string[] {
+    return candidates
+      .filter(candidate => this.nodes.has(candidate))
+      .map(candidate => ({ id: candidate, score: this.similarity(id, candidate) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this._maxConnections(layer))
+      .map(candidate => candidate.id);
+  }
+
+  private _electEntryPoint(): void {
+    this.entryPoint = null;
+    this.maxLevel = -1;
+
+    for (const [id, node] of this.nodes.entries()) {
+      if (node.level > this.maxLevel) {
+        this.entryPoint = id;
+        this.maxLevel = node.level;
+      }
+    }
+  }
+
+  private _maxConnections(layer: number): number {
+    return layer === 0 ? this.options.m * 2 : this.options.m;
+  }
+
+  private _insertSorted(list: Scored[], item: Scored): void {
+    let low = 0;
+    let high = list.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (list[mid].score >= item.score) low = mid + 1;
+      else high = mid;
+    }
+    list.splice(low, 0, item);
+  }
+}
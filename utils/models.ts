@@ -0,0 +1,15 @@
+/**
+ * Nom de modèle avec étiquette explicite: Ollama complète un nom sans étiquette par :latest.
+ * Seul le dernier segment porte l'étiquette (host:5000/modele n'en a pas).
+ */
+export function withModelTag(name: string): string {
+  const lastSegment = name.slice(name.lastIndexOf('/') + 1);
+  return lastSegment.includes(':') ? name : `${name}:latest`;
+}
+
+/**
+ * Deux noms désignent le même modèle (llama3 et llama3:latest, mais pas llama3:8b)
+ */
+export function sameModel(a: string, b: string): boolean {
+  return withModelTag(a) === withModelTag(b);
+}
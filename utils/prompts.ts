@@ -0,0 +1,185 @@
+import { ChatMessage } from '../types/provider';
+import { PromptProfile } from '../types/prompt';
+import { ClaimVerdict, SourceConflict } from '../types/rag';
+import { detectLanguage } from './stopwords';
+
+const LANGUAGE_NAMES: Record<string, string> = { fr: 'French', en: 'English' };
+
+const DEFAULT_USER_TEMPLATE = `Context:
+{{context}}
+
+Question: {{question}}
+
+Answer:`;
+
+/**
+ * Profils disponibles sans configuration
+ */
+export const BUILTIN_PROMPT_PROFILES: PromptProfile[] = [
+  {
+    name: 'default',
+    description: 'Réponse factuelle et concise, dans la langue de la question',
+    system: `You are an assistant specialized in research and information analysis.
+Answer the question using only the information provided in the context.
+If the context does not contain the answer, say so clearly.
+Be precise and concise. Structure the answer in Markdown.
+Answer in {{language}}.`,
+    user: DEFAULT_USER_TEMPLATE
+  },
+  {
+    name: 'formal',
+    description: 'Style strict et formel pour les rapports, sans emoji ni humour',
+    system: `You are an analyst writing for a formal report.
+Answer the question using only the information provided in the context; do not speculate beyond it.
+If the context is insufficient, state precisely what is missing.
+Use a neutral, formal register: no humour, no emojis, no rhetorical questions, no greetings.
+Structure the answer with short Markdown headings and complete sentences.
+Answer in {{language}}.`,
+    user: DEFAULT_USER_TEMPLATE
+  },
+  {
+    name: 'casual',
+    description: 'Ton détendu et humoristique, avec des emojis',
+    system: `You are an AI assistant specialized in research and information analysis.
+Your role is to answer questions using only the information provided in the context.
+If the information is not in the context, clearly state it.
+Be precise and concise, but keep a humorous tone, add emojis.
+No need for greetings or polite formulas — just give the answer, directly.
+Structure your answer clearly in Markdown format.
+Answer in {{language}}.`,
+    user: DEFAULT_USER_TEMPLATE
+  }
+];
+
+/**
+ * Consignes de citation et de traitement des désaccords ajoutées aux consignes de tout profil,
+ * intégré ou personnalisé
+ */
+export const SOURCE_INSTRUCTIONS = `Cite the sources supporting each statement with their number in square brackets, e.g. [1] or [1][3].
+Only cite source numbers that appear in the context.
+If the sources disagree, present each position with its sources instead of silently choosing one.`;
+
+/**
+ * Remplace les placeholders {{clé}}; un placeholder inconnu est laissé tel quel
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+/**
+ * Extraits numérotés [Source N], séparés par des filets
+ */
+export function formatContext(context: string[]): string {
+  return context
+    .map((chunk, index) => `[Source ${index + 1}]\n${chunk}`)
+    .join('\n\n---\n\n');
+}
+
+/**
+ * Consigne ajoutée aux instructions du profil quand des sources se contredisent
+ */
+export function formatConflicts(conflicts: SourceConflict[]): string {
+  const lines = conflicts.map(conflict => {
+    const [a, b] = conflict.sourceIndices.map(index => `[${index + 1}]`);
+    const detail = conflict.values ? `${conflict.values[0]} vs ${conflict.values[1]}` : 'one source states the opposite of the other';
+    return `- ${a} and ${b} disagree about "${conflict.topic}" (${detail})`;
+  });
+
+  return `The sources contradict each other on the following points. Do not hide the disagreement:
+state each position with its source numbers, and say which one is more recent or more specific if the context allows.
+${lines.join('\n')}`;
+}
+
+/**
+ * Langue de réponse pour le placeholder {{language}}: langue imposée (code ou nom), sinon
+ * langue détectée dans la question, sinon consigne de reprendre celle de la question
+ */
+export function responseLanguage(question: string, override?: string): string {
+  if (override) {
+    return LANGUAGE_NAMES[override.toLowerCase()] ?? override;
+  }
+
+  const language = detectLanguage(question);
+  return language ? LANGUAGE_NAMES[language] : 'the same language as the question';
+}
+
+/**
+ * Demande de reformulation d'une question de suivi en question autonome, exploitable
+ * pour la recherche sans l'historique
+ */
+export function buildCondenseMessages(history: ChatMessage[], question: string, maxMessageLength: number = 500): ChatMessage[] {
+  const transcript = history
+    .map(message => {
+      const content = message.content.length > maxMessageLength
+        ? `${message.content.slice(0, maxMessageLength)}...`
+        : message.content;
+      return `${message.role === 'user' ? 'User' : 'Assistant'}: ${content}`;
+    })
+    .join('\n');
+
+  return [
+    {
+      role: 'system',
+      content: `Rewrite the follow-up question as a standalone question that can be understood without the conversation.
+Replace pronouns and implicit references with the subjects they refer to.
+Keep the language of the follow-up question. Output only the rewritten question.`
+    },
+    {
+      role: 'user',
+      content: `Conversation:
+${transcript}
+
+Follow-up question: ${question}
+
+Standalone question:`
+    }
+  ];
+}
+
+/**
+ * Demande de verdict sur une affirmation au vu d'extraits de sources (vérification des réponses)
+ */
+export function buildEntailmentMessages(claim: string, evidence: string[]): ChatMessage[] {
+  return [
+    {
+      role: 'system',
+      content: `You check whether a claim is backed by source passages.
+On the first line, answer with exactly one word:
+SUPPORTED if the passages state or directly imply the claim,
+CONTRADICTED if the passages state something incompatible with the claim,
+UNSUPPORTED if the passages do not establish the claim either way.
+On the second line, justify the verdict in one short sentence.`
+    },
+    {
+      role: 'user',
+      content: `Passages:
+${formatContext(evidence)}
+
+Claim: ${claim}
+
+Verdict:`
+    }
+  ];
+}
+
+/**
+ * Verdict de la première ligne d'une réponse à buildEntailmentMessages, en majuscules comme
+ * demandé (mise en forme et préfixe « Verdict: » tolérés); justification sur la suite de la
+ * ligne ou la ligne suivante. Toute autre réponse vaut « non étayée ».
+ */
+export function parseJudgement(judgement: string): { verdict: ClaimVerdict; explanation?: string } {
+  const [first = '', ...rest] = judgement.trim().split('\n');
+  const line = first.replace(/[*_`"]/g, '').replace(/^\s*Verdict\s*:/i, '').trim();
+  const match = /^(SUPPORTED|CONTRADICTED|UNSUPPORTED)\b(.*)$/.exec(line);
+  if (!match) {
+    return { verdict: 'unsupported' };
+  }
+
+  const sameLine = match[2].replace(/^[\s.:,;\-–—]+/, '').trim();
+  const nextLine = rest.map(text => text.trim()).find(Boolean);
+
+  return {
+    verdict: match[1].toLowerCase() as ClaimVerdict,
+    explanation: sameLine || nextLine || undefined
+  };
+}
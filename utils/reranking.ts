@@ -0,0 +1,70 @@
+import { Document } from '../types/rag';
+import { ScoredChunk } from '../types/vectorStore';
+import { dot, norm, toFloat32 } from './vectors';
+
+export interface RerankOptions {
+  /** Compromis pertinence / diversité: 1 = pertinence seule, 0 = diversité seule */
+  lambda?: number;
+  /** Nombre maximum de chunks retenus par source (url ou titre) */
+  maxPerSource?: number;
+}
+
+/**
+ * Identifiant de la source d'un chunk, utilisé pour le plafond par source
+ */
+export function sourceKey(metadata: Document['metadata']): string {
+  return metadata.url || metadata.title || 'unknown';
+}
+
+/**
+ * Sélection gloutonne par Maximal Marginal Relevance: chaque chunk retenu maximise
+ * lambda * pertinence - (1 - lambda) * similarité maximale avec les chunks déjà retenus.
+ * Sans lambda, seul le plafond par source est appliqué dans l'ordre de pertinence.
+ */
+export function rerankForDiversity(candidates: ScoredChunk[], topK: number, options: RerankOptions): ScoredChunk[] {
+  const { lambda, maxPerSource } = options;
+  const vectors = candidates.map(candidate => candidate.embedding ? toFloat32(candidate.embedding) : null);
+  const norms = vectors.map(vector => vector ? norm(vector) : 0);
+  const perSource = new Map<string, number>();
+  const remaining = candidates.map((_, index) => index);
+  const selected: number[] = [];
+
+  const pairSimilarity = (a: number, b: number): number => {
+    const vectorA = vectors[a];
+    const vectorB = vectors[b];
+    if (!vectorA || !vectorB || norms[a] === 0 || norms[b] === 0) return 0;
+    return dot(vectorA, vectorB) / (norms[a] * norms[b]);
+  };
+
+  while (selected.length < topK && remaining.length > 0) {
+    let bestPosition = -1;
+    let bestScore = -Infinity;
+
+    for (let position = 0; position < remaining.length; position++) {
+      const index = remaining[position];
+      const source = sourceKey(candidates[index].metadata);
+      if (maxPerSource !== undefined && (perSource.get(source) || 0) >= maxPerSource) continue;
+
+      let score = candidates[index].similarity;
+      if (lambda !== undefined) {
+        const redundancy = selected.reduce((max, chosen) => Math.max(max, pairSimilarity(index, chosen)), 0);
+        score = lambda * score - (1 - lambda) * redundancy;
+      }
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestPosition = position;
+      }
+    }
+
+    // Tous les candidats restants dépassent le plafond de leur source
+    if (bestPosition === -1) break;
+
+    const [chosen] = remaining.splice(bestPosition, 1);
+    const source = sourceKey(candidates[chosen].metadata);
+    perSource.set(source, (perSource.get(source) || 0) + 1);
+    selected.push(chosen);
+  }
+
+  return selected.map(index => candidates[index]);
+}
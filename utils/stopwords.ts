@@ -57,6 +57,8 @@ const ENGLISH_STOP_WORDS = new Set([
   'only', 'own', 'same', 'so', 'than', 'too', 'very', 'just', 'now'
 ]);
 
+const STOP_WORDS_CACHE = new Map<string, ReadonlySet<string>>();
+
 export interface TopicExtractionOptions {
   /** Langue principale pour les stop words ('fr' | 'en' | 'both') */
   language?: 'fr' | 'en' | 'both';
@@ -85,6 +87,79 @@ export interface ExtractedTopics {
   };
 }
 
+/**
+ * Construit le set de stop words pour une langue, avec les mots personnalisés
+ */
+export function getStopWords(
+  language: 'fr' | 'en' | 'both' = 'both',
+  customStopWords: string[] = []
+): ReadonlySet<string> {
+  if (customStopWords.length === 0 && STOP_WORDS_CACHE.has(language)) {
+    return STOP_WORDS_CACHE.get(language)!;
+  }
+
+  let stopWords = new Set<string>();
+
+  if (language === 'fr' || language === 'both') {
+    stopWords = new Set([...stopWords, ...FRENCH_STOP_WORDS]);
+  }
+
+  if (language === 'en' || language === 'both') {
+    stopWords = new Set([...stopWords, ...ENGLISH_STOP_WORDS]);
+  }
+
+  // Ajout des stop words personnalisés
+  customStopWords.forEach(word => stopWords.add(word.toLowerCase()));
+
+  if (customStopWords.length === 0) {
+    STOP_WORDS_CACHE.set(language, stopWords);
+  }
+
+  return stopWords;
+}
+
+/**
+ * Langue probable d'un texte, d'après la part de stop words français et anglais.
+ * Retourne null si le texte est trop court ou ambigu.
+ */
+export function detectLanguage(text: string): 'fr' | 'en' | null {
+  const words = text.toLowerCase().match(/[a-zàâäçéèêëîïôöùûüÿœæ']+/g) ?? [];
+  let french = 0;
+  let english = 0;
+
+  for (const word of words) {
+    // Élisions: "l'eau", "qu'est" comptent pour "l" et "qu"
+    const base = word.split('\'')[0];
+    if (FRENCH_STOP_WORDS.has(base) || FRENCH_STOP_WORDS.has(word)) french++;
+    if (ENGLISH_STOP_WORDS.has(word)) english++;
+  }
+
+  // Les accents trahissent le français même sans stop words
+  if (/[àâçéèêëîïôùûœ]/.test(text)) french++;
+
+  if (french === english) return null;
+  return french > english ? 'fr' : 'en';
+}
+
+/**
+ * Découpe un texte en termes pour l'indexation lexicale (minuscules, accents conservés,
+ * stop words retirés). Les tirets sont conservés pour les identifiants comme "gpt-4".
+ */
+export function tokenize(
+  text: string,
+  options: Pick<TopicExtractionOptions, 'language' | 'minWordLength' | 'customStopWords'> = {}
+): string[] {
+  const { language = 'both', minWordLength = 2, customStopWords = [] } = options;
+  const stopWords = getStopWords(language, customStopWords);
+
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s\-]/gu, ' ')
+    .split(/\s+/)
+    .map(word => word.replace(/^-+|-+$/g, ''))
+    .filter(word => word.length >= minWordLength && !stopWords.has(word));
+}
+
 /**
  * Supprime les stop words et extrait les sujets principaux d'une requête
  */
@@ -107,19 +182,7 @@ export function extractTopics(
     .split(/\s+/)
     .filter(word => word.length > 0);
 
-  // Construction du set de stop words selon la langue
-  let stopWords = new Set<string>();
-  
-  if (language === 'fr' || language === 'both') {
-    stopWords = new Set([...stopWords, ...FRENCH_STOP_WORDS]);
-  }
-  
-  if (language === 'en' || language === 'both') {
-    stopWords = new Set([...stopWords, ...ENGLISH_STOP_WORDS]);
-  }
-  
-  // Ajout des stop words personnalisés
-  customStopWords.forEach(word => stopWords.add(word.toLowerCase()));
+  const stopWords = getStopWords(language, customStopWords);
 
   const removedWords: string[] = [];
   const topics: string[] = [];
@@ -0,0 +1,76 @@
+/**
+ * Opérations sur les vecteurs d'embedding stockés en tableaux typés
+ */
+
+export type SimilarityMetric = 'cosine' | 'euclidean' | 'dot';
+
+export interface QuantizedVector {
+  codes: Int8Array;
+  /** Facteur de reconstruction: valeur ≈ code * scale */
+  scale: number;
+}
+
+export function toFloat32(vector: number[] | Float32Array): Float32Array {
+  return vector instanceof Float32Array ? vector : Float32Array.from(vector);
+}
+
+export function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+export function norm(vector: Float32Array): number {
+  return Math.sqrt(dot(vector, vector));
+}
+
+/**
+ * Quantification scalaire symétrique sur 8 bits (une échelle par vecteur)
+ */
+export function quantizeInt8(vector: Float32Array): QuantizedVector {
+  let maxAbs = 0;
+  for (let i = 0; i < vector.length; i++) {
+    maxAbs = Math.max(maxAbs, Math.abs(vector[i]));
+  }
+
+  const scale = maxAbs > 0 ? maxAbs / 127 : 1;
+  const codes = new Int8Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    codes[i] = Math.round(vector[i] / scale);
+  }
+
+  return { codes, scale };
+}
+
+/**
+ * Produit scalaire approché entre deux vecteurs quantifiés
+ */
+export function dotInt8(a: QuantizedVector, b: QuantizedVector): number {
+  let sum = 0;
+  for (let i = 0; i < a.codes.length; i++) {
+    sum += a.codes[i] * b.codes[i];
+  }
+  return sum * a.scale * b.scale;
+}
+
+/**
+ * Convertit un produit scalaire (et les normes précalculées) en similarité selon la métrique
+ */
+export function similarityFromDot(metric: SimilarityMetric, dotProduct: number, normA: number, normB: number): number {
+  switch (metric) {
+    case 'cosine':
+      if (normA === 0 || normB === 0) return 0;
+      return dotProduct / (normA * normB);
+    case 'euclidean': {
+      const squaredDistance = Math.max(0, normA * normA + normB * normB - 2 * dotProduct);
+      // Convertit la distance en similarité (plus proche de 1 = plus similaire)
+      return 1 / (1 + Math.sqrt(squaredDistance));
+    }
+    case 'dot':
+      return dotProduct;
+    default:
+      throw new Error(`Méthode de similarité non supportée: ${metric}`);
+  }
+}